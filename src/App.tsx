@@ -9,6 +9,7 @@ import TeacherDashboard from "./pages/TeacherDashboard";
 import StudentDashboard from "./pages/StudentDashboard";
 import CreateQuizAI from "./pages/CreateQuizAI";
 import StudentJoin from "./pages/StudentJoin";
+import Presenter from "./pages/Presenter";
 import NotFound from "./pages/NotFound";
 import { AuthProvider } from "./contexts/AuthContext";
 import { QuizProvider } from "./contexts/quiz";
@@ -36,6 +37,7 @@ const App = () => {
                   <Route path="/join/:roomCode?" element={<StudentJoin />} />
                   <Route path="/student" element={<StudentDashboard />} />
                   <Route path="/room/:roomCode" element={<StudentJoin />} />
+                  <Route path="/present/:roomCode" element={<Presenter />} />
                   <Route path="/forgot-password" element={<ForgotPassword />} />
                   <Route path="/reset-password" element={<ResetPassword />} />
                   <Route path="*" element={<NotFound />} />
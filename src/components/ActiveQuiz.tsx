@@ -1,12 +1,22 @@
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Quiz, StudentAnswer } from "@/types/quiz";
-import { useQuiz } from "@/contexts/quiz";
+import { useLiveRoom } from "@/contexts/quiz";
+import { isCorrectOption, usesOptions, getAnswerKeyLabel, isGraded } from "@/utils/questionGrading";
+import { getQuestionTypeDefinition } from "@/questionTypes";
+import WordCloud from "@/components/WordCloud";
+import Leaderboard from "@/components/Leaderboard";
+import TeamStandings from "@/components/TeamStandings";
+import ParticipantMenu from "@/components/ParticipantMenu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { StopCircle, Users, CheckCircle, XCircle, UserPlus, User } from "lucide-react";
+import { StopCircle, Trophy, Users, CheckCircle, XCircle, UserPlus, User, ChevronLeft, ChevronRight, Eye, Flag, Clock, Pause, Play, TimerReset, WifiOff, Presentation } from "lucide-react";
+import { getQuestionTimeLimit, getTimeLeft } from "@/utils/quizTiming";
+import { buildLeaderboard } from "@/utils/scoringStrategies";
+import { buildTeamStandings } from "@/utils/teamStandings";
+import { isBanned } from "@/utils/roomBans";
 
 interface ActiveQuizProps {
   quiz: Quiz;
@@ -15,8 +25,22 @@ interface ActiveQuizProps {
 }
 
 const ActiveQuiz: React.FC<ActiveQuizProps> = ({ quiz, studentAnswers, onEndQuiz }) => {
-  const { currentQuestion } = useQuiz();
-  const [quizParticipants, setQuizParticipants] = useState<{name: string}[]>([]);
+  const {
+    currentQuestion,
+    liveCursor,
+    goToQuestion,
+    revealAnswers,
+    liveClock,
+    pauseQuiz,
+    resumeQuiz,
+    extendTime,
+    teamMembers,
+    participants,
+    roomBans
+  } = useLiveRoom();
+  const [updatingCursor, setUpdatingCursor] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [quizParticipants, setQuizParticipants] = useState<{ name: string; connected: boolean }[]>([]);
   const [answersForCurrentQuestion, setAnswersForCurrentQuestion] = useState<StudentAnswer[]>([]);
   const [correctCount, setCorrectCount] = useState(0);
   const [incorrectCount, setIncorrectCount] = useState(0);
@@ -29,19 +53,20 @@ const ActiveQuiz: React.FC<ActiveQuizProps> = ({ quiz, studentAnswers, onEndQuiz
     const quizAnswers = studentAnswers.filter(answer => answer.quizId === quiz.id);
     console.log("Filtered answers for current quiz:", quizAnswers);
     
-    // Get unique students by name only - this is the key fix
-    const uniqueStudentNames = new Set<string>();
-    
+    // Everyone who has been in the room, plus anyone who answered without
+    // showing up in it. Students are told apart by name; removed ones
+    // aren't counted even though their answers are kept.
+    const connectedByName = new Map(participants.map(participant => [participant.name, participant.connected]));
     quizAnswers.forEach(answer => {
-      uniqueStudentNames.add(answer.studentName);
+      if (!connectedByName.has(answer.studentName) && !isBanned(roomBans, answer.studentName)) {
+        connectedByName.set(answer.studentName, true);
+      }
     });
     
-    const participants = Array.from(uniqueStudentNames).map(name => ({
-      name
-    }));
+    const roomParticipants = Array.from(connectedByName, ([name, connected]) => ({ name, connected }));
     
-    console.log("Unique participants for this quiz:", participants);
-    setQuizParticipants(participants);
+    console.log("Unique participants for this quiz:", roomParticipants);
+    setQuizParticipants(roomParticipants);
     
     // Filter answers for current question
     if (quiz && quiz.questions[currentQuestion]) {
@@ -56,7 +81,68 @@ const ActiveQuiz: React.FC<ActiveQuizProps> = ({ quiz, studentAnswers, onEndQuiz
       setCorrectCount(filteredAnswers.filter(a => a.correct).length);
       setIncorrectCount(filteredAnswers.filter(a => !a.correct).length);
     }
-  }, [quiz, studentAnswers, currentQuestion]);
+  }, [quiz, studentAnswers, currentQuestion, participants, roomBans]);
+
+  const question = quiz.questions[currentQuestion];
+  const graded = isGraded(question);
+  const teacherPaced = quiz.paceMode === "teacher";
+  const isLastQuestion = currentQuestion === quiz.questions.length - 1;
+  const finished = !!liveCursor && liveCursor.questionIndex >= quiz.questions.length;
+  const paused = !!liveClock?.pausedAt;
+
+  // Tick the class clock for the question everyone is on
+  useEffect(() => {
+    if (!teacherPaced || finished) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [teacherPaced, finished]);
+
+  const timeLeft = liveCursor && !finished
+    ? getTimeLeft(getQuestionTimeLimit(quiz, question), liveCursor.startedAt, liveClock, liveClock?.extraSeconds, now)
+    : null;
+
+  const getStatusMessage = () => {
+    if (paused) return "The quiz is paused. Students' timers are frozen until you resume.";
+    if (!teacherPaced) return "Students are answering at their own pace. Use the arrows to look through the questions.";
+    if (finished) return "You've finished the quiz. Students are seeing their results.";
+    return liveCursor?.revealed ? "The answer is revealed to students." : "Students are answering this question now.";
+  };
+
+  const moveCursor = async (update: () => Promise<void>) => {
+    setUpdatingCursor(true);
+    try {
+      await update();
+    } finally {
+      setUpdatingCursor(false);
+    }
+  };
+
+  // Polls and word clouds show the class's answers live instead of right/wrong
+  const liveResults = useMemo(
+    () => (graded ? null : getQuestionTypeDefinition(question.type).analyze(question, answersForCurrentQuestion)),
+    [graded, question, answersForCurrentQuestion]
+  );
+
+  // Competitive and team quizzes rank the class as answers come in. A
+  // teacher-paced class sees the standings between questions, once the
+  // answer is out.
+  const competitive = quiz.scoring === "speed";
+  const teamMode = !!quiz.teams?.length;
+  const showStandings = !teacherPaced || finished || !!liveCursor?.revealed;
+  const leaderboard = useMemo(
+    () => (competitive || teamMode ? buildLeaderboard(quiz, studentAnswers.filter(answer => answer.quizId === quiz.id)) : []),
+    [competitive, teamMode, quiz, studentAnswers]
+  );
+  const teamStandings = useMemo(() => {
+    if (!teamMode) return [];
+
+    const teamByStudent = new Map(teamMembers.map(member => [member.studentName, member.teamId]));
+    return buildTeamStandings(
+      quiz,
+      leaderboard.map(entry => ({ teamId: teamByStudent.get(entry.studentName), points: entry.points }))
+    );
+  }, [teamMode, quiz, teamMembers, leaderboard]);
 
   return (
     <div className="space-y-6">
@@ -69,6 +155,13 @@ const ActiveQuiz: React.FC<ActiveQuizProps> = ({ quiz, studentAnswers, onEndQuiz
         </div>
         
         <div className="flex items-center space-x-2">
+          <Button variant="outline" asChild>
+            <a href={`/present/${quiz.roomCode}`} target="_blank" rel="noopener noreferrer">
+              <Presentation className="h-4 w-4 mr-1" />
+              Present
+            </a>
+          </Button>
+
           <Card className="flex items-center p-2 bg-blue-50">
             <Users className="h-5 w-5 text-blue-500 mr-2" />
             <div>
@@ -100,14 +193,96 @@ const ActiveQuiz: React.FC<ActiveQuizProps> = ({ quiz, studentAnswers, onEndQuiz
         </div>
       </div>
 
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-md border p-3 bg-muted/30">
+        <div className="text-sm text-muted-foreground">
+          {getStatusMessage()}
+          {timeLeft !== null && (
+            <span className="ml-2 inline-flex items-center text-orange-500 font-medium">
+              <Clock className="h-4 w-4 mr-1" />
+              {timeLeft}s
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => moveCursor(paused ? resumeQuiz : pauseQuiz)}
+            disabled={updatingCursor || finished}
+          >
+            {paused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+            {paused ? "Resume" : "Pause"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => moveCursor(() => extendTime(30))}
+            disabled={updatingCursor || finished || liveCursor?.revealed}
+            title={teacherPaced ? "Add 30 seconds to this question" : "Add 30 seconds to the question each student is on"}
+          >
+            <TimerReset className="h-4 w-4 mr-1" />
+            +30s
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => moveCursor(() => goToQuestion(currentQuestion - 1))}
+            disabled={updatingCursor || currentQuestion === 0 || finished || (teacherPaced && paused)}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          {teacherPaced && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => moveCursor(revealAnswers)}
+              disabled={updatingCursor || finished || paused || liveCursor?.revealed}
+            >
+              <Eye className="h-4 w-4 mr-1" />
+              Reveal Answer
+            </Button>
+          )}
+          {teacherPaced && isLastQuestion ? (
+            <Button
+              size="sm"
+              onClick={() => moveCursor(() => goToQuestion(quiz.questions.length))}
+              disabled={updatingCursor || finished || paused}
+            >
+              <Flag className="h-4 w-4 mr-1" />
+              Finish Quiz
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={() => moveCursor(() => goToQuestion(currentQuestion + 1))}
+              disabled={updatingCursor || isLastQuestion || (teacherPaced && paused)}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          )}
+        </div>
+      </div>
+
       <div className="bg-white rounded-md border p-6">
         <h3 className="text-xl font-bold mb-4">
           {quiz.questions[currentQuestion].text}
         </h3>
         
+        {graded && !usesOptions(quiz.questions[currentQuestion]) && (
+          <div className="p-4 rounded-md border-2 border-green-400 bg-green-50 mb-6 flex justify-between items-center">
+            <span className="font-medium">
+              Answer: {getAnswerKeyLabel(quiz.questions[currentQuestion])}
+            </span>
+            <CheckCircle className="h-5 w-5 text-green-500" />
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
           {quiz.questions[currentQuestion].options.map((option, index) => {
-            const isCorrect = quiz.questions[currentQuestion].correctOption === index;
+            const isCorrect = isCorrectOption(quiz.questions[currentQuestion], index);
+            const votes = liveResults?.optionDistribution[index];
             
             return (
               <div 
@@ -123,11 +298,23 @@ const ActiveQuiz: React.FC<ActiveQuizProps> = ({ quiz, studentAnswers, onEndQuiz
                     {option}
                   </span>
                   {isCorrect && <CheckCircle className="h-5 w-5 text-green-500" />}
+                  {votes && (
+                    <span className="text-sm font-medium text-muted-foreground">
+                      {votes.count} ({votes.percentage}%)
+                    </span>
+                  )}
                 </div>
+                {votes && <Progress value={votes.percentage} className="h-1.5 mt-2" />}
               </div>
             );
           })}
         </div>
+
+        {liveResults?.wordFrequencies && (
+          <div className="rounded-md border bg-gray-50 mb-6">
+            <WordCloud words={liveResults.wordFrequencies} emptyMessage="Waiting for answers..." />
+          </div>
+        )}
         
         <div className="space-y-4">
           <div>
@@ -146,48 +333,78 @@ const ActiveQuiz: React.FC<ActiveQuizProps> = ({ quiz, studentAnswers, onEndQuiz
               : 0} />
           </div>
           
-          <div className="flex flex-col sm:flex-row gap-4">
-            <Card className="flex-1">
-              <CardHeader className="pb-2">
-                <CardTitle className="flex items-center text-green-600">
-                  <CheckCircle className="h-5 w-5 mr-2" />
-                  Correct
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold">
-                  {correctCount}
-                  <span className="text-lg text-muted-foreground ml-1">
-                    ({answersForCurrentQuestion.length > 0 
-                      ? Math.round((correctCount / answersForCurrentQuestion.length) * 100) 
-                      : 0}%)
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
+          {graded && (
+            <div className="flex flex-col sm:flex-row gap-4">
+              <Card className="flex-1">
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center text-green-600">
+                    <CheckCircle className="h-5 w-5 mr-2" />
+                    Correct
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">
+                    {correctCount}
+                    <span className="text-lg text-muted-foreground ml-1">
+                      ({answersForCurrentQuestion.length > 0 
+                        ? Math.round((correctCount / answersForCurrentQuestion.length) * 100) 
+                        : 0}%)
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
             
-            <Card className="flex-1">
-              <CardHeader className="pb-2">
-                <CardTitle className="flex items-center text-red-600">
-                  <XCircle className="h-5 w-5 mr-2" />
-                  Incorrect
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold">
-                  {incorrectCount}
-                  <span className="text-lg text-muted-foreground ml-1">
-                    ({answersForCurrentQuestion.length > 0 
-                      ? Math.round((incorrectCount / answersForCurrentQuestion.length) * 100) 
-                      : 0}%)
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+              <Card className="flex-1">
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center text-red-600">
+                    <XCircle className="h-5 w-5 mr-2" />
+                    Incorrect
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">
+                    {incorrectCount}
+                    <span className="text-lg text-muted-foreground ml-1">
+                      ({answersForCurrentQuestion.length > 0 
+                        ? Math.round((incorrectCount / answersForCurrentQuestion.length) * 100) 
+                        : 0}%)
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
         </div>
       </div>
 
+      {teamMode && showStandings && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-lg">
+              <Users className="h-5 w-5 mr-2 text-blue-500" />
+              Team Standings
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TeamStandings standings={teamStandings} teamScoring={quiz.teamScoring} />
+          </CardContent>
+        </Card>
+      )}
+
+      {competitive && showStandings && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-lg">
+              <Trophy className="h-5 w-5 mr-2 text-amber-500" />
+              Leaderboard
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Leaderboard entries={leaderboard} emptyMessage="No answers yet." />
+          </CardContent>
+        </Card>
+      )}
+
       <div className="mt-6">
         <h3 className="font-medium text-lg mb-2">
           Quiz Participants ({quizParticipants.length})
@@ -197,14 +414,16 @@ const ActiveQuiz: React.FC<ActiveQuizProps> = ({ quiz, studentAnswers, onEndQuiz
             {quizParticipants.map((participant) => {
               const hasAnsweredCurrentQuestion = answersForCurrentQuestion.some(a => a.studentName === participant.name);
               return (
-                <Card key={participant.name} className={`p-2 flex items-center space-x-2 ${hasAnsweredCurrentQuestion ? 'bg-green-50 border-green-200' : ''}`}>
+                <Card key={participant.name} className={`p-2 flex items-center space-x-2 ${hasAnsweredCurrentQuestion ? 'bg-green-50 border-green-200' : ''} ${participant.connected ? '' : 'opacity-60'}`}>
                   <div className={`p-2 rounded-full ${hasAnsweredCurrentQuestion ? 'bg-green-100 text-green-500' : 'bg-blue-100 text-blue-500'}`}>
-                    <User className="h-4 w-4" />
+                    {participant.connected ? <User className="h-4 w-4" /> : <WifiOff className="h-4 w-4" />}
                   </div>
                   <div className="text-sm font-medium">
                     {participant.name}
                     {hasAnsweredCurrentQuestion && <span className="ml-1 text-green-600 text-xs">✓</span>}
+                    {!participant.connected && <span className="ml-1 text-xs text-muted-foreground">(disconnected)</span>}
                   </div>
+                  <ParticipantMenu name={participant.name} />
                 </Card>
               );
             })}
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { LatePolicy, Quiz } from "@/types/quiz";
+import { useQuiz } from "@/contexts/quiz";
+import { toDateTimeInput } from "@/utils/quizSchedule";
+
+interface AssignHomeworkDialogProps {
+  quiz: Quiz | null;
+  onClose: () => void;
+}
+
+const AssignHomeworkDialog: React.FC<AssignHomeworkDialogProps> = ({ quiz, onClose }) => {
+  const { assignHomework } = useQuiz();
+  const [availableFrom, setAvailableFrom] = useState("");
+  const [dueAt, setDueAt] = useState("");
+  const [latePolicy, setLatePolicy] = useState<LatePolicy>("reject");
+  const [latePenaltyPercent, setLatePenaltyPercent] = useState(10);
+  const [saving, setSaving] = useState(false);
+
+  // Open now and due in a week, unless the teacher says otherwise
+  useEffect(() => {
+    if (!quiz) return;
+
+    const now = Date.now();
+    setAvailableFrom(toDateTimeInput(now));
+    setDueAt(toDateTimeInput(now + 7 * 24 * 60 * 60 * 1000));
+    setLatePolicy("reject");
+    setLatePenaltyPercent(10);
+  }, [quiz]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quiz) return;
+
+    setSaving(true);
+    try {
+      const assigned = await assignHomework(quiz.id, {
+        availableFrom: new Date(availableFrom).getTime(),
+        dueAt: new Date(dueAt).getTime(),
+        latePolicy,
+        latePenaltyPercent
+      });
+      if (assigned) {
+        onClose();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Assign {quiz?.title} as homework</DialogTitle>
+            <DialogDescription>
+              Students open a link of its own and take the quiz at their own pace, any time before it's due. You'll find the link and who has finished under Homework.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="homework-available-from">Opens</Label>
+            <Input
+              id="homework-available-from"
+              type="datetime-local"
+              value={availableFrom}
+              onChange={(e) => setAvailableFrom(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="homework-due">Due</Label>
+            <Input
+              id="homework-due"
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Late work</Label>
+            <Select value={latePolicy} onValueChange={(value) => setLatePolicy(value as LatePolicy)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reject">Not accepted</SelectItem>
+                <SelectItem value="accept">Accepted, marked late</SelectItem>
+                <SelectItem value="penalty">Accepted with a penalty</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {latePolicy === "penalty" && (
+            <div className="space-y-2">
+              <Label htmlFor="homework-penalty">Percent taken off late work</Label>
+              <Input
+                id="homework-penalty"
+                type="number"
+                min={1}
+                max={100}
+                value={latePenaltyPercent}
+                onChange={(e) => setLatePenaltyPercent(Number(e.target.value))}
+              />
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" className="quiz-gradient" disabled={saving}>
+              {saving ? "Assigning..." : "Assign Homework"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssignHomeworkDialog;
@@ -5,9 +5,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { QuizQuestion, Quiz } from "@/types/quiz";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { QuizQuestion, QuestionType, FeedbackMode, QuestionPool, PaceMode, QuizScoring, QuizTeam, TeamScoring, TeamAssignment } from "@/types/quiz";
+import { isCorrectOption, usesOptions, getAnswerKeyLabel, describeScoring, isGraded } from "@/utils/questionGrading";
+import { getQuestionTypeDefinition, getQuestionTypes, validateQuestion } from "@/questionTypes";
+import { getPoolError, getQuestionsPerStudent } from "@/utils/quizArrangement";
+import { SCORING_STRATEGIES } from "@/utils/scoringStrategies";
+import { getTeamError } from "@/utils/teamStandings";
 import { useQuiz } from "@/contexts/quiz";
-import { PlusCircle, Trash2, Edit, Save, X } from "lucide-react";
+import { PlusCircle, Trash2, Edit, Save, X, Layers, Users } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
@@ -17,78 +24,89 @@ interface CreateQuizModalProps {
   onClose: () => void;
 }
 
+const createEmptyQuestion = (): QuizQuestion => ({
+  id: "",
+  text: "",
+  options: ["", "", "", ""],
+  correctOption: 0,
+  points: 1,
+  penalty: 0,
+  type: "multiple_choice"
+});
+
+// Blank number inputs fall back to the quiz or question defaults
+const parseOptionalNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
 const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) => {
   const { createQuiz, loading } = useQuiz();
   const { user } = useAuth();
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [timePerQuestion, setTimePerQuestion] = useState(30);
+  const [feedbackMode, setFeedbackMode] = useState<FeedbackMode>("end");
+  const [paceMode, setPaceMode] = useState<PaceMode>("self");
+  const [scoring, setScoring] = useState<QuizScoring>("standard");
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
-  const [currentQuestionText, setCurrentQuestionText] = useState("");
-  const [currentOptions, setCurrentOptions] = useState<string[]>(["", "", "", ""]);
-  const [correctOption, setCorrectOption] = useState(0);
+  const [pools, setPools] = useState<QuestionPool[]>([]);
+  const [teams, setTeams] = useState<QuizTeam[]>([]);
+  const [teamScoring, setTeamScoring] = useState<TeamScoring>("average");
+  const [teamAssignment, setTeamAssignment] = useState<TeamAssignment>("choose");
+  const [draft, setDraft] = useState<QuizQuestion>(createEmptyQuestion);
   const [editingQuestionIndex, setEditingQuestionIndex] = useState<number | null>(null);
 
   const resetForm = () => {
     setTitle("");
     setDescription("");
     setTimePerQuestion(30);
+    setFeedbackMode("end");
+    setPaceMode("self");
+    setScoring("standard");
+    setShuffleQuestions(false);
+    setShuffleOptions(false);
     setQuestions([]);
+    setPools([]);
+    setTeams([]);
+    setTeamScoring("average");
+    setTeamAssignment("choose");
     resetQuestionForm();
   };
 
   const resetQuestionForm = () => {
-    setCurrentQuestionText("");
-    setCurrentOptions(["", "", "", ""]);
-    setCorrectOption(0);
+    setDraft(createEmptyQuestion());
     setEditingQuestionIndex(null);
   };
 
   const handleAddQuestion = () => {
-    console.log("Adding/updating question:", { currentQuestionText, currentOptions, correctOption });
+    console.log("Adding/updating question:", draft);
     
     // Enhanced validation
-    if (!currentQuestionText.trim()) {
+    if (!draft.text.trim()) {
       toast.error("Please enter a question");
       return;
     }
 
-    if (currentQuestionText.trim().length < 5) {
+    if (draft.text.trim().length < 5) {
       toast.error("Question must be at least 5 characters long");
       return;
     }
 
-    if (currentOptions.some(option => !option.trim())) {
-      toast.error("Please fill in all options");
-      return;
-    }
-
-    if (currentOptions.some(option => option.trim().length < 1)) {
-      toast.error("Each option must have content");
-      return;
-    }
+    const questionId = editingQuestionIndex !== null ? 
+      questions[editingQuestionIndex].id : 
+      `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    // Check for duplicate options
-    const trimmedOptions = currentOptions.map(opt => opt.trim().toLowerCase());
-    if (new Set(trimmedOptions).size !== trimmedOptions.length) {
-      toast.error("All options must be unique");
+    // The question type's schema checks the answer key and tidies the question up
+    const { question, error } = validateQuestion({ ...draft, id: questionId });
+    if (error) {
+      toast.error(error);
       return;
     }
 
-    if (correctOption < 0 || correctOption >= currentOptions.length) {
-      toast.error("Please select a valid correct option");
-      return;
-    }
+    saveQuestion(question);
+  };
 
-    const newQuestion: QuizQuestion = {
-      id: editingQuestionIndex !== null ? 
-        questions[editingQuestionIndex].id : 
-        `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      text: currentQuestionText.trim(),
-      options: currentOptions.map(opt => opt.trim()),
-      correctOption
-    };
-    
+  const saveQuestion = (newQuestion: QuizQuestion) => {
     console.log("Created question:", newQuestion);
 
     if (editingQuestionIndex !== null) {
@@ -102,13 +120,18 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
     }
 
     resetQuestionForm();
+    // Pool questions tend to be written in batches, so stay in the same pool
+    setDraft(prev => ({ ...prev, poolId: newQuestion.poolId }));
   };
 
   const handleEditQuestion = (index: number) => {
     const question = questions[index];
-    setCurrentQuestionText(question.text);
-    setCurrentOptions([...question.options]);
-    setCorrectOption(question.correctOption);
+    // Keep some blank options around in case the teacher switches to an option-based type
+    setDraft({
+      ...question,
+      options: question.options.length > 0 ? [...question.options] : ["", "", "", ""],
+      correctOption: Math.max(0, question.correctOption)
+    });
     setEditingQuestionIndex(index);
   };
 
@@ -117,10 +140,40 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
     setQuestions(updatedQuestions);
   };
 
-  const handleOptionChange = (index: number, value: string) => {
-    const updatedOptions = [...currentOptions];
-    updatedOptions[index] = value;
-    setCurrentOptions(updatedOptions);
+  const handleAddPool = () => {
+    setPools([...pools, { id: `pool_${Date.now()}`, name: `Pool ${pools.length + 1}`, drawCount: 1 }]);
+  };
+
+  const handleUpdatePool = (poolId: string, update: Partial<QuestionPool>) => {
+    setPools(pools.map(pool => (pool.id === poolId ? { ...pool, ...update } : pool)));
+  };
+
+  // Questions in a deleted pool go back to being asked to everyone
+  const handleDeletePool = (poolId: string) => {
+    setPools(pools.filter(pool => pool.id !== poolId));
+    setQuestions(questions.map(question => (question.poolId === poolId ? { ...question, poolId: undefined } : question)));
+    if (draft.poolId === poolId) {
+      setDraft({ ...draft, poolId: undefined });
+    }
+  };
+
+  // Turning team mode on starts the class off with two teams
+  const handleToggleTeams = (enabled: boolean) => {
+    setTeams(enabled
+      ? [{ id: `team_${Date.now()}`, name: "Team 1" }, { id: `team_${Date.now() + 1}`, name: "Team 2" }]
+      : []);
+  };
+
+  const handleAddTeam = () => {
+    setTeams([...teams, { id: `team_${Date.now()}`, name: `Team ${teams.length + 1}` }]);
+  };
+
+  const handleUpdateTeam = (teamId: string, name: string) => {
+    setTeams(teams.map(team => (team.id === teamId ? { ...team, name } : team)));
+  };
+
+  const handleDeleteTeam = (teamId: string) => {
+    setTeams(teams.filter(team => team.id !== teamId));
   };
 
   const handleSubmit = async () => {
@@ -169,18 +222,44 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
         toast.error(`Question ${i + 1} is missing text`);
         return;
       }
-      if (question.options.some(opt => !opt.trim())) {
+      if (usesOptions(question) && question.options.some(opt => !opt.trim())) {
         toast.error(`Question ${i + 1} has empty options`);
         return;
       }
     }
 
+    const poolError = getPoolError(pools, questions);
+    if (poolError) {
+      toast.error(poolError);
+      return;
+    }
+
+    if (paceMode === "teacher" && pools.length > 0) {
+      toast.error("Teacher-paced quizzes can't use question pools");
+      return;
+    }
+
+    const teamError = getTeamError(teams);
+    if (teamError) {
+      toast.error(teamError);
+      return;
+    }
+
     try {
       await createQuiz({
         title: title.trim(),
         description: description.trim(),
         questions,
-        timePerQuestion
+        pools,
+        timePerQuestion,
+        feedbackMode,
+        paceMode,
+        scoring,
+        teams,
+        teamScoring,
+        teamAssignment,
+        shuffleQuestions,
+        shuffleOptions
       });
 
       resetForm();
@@ -192,6 +271,9 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
     }
   };
 
+  const draftDefinition = getQuestionTypeDefinition(draft.type);
+  const QuestionEditor = draftDefinition.Editor;
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -214,7 +296,7 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
               />
             </div>
             <div>
-              <Label htmlFor="time">Time per Question (seconds)</Label>
+              <Label htmlFor="time">Default Time per Question (seconds)</Label>
               <Input
                 id="time"
                 type="number"
@@ -237,6 +319,202 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
             />
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Pacing</Label>
+              <Select
+                value={paceMode}
+                onValueChange={(value) => {
+                  setPaceMode(value as PaceMode);
+                  // The class moves through the questions together, in order
+                  if (value === "teacher") setShuffleQuestions(false);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="self">Students go at their own pace</SelectItem>
+                  <SelectItem value="teacher">I move the class through each question</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Show Explanations</Label>
+              <Select value={feedbackMode} onValueChange={(value) => setFeedbackMode(value as FeedbackMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="end">When the quiz is finished</SelectItem>
+                  <SelectItem value="immediate">Right after each answer</SelectItem>
+                </SelectContent>
+              </Select>
+              {paceMode === "teacher" && (
+                <p className="text-xs text-muted-foreground mt-1">Students see each explanation when you reveal the answer</p>
+              )}
+            </div>
+            <div>
+              <Label>Scoring</Label>
+              <Select value={scoring} onValueChange={(value) => setScoring(value as QuizScoring)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SCORING_STRATEGIES).map(([value, strategy]) => (
+                    <SelectItem key={value} value={value}>{strategy.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {scoring === "speed" && (
+                <p className="text-xs text-muted-foreground mt-1">Students see a leaderboard, and you see it between questions</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="shuffleQuestions"
+                checked={shuffleQuestions}
+                onCheckedChange={setShuffleQuestions}
+                disabled={paceMode === "teacher"}
+              />
+              <Label htmlFor="shuffleQuestions">Shuffle questions per student</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="shuffleOptions" checked={shuffleOptions} onCheckedChange={setShuffleOptions} />
+              <Label htmlFor="shuffleOptions">Shuffle options per student</Label>
+            </div>
+          </div>
+
+          <div className="border p-4 rounded-md space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-medium">Teams</h3>
+                <p className="text-sm text-muted-foreground">
+                  Students join a team and compete for it. Team standings show during the quiz and in the results.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="teamMode" checked={teams.length > 0} onCheckedChange={handleToggleTeams} />
+                <Label htmlFor="teamMode">Play in teams</Label>
+              </div>
+            </div>
+            {teams.length > 0 && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label>Team Score</Label>
+                    <Select value={teamScoring} onValueChange={(value) => setTeamScoring(value as TeamScoring)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="average">Average of the members' points</SelectItem>
+                        <SelectItem value="sum">Total of the members' points</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Joining a Team</Label>
+                    <Select value={teamAssignment} onValueChange={(value) => setTeamAssignment(value as TeamAssignment)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="choose">Students pick their team</SelectItem>
+                        <SelectItem value="auto">Spread students evenly across teams</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {teams.map(team => (
+                  <div key={team.id} className="grid grid-cols-[1fr_auto] gap-2 items-end">
+                    <div>
+                      <Label htmlFor={`team-name-${team.id}`}>Team Name</Label>
+                      <Input
+                        id={`team-name-${team.id}`}
+                        value={team.name}
+                        onChange={(e) => handleUpdateTeam(team.id, e.target.value)}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => handleDeleteTeam(team.id)}
+                      disabled={teams.length <= 2}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={handleAddTeam}>
+                  <Users className="h-4 w-4 mr-1" />
+                  Add Team
+                </Button>
+              </>
+            )}
+          </div>
+
+          <div className="border p-4 rounded-md space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-medium">Question Pools</h3>
+                <p className="text-sm text-muted-foreground">
+                  Each student is asked a random few questions from each pool. Questions outside a pool are asked to everyone.
+                </p>
+                {paceMode === "teacher" && (
+                  <p className="text-sm text-muted-foreground">
+                    Teacher-paced quizzes ask everyone every question, so pools aren't available.
+                  </p>
+                )}
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={handleAddPool} disabled={paceMode === "teacher"}>
+                <Layers className="h-4 w-4 mr-1" />
+                Add Pool
+              </Button>
+            </div>
+            {pools.map(pool => {
+              const poolSize = questions.filter(question => question.poolId === pool.id).length;
+              return (
+                <div key={pool.id} className="grid grid-cols-[1fr_auto_auto] gap-2 items-end">
+                  <div>
+                    <Label htmlFor={`pool-name-${pool.id}`}>Name</Label>
+                    <Input
+                      id={`pool-name-${pool.id}`}
+                      value={pool.name}
+                      onChange={(e) => handleUpdatePool(pool.id, { name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`pool-draw-${pool.id}`}>Draw (of {poolSize})</Label>
+                    <Input
+                      id={`pool-draw-${pool.id}`}
+                      type="number"
+                      min={1}
+                      max={Math.max(1, poolSize)}
+                      className="w-28"
+                      value={pool.drawCount}
+                      onChange={(e) => handleUpdatePool(pool.id, { drawCount: Number(e.target.value) })}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="text-red-500 hover:text-red-700"
+                    onClick={() => handleDeletePool(pool.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
           <div className="border p-4 rounded-md">
             <h3 className="text-lg font-medium mb-2">
               {editingQuestionIndex !== null ? "Edit Question" : "Add New Question"}
@@ -247,36 +525,131 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
                 <Label htmlFor="questionText">Question</Label>
                 <Textarea
                   id="questionText"
-                  value={currentQuestionText}
-                  onChange={(e) => setCurrentQuestionText(e.target.value)}
+                  value={draft.text}
+                  onChange={(e) => setDraft({ ...draft, text: e.target.value })}
                   placeholder="Enter your question"
                   className="resize-none"
                 />
               </div>
               
-              <div className="space-y-3">
-                <Label>Options (select the correct one)</Label>
-                {currentOptions.map((option, index) => (
-                  <div key={index} className="flex gap-2">
-                    <div className="flex-1">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Question Type</Label>
+                  <Select
+                    value={draft.type || "multiple_choice"}
+                    onValueChange={(value) => setDraft({ ...draft, type: value as QuestionType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getQuestionTypes().map(definition => (
+                        <SelectItem key={definition.type} value={definition.type}>
+                          {definition.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {pools.length > 0 && (
+                  <div>
+                    <Label>Pool</Label>
+                    <Select
+                      value={draft.poolId || "none"}
+                      onValueChange={(value) => setDraft({ ...draft, poolId: value === "none" ? undefined : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No pool (asked to everyone)</SelectItem>
+                        {pools.map(pool => (
+                          <SelectItem key={pool.id} value={pool.id}>
+                            {pool.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <QuestionEditor question={draft} onChange={setDraft} />
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="questionTimeLimit">Time Limit (seconds)</Label>
+                  <Input
+                    id="questionTimeLimit"
+                    type="number"
+                    min={5}
+                    max={600}
+                    value={draft.timeLimit ?? ""}
+                    onChange={(e) => setDraft({ ...draft, timeLimit: parseOptionalNumber(e.target.value) })}
+                    placeholder={`Quiz default (${timePerQuestion}s)`}
+                  />
+                </div>
+                {draftDefinition.graded && (
+                  <>
+                    <div>
+                      <Label htmlFor="questionPoints">Points</Label>
                       <Input
-                        value={option}
-                        onChange={(e) => handleOptionChange(index, e.target.value)}
-                        placeholder={`Option ${index + 1}`}
+                        id="questionPoints"
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={draft.points ?? ""}
+                        onChange={(e) => setDraft({ ...draft, points: parseOptionalNumber(e.target.value) })}
+                        placeholder="1"
                       />
+                      <p className="text-xs text-muted-foreground mt-1">Use 0 for an unscored warm-up question</p>
                     </div>
-                    <Button
-                      type="button"
-                      variant={correctOption === index ? "default" : "outline"}
-                      onClick={() => setCorrectOption(index)}
-                      className={correctOption === index ? "bg-green-500 hover:bg-green-600" : ""}
-                    >
-                      Correct
-                    </Button>
-                  </div>
-                ))}
+                    <div>
+                      <Label htmlFor="questionPenalty">Penalty for Wrong Answer</Label>
+                      <Input
+                        id="questionPenalty"
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={draft.penalty ?? ""}
+                        onChange={(e) => setDraft({ ...draft, penalty: parseOptionalNumber(e.target.value) })}
+                        placeholder="0"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">Unanswered questions are never penalised</p>
+                    </div>
+                  </>
+                )}
               </div>
-              
+
+              <div>
+                <Label htmlFor="explanation">Explanation (optional)</Label>
+                <Textarea
+                  id="explanation"
+                  value={draft.explanation || ""}
+                  onChange={(e) => setDraft({ ...draft, explanation: e.target.value })}
+                  placeholder="Explain the answer to students once they've answered"
+                  className="resize-none"
+                />
+              </div>
+
+              {draftDefinition.graded && usesOptions(draft) && (
+                <div className="space-y-2">
+                  <Label>Why Each Option Is Right or Wrong (optional)</Label>
+                  {draft.options.map((option, index) => (
+                    <Input
+                      key={index}
+                      value={draft.optionExplanations?.[index] || ""}
+                      onChange={(e) => {
+                        const optionExplanations = draft.options.map((_, i) => draft.optionExplanations?.[i] || "");
+                        optionExplanations[index] = e.target.value;
+                        setDraft({ ...draft, optionExplanations });
+                      }}
+                      placeholder={`${String.fromCharCode(65 + index)}. ${option || "Option " + (index + 1)}`}
+                    />
+                  ))}
+                </div>
+              )}
+
               <div className="flex justify-end space-x-2">
                 {editingQuestionIndex !== null && (
                   <Button 
@@ -311,13 +684,26 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
 
           {questions.length > 0 && (
             <div>
-              <h3 className="text-lg font-medium mb-2">Questions ({questions.length})</h3>
+              <h3 className="text-lg font-medium mb-2">
+                Questions ({questions.length})
+                {pools.length > 0 && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {getQuestionsPerStudent({ questions, pools })} asked per student
+                  </span>
+                )}
+              </h3>
               <div className="space-y-2">
                 {questions.map((question, index) => (
                   <Card key={index} className="overflow-hidden">
                     <CardContent className="p-4">
                       <div className="flex justify-between">
-                        <div className="font-medium">Q{index + 1}: {question.text}</div>
+                        <div>
+                          <div className="font-medium">Q{index + 1}: {question.text}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {describeScoring(question)} · {question.timeLimit || timePerQuestion}s
+                            {question.poolId && ` · ${pools.find(pool => pool.id === question.poolId)?.name}`}
+                          </div>
+                        </div>
                         <div className="flex space-x-1">
                           <Button 
                             size="sm" 
@@ -336,19 +722,46 @@ const CreateQuizModal: React.FC<CreateQuizModalProps> = ({ isOpen, onClose }) =>
                           </Button>
                         </div>
                       </div>
-                      <div className="mt-2 text-sm">
-                        <div className="font-medium">Options:</div>
-                        <ol className="list-decimal list-inside">
-                          {question.options.map((option, optIndex) => (
-                            <li 
-                              key={optIndex}
-                              className={optIndex === question.correctOption ? "text-green-600 font-medium" : ""}
-                            >
-                              {option} {optIndex === question.correctOption && "(Correct)"}
-                            </li>
-                          ))}
-                        </ol>
-                      </div>
+                      {question.explanation && (
+                        <div className="mt-2 text-sm text-muted-foreground">
+                          <span className="font-medium">Explanation: </span>
+                          {question.explanation}
+                        </div>
+                      )}
+                      {!isGraded(question) && !usesOptions(question) ? (
+                        <div className="mt-2 text-sm text-muted-foreground">
+                          {getQuestionTypeDefinition(question.type).describe?.(question)}
+                        </div>
+                      ) : !usesOptions(question) ? (
+                        <div className="mt-2 text-sm">
+                          <span className="font-medium">Answer: </span>
+                          <span className="text-green-600 font-medium">{getAnswerKeyLabel(question)}</span>
+                        </div>
+                      ) : (
+                        <div className="mt-2 text-sm">
+                          <div className="font-medium">
+                            Options:
+                            {getQuestionTypeDefinition(question.type).describe?.(question) && (
+                              <span className="ml-1 text-muted-foreground font-normal">
+                                ({getQuestionTypeDefinition(question.type).describe(question)})
+                              </span>
+                            )}
+                          </div>
+                          <ol className="list-decimal list-inside">
+                            {question.options.map((option, optIndex) => (
+                              <li 
+                                key={optIndex}
+                                className={isCorrectOption(question, optIndex) ? "text-green-600 font-medium" : ""}
+                              >
+                                {option} {isCorrectOption(question, optIndex) && "(Correct)"}
+                                {question.optionExplanations?.[optIndex] && (
+                                  <span className="text-muted-foreground font-normal"> — {question.optionExplanations[optIndex]}</span>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { BookOpen, Copy, ChevronDown, ChevronUp } from "lucide-react";
+import { toast } from "sonner";
+import { HomeworkAvailability, HomeworkSettings, Quiz, QuizSession } from "@/types/quiz";
+import { useQuiz } from "@/contexts/quiz";
+import { describeLatePolicy, getHomeworkAvailability, getHomeworkLink } from "@/utils/homework";
+import { formatScheduleTime } from "@/utils/quizSchedule";
+import HomeworkProgress from "./HomeworkProgress";
+
+interface HomeworkListProps {
+  quizzes: Quiz[];
+  sessions: QuizSession[];
+}
+
+const AVAILABILITY_LABELS: Record<HomeworkAvailability, string> = {
+  upcoming: "Not open yet",
+  open: "Open",
+  late: "Taking late work",
+  closed: "Closed"
+};
+
+// Homework the teacher has handed out, newest first, each with its link and
+// who has done it
+const HomeworkList: React.FC<HomeworkListProps> = ({ quizzes, sessions }) => {
+  const { closeHomework } = useQuiz();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const homework = useMemo(
+    () => sessions
+      .filter(session => session.mode === "homework" && session.homework && quizzes.some(quiz => quiz.id === session.quizId))
+      .sort((a, b) => b.openedAt - a.openedAt),
+    [sessions, quizzes]
+  );
+
+  const copyLink = async (roomCode: string) => {
+    try {
+      await navigator.clipboard.writeText(getHomeworkLink(roomCode));
+      toast.success("Link copied");
+    } catch (error) {
+      console.error("Error copying homework link:", error);
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  if (homework.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block p-4 rounded-full bg-muted mb-4">
+          <BookOpen className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h3 className="text-lg font-medium">No homework yet</h3>
+        <p className="text-muted-foreground">
+          Assign a quiz as homework from My Quizzes.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {homework.map(session => {
+        const settings = session.homework as HomeworkSettings;
+        const availability = getHomeworkAvailability(settings, session.endedAt);
+        const expanded = expandedId === session.id;
+
+        return (
+          <Card key={session.id} className="border-2 border-quiz-primary/10">
+            <CardHeader className="pb-2">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <CardTitle>{quizzes.find(quiz => quiz.id === session.quizId)?.title}</CardTitle>
+                  <CardDescription>
+                    Opens {formatScheduleTime(settings.availableFrom)}, due {formatScheduleTime(settings.dueAt)}
+                    {" · "}{describeLatePolicy(settings)}
+                  </CardDescription>
+                </div>
+                <Badge variant={availability === "open" ? "default" : "outline"}>
+                  {AVAILABILITY_LABELS[availability]}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono font-bold text-sm bg-quiz-primary/10 text-quiz-primary px-2 py-1 rounded-md">
+                  {session.roomCode}
+                </span>
+                {availability !== "closed" && (
+                  <Button variant="outline" size="sm" onClick={() => copyLink(session.roomCode)}>
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy Link
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setExpandedId(expanded ? null : session.id)}>
+                  {expanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                  Progress
+                </Button>
+                {availability !== "closed" && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-red-500 hover:text-red-700 sm:ml-auto">
+                        Close Homework
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Close this homework?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Students won't be able to start or hand in this homework any more, even if it isn't due yet.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => closeHomework(session.id)}
+                          className="bg-red-500 hover:bg-red-600"
+                        >
+                          Close Homework
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+
+              {expanded && <HomeworkProgress session={session} />}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HomeworkList;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HomeworkProgress as HomeworkProgressEntry, QuizSession } from "@/types/quiz";
+import { useQuiz } from "@/contexts/quiz";
+import { formatScheduleTime } from "@/utils/quizSchedule";
+
+interface HomeworkProgressProps {
+  session: QuizSession;
+}
+
+// Students keep working on homework while the teacher looks on
+const PROGRESS_REFRESH_MS = 30000;
+
+// Who has opened a homework link, and who has handed it in
+const HomeworkProgress: React.FC<HomeworkProgressProps> = ({ session }) => {
+  const { fetchHomeworkProgress } = useQuiz();
+  const [progress, setProgress] = useState<HomeworkProgressEntry[] | null>(null);
+  const sessionId = session.id;
+  const open = !session.endedAt;
+
+  useEffect(() => {
+    const loadProgress = () => fetchHomeworkProgress(sessionId).then(setProgress);
+    loadProgress();
+    if (!open) return;
+
+    const refresh = setInterval(loadProgress, PROGRESS_REFRESH_MS);
+    return () => clearInterval(refresh);
+  }, [sessionId, open, fetchHomeworkProgress]);
+
+  if (!progress) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  if (progress.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nobody has opened the link yet.</p>;
+  }
+
+  const finished = progress.filter(entry => entry.completedAt !== undefined).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {finished} of {progress.length} students who opened the link have handed it in
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Student</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Score</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {progress.map(entry => (
+            <TableRow key={entry.studentName}>
+              <TableCell className="font-medium">{entry.studentName}</TableCell>
+              <TableCell>
+                {entry.completedAt !== undefined ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={entry.submittedLate ? "destructive" : "default"}>
+                      {entry.submittedLate ? "Late" : "Completed"}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{formatScheduleTime(entry.completedAt)}</span>
+                  </div>
+                ) : (
+                  <Badge variant="outline">
+                    {entry.answered > 0 ? `In progress, ${entry.answered} answered` : "Not started"}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {entry.score !== undefined
+                  ? `${Math.round(entry.score * 100) / 100}${entry.maxScore !== undefined ? ` / ${entry.maxScore}` : ""}`
+                  : "—"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default HomeworkProgress;
@@ -0,0 +1,54 @@
+import React from "react";
+import { Trophy } from "lucide-react";
+import { LeaderboardEntry } from "@/types/quiz";
+
+interface LeaderboardProps {
+  entries: LeaderboardEntry[];
+  highlightName?: string; // The student looking at it
+  limit?: number;
+  emptyMessage?: string;
+}
+
+const PODIUM_COLORS = ["text-amber-500", "text-slate-400", "text-orange-700"];
+
+// Students ranked by points; tied students share a place
+const Leaderboard: React.FC<LeaderboardProps> = ({
+  entries,
+  highlightName,
+  limit = 10,
+  emptyMessage = "No one on the board yet."
+}) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">{emptyMessage}</p>;
+  }
+
+  const ranks = entries.map(entry => entries.findIndex(other => other.points === entry.points) + 1);
+  // The student always sees their own place, even outside the top of the board
+  const shown = entries
+    .map((entry, index) => ({ entry, rank: ranks[index] }))
+    .filter(({ entry }, index) => index < limit || entry.studentName === highlightName);
+
+  return (
+    <ol className="space-y-1">
+      {shown.map(({ entry, rank }) => (
+        <li
+          key={entry.studentName}
+          className={`flex items-center gap-3 rounded-md px-3 py-2 text-sm ${
+            entry.studentName === highlightName ? "bg-quiz-primary/10 font-semibold" : "bg-muted/40"
+          }`}
+        >
+          <span className="w-6 text-right font-medium text-muted-foreground">{rank}</span>
+          {rank <= PODIUM_COLORS.length ? (
+            <Trophy className={`h-4 w-4 ${PODIUM_COLORS[rank - 1]}`} />
+          ) : (
+            <span className="w-4" />
+          )}
+          <span className="flex-1 truncate">{entry.studentName}</span>
+          <span className="font-semibold tabular-nums">{Math.round(entry.points * 100) / 100}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Quiz } from "@/types/quiz";
+import { LiveRoomProvider } from "@/contexts/quiz";
+import LiveRoom from "@/components/LiveRoom";
+
+interface LiveConsoleProps {
+  quizzes: Quiz[]; // The teacher's rooms, lobby or running
+}
+
+// A tab per room the teacher has open. Rooms in the background stay
+// mounted, so each keeps following its own students while another is shown.
+const LiveConsole: React.FC<LiveConsoleProps> = ({ quizzes }) => {
+  const [selectedId, setSelectedId] = useState(quizzes[0]?.id ?? "");
+  const knownIdsRef = useRef(new Set(quizzes.map(quiz => quiz.id)));
+
+  // Switch to a room as it opens, and away from one once it closes
+  useEffect(() => {
+    const opened = quizzes.find(quiz => !knownIdsRef.current.has(quiz.id));
+    knownIdsRef.current = new Set(quizzes.map(quiz => quiz.id));
+
+    if (opened) {
+      setSelectedId(opened.id);
+    } else {
+      setSelectedId(current => (quizzes.some(quiz => quiz.id === current) ? current : quizzes[0]?.id ?? ""));
+    }
+  }, [quizzes]);
+
+  return (
+    <Tabs value={selectedId} onValueChange={setSelectedId} className="space-y-4">
+      <TabsList className="flex flex-wrap h-auto justify-start">
+        {quizzes.map(quiz => (
+          <TabsTrigger key={quiz.id} value={quiz.id} className="gap-2">
+            {quiz.title}
+            <span className="font-mono text-xs text-quiz-primary">{quiz.roomCode}</span>
+            <Badge variant={quiz.isActive ? "default" : "outline"} className="text-xs">
+              {quiz.isActive ? "Live" : "Lobby"}
+            </Badge>
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {quizzes.map(quiz => (
+        <TabsContent key={quiz.id} value={quiz.id} forceMount className="data-[state=inactive]:hidden">
+          <LiveRoomProvider quiz={quiz}>
+            <LiveRoom />
+          </LiveRoomProvider>
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+};
+
+export default LiveConsole;
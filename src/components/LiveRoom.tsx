@@ -0,0 +1,31 @@
+import React from "react";
+import { useLiveRoom, useQuiz } from "@/contexts/quiz";
+import ActiveQuiz from "@/components/ActiveQuiz";
+import QuizLobby from "@/components/QuizLobby";
+
+// One of the teacher's rooms: its lobby until the quiz starts, then the quiz
+const LiveRoom = () => {
+  const { quiz, participants, studentAnswers } = useLiveRoom();
+  const { launchQuiz, closeLobby, endQuiz } = useQuiz();
+
+  if (!quiz.isActive) {
+    return (
+      <QuizLobby
+        quiz={quiz}
+        participants={participants}
+        onStart={() => launchQuiz(quiz.id)}
+        onClose={() => closeLobby(quiz.id)}
+      />
+    );
+  }
+
+  return (
+    <ActiveQuiz
+      quiz={quiz}
+      studentAnswers={studentAnswers}
+      onEndQuiz={() => endQuiz(quiz.id)}
+    />
+  );
+};
+
+export default LiveRoom;
@@ -0,0 +1,104 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { MoreVertical, Pencil, UserX } from "lucide-react";
+import { useLiveRoom } from "@/contexts/quiz";
+
+interface ParticipantMenuProps {
+  name: string;
+}
+
+// The teacher's actions on a student in the room: rename them, or remove
+// them and keep them from joining again
+const ParticipantMenu: React.FC<ParticipantMenuProps> = ({ name }) => {
+  const { removeParticipant, renameParticipant } = useLiveRoom();
+  const [renaming, setRenaming] = useState(false);
+  const [removing, setRemoving] = useState(false);
+  const [newName, setNewName] = useState(name);
+  const [saving, setSaving] = useState(false);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      if (await renameParticipant(name, newName)) {
+        setRenaming(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" aria-label={`Actions for ${name}`}>
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => { setNewName(name); setRenaming(true); }}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-red-500 focus:text-red-600" onSelect={() => setRemoving(true)}>
+            <UserX className="h-4 w-4 mr-2" />
+            Remove from quiz
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={renaming} onOpenChange={setRenaming}>
+        <DialogContent className="max-w-sm">
+          <form onSubmit={handleRename} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Rename {name}</DialogTitle>
+              <DialogDescription>
+                The student sees their new name straight away, and their answers so far move over to it.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="participant-name">New name</Label>
+              <Input id="participant-name" value={newName} onChange={(e) => setNewName(e.target.value)} autoFocus />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !newName.trim() || newName.trim() === name}>
+                {saving ? "Saving..." : "Rename"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={removing} onOpenChange={setRemoving}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They'll be sent back to the join page and can't rejoin this quiz under this name or from the same device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removeParticipant(name)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ParticipantMenu;
@@ -1,9 +1,12 @@
-import React from "react";
+import React, { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { QuestionAnalytics as QuestionAnalyticsType } from "@/types/analytics";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
 import { Badge } from "@/components/ui/badge";
-import { Brain, TrendingUp, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Brain, TrendingUp, Users, PlusCircle, Star } from "lucide-react";
+import { useQuiz } from "@/contexts/quiz";
+import WordCloud from "@/components/WordCloud";
 
 interface QuestionAnalyticsProps {
   analytics: QuestionAnalyticsType;
@@ -14,6 +17,21 @@ const QuestionAnalytics: React.FC<QuestionAnalyticsProps> = ({
   analytics, 
   questionNumber 
 }) => {
+  const { addAcceptedAnswer } = useQuiz();
+  const [acceptingAnswer, setAcceptingAnswer] = useState<string | null>(null);
+
+  const canAccept = (answer: string) =>
+    analytics.questionType === "short_text" && answer !== "Other" && answer !== "No answer";
+
+  const handleAcceptAnswer = async (answer: string) => {
+    setAcceptingAnswer(answer);
+    try {
+      await addAcceptedAnswer(analytics.questionId, answer);
+    } finally {
+      setAcceptingAnswer(null);
+    }
+  };
+
   const getDifficultyColor = (score: number) => {
     if (score >= 80) return "bg-green-500";
     if (score >= 60) return "bg-yellow-500";
@@ -49,12 +67,19 @@ const QuestionAnalytics: React.FC<QuestionAnalyticsProps> = ({
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg">Question {questionNumber}</CardTitle>
           <div className="flex gap-2">
-            <Badge 
-              variant="secondary" 
-              className={`${getDifficultyColor(analytics.difficultyScore)} text-white`}
-            >
-              {getDifficultyLabel(analytics.difficultyScore)}
-            </Badge>
+            {analytics.questionType === "multi_select" && (
+              <Badge variant="outline">Select all</Badge>
+            )}
+            {analytics.graded ? (
+              <Badge 
+                variant="secondary" 
+                className={`${getDifficultyColor(analytics.difficultyScore)} text-white`}
+              >
+                {getDifficultyLabel(analytics.difficultyScore)}
+              </Badge>
+            ) : (
+              <Badge variant="secondary">Not scored</Badge>
+            )}
             <Badge variant="outline">
               {analytics.totalResponses} responses
             </Badge>
@@ -68,25 +93,42 @@ const QuestionAnalytics: React.FC<QuestionAnalyticsProps> = ({
       <CardContent className="space-y-6">
         {/* Statistics Row */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div className="flex items-center space-x-2">
-            <Brain className="h-5 w-5 text-blue-500" />
-            <div>
-              <p className="text-sm font-medium">Difficulty</p>
-              <p className="text-lg font-bold">{analytics.difficultyScore}%</p>
-              <p className="text-xs text-muted-foreground">got it correct</p>
-            </div>
-          </div>
+          {analytics.graded && (
+            <>
+              <div className="flex items-center space-x-2">
+                <Brain className="h-5 w-5 text-blue-500" />
+                <div>
+                  <p className="text-sm font-medium">Difficulty</p>
+                  <p className="text-lg font-bold">{analytics.difficultyScore}%</p>
+                  <p className="text-xs text-muted-foreground">got it correct</p>
+                </div>
+              </div>
           
-          <div className="flex items-center space-x-2">
-            <TrendingUp className={`h-5 w-5 ${getDiscriminationColor(analytics.discriminationIndex)}`} />
-            <div>
-              <p className="text-sm font-medium">Discrimination</p>
-              <p className={`text-lg font-bold ${getDiscriminationColor(analytics.discriminationIndex)}`}>
-                {analytics.discriminationIndex}%
-              </p>
-              <p className="text-xs text-muted-foreground">separates performers</p>
+              <div className="flex items-center space-x-2">
+                <TrendingUp className={`h-5 w-5 ${getDiscriminationColor(analytics.discriminationIndex)}`} />
+                <div>
+                  <p className="text-sm font-medium">Discrimination</p>
+                  <p className={`text-lg font-bold ${getDiscriminationColor(analytics.discriminationIndex)}`}>
+                    {analytics.discriminationIndex}%
+                  </p>
+                  <p className="text-xs text-muted-foreground">separates performers</p>
+                </div>
+              </div>
+            </>
+          )}
+
+          {typeof analytics.averageRating === "number" && (
+            <div className="flex items-center space-x-2">
+              <Star className="h-5 w-5 text-amber-500" />
+              <div>
+                <p className="text-sm font-medium">Average Rating</p>
+                <p className="text-lg font-bold">
+                  {analytics.averageRating} / {analytics.optionDistribution.length}
+                </p>
+                <p className="text-xs text-muted-foreground">on the scale</p>
+              </div>
             </div>
-          </div>
+          )}
           
           <div className="flex items-center space-x-2">
             <Users className="h-5 w-5 text-green-500" />
@@ -98,92 +140,186 @@ const QuestionAnalytics: React.FC<QuestionAnalyticsProps> = ({
           </div>
         </div>
 
-        {/* Response Distribution Chart */}
-        <div>
-          <h4 className="text-sm font-medium mb-3">Response Distribution</h4>
-          <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-                <XAxis 
-                  dataKey="option" 
-                  tick={{ fontSize: 12 }}
-                />
-                <YAxis 
-                  tick={{ fontSize: 12 }}
-                  tickFormatter={(value) => `${value}%`}
-                />
-                <Tooltip 
-                  formatter={(value: number, name: string, props: any) => [
-                    `${value}% (${props.payload.count} students)`,
-                    "Response Rate"
-                  ]}
-                  labelFormatter={(label: string, payload: any) => {
-                    if (payload && payload[0]) {
-                      const data = payload[0].payload;
-                      return `Option ${label}: ${data.text}`;
-                    }
-                    return `Option ${label}`;
-                  }}
-                  contentStyle={{ 
-                    backgroundColor: "white", 
-                    borderRadius: "8px",
-                    border: "1px solid #e2e8f0"
-                  }}
-                />
-                <Bar dataKey="percentage" radius={[4, 4, 0, 0]}>
-                  {chartData.map((entry, index) => (
-                    <Cell 
-                      key={`cell-${index}`} 
-                      fill={entry.isCorrect ? "#22c55e" : "#6366f1"} 
-                    />
-                  ))}
-                </Bar>
-              </BarChart>
-            </ResponsiveContainer>
+        {analytics.wordFrequencies && (
+          <div>
+            <h4 className="text-sm font-medium mb-3">Word Cloud</h4>
+            <div className="rounded-lg border bg-gray-50">
+              <WordCloud words={analytics.wordFrequencies} />
+            </div>
           </div>
-        </div>
+        )}
 
-        {/* Option Breakdown */}
-        <div>
-          <h4 className="text-sm font-medium mb-3">Option Breakdown</h4>
-          <div className="space-y-2">
-            {analytics.optionDistribution.map((option, index) => (
-              <div 
-                key={index}
-                className={`p-3 rounded-lg border ${
-                  option.isCorrect 
-                    ? "bg-green-50 border-green-200" 
-                    : "bg-gray-50 border-gray-200"
-                }`}
-              >
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-2">
-                    <span className={`font-medium ${
-                      option.isCorrect ? "text-green-700" : "text-gray-700"
-                    }`}>
-                      {String.fromCharCode(65 + index)}.
-                    </span>
-                    <span className={`text-sm ${
-                      option.isCorrect ? "text-green-700" : "text-gray-700"
-                    }`}>
-                      {option.optionText}
-                    </span>
-                    {option.isCorrect && (
-                      <Badge variant="default" className="bg-green-100 text-green-800">
-                        Correct
-                      </Badge>
+        {/* Wrong Answer Buckets */}
+        {analytics.wrongAnswers && (
+          <div>
+            <h4 className="text-sm font-medium mb-1">Most Common Wrong Answers</h4>
+            <p className="text-xs text-muted-foreground mb-3">
+              Correct answer: <span className="font-medium text-green-700">{analytics.answerKeyLabel}</span>
+            </p>
+            {analytics.wrongAnswers.length > 0 ? (
+              <div className="space-y-2">
+                {analytics.wrongAnswers.map((wrong) => (
+                  <div key={wrong.answer} className="p-3 rounded-lg border bg-gray-50 border-gray-200">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-gray-700 break-all">{wrong.answer}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium whitespace-nowrap">
+                          {wrong.count} ({wrong.percentage}%)
+                        </span>
+                        {canAccept(wrong.answer) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleAcceptAnswer(wrong.answer)}
+                            disabled={acceptingAnswer !== null}
+                          >
+                            <PlusCircle className="h-4 w-4 mr-1" />
+                            {acceptingAnswer === wrong.answer ? "Accepting..." : "Accept"}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="mt-2 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                      <div className="h-full bg-indigo-500" style={{ width: `${wrong.percentage}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No wrong answers yet.</p>
+            )}
+          </div>
+        )}
+
+        {/* Per-position / per-pair breakdown */}
+        {analytics.itemBreakdown && (
+          <div>
+            <h4 className="text-sm font-medium mb-1">
+              {analytics.questionType === "ordering" ? "Most Missed Positions" : "Most Missed Pairs"}
+            </h4>
+            <p className="text-xs text-muted-foreground mb-3">
+              Correct answer: <span className="font-medium text-green-700">{analytics.answerKeyLabel}</span>
+            </p>
+            <div className="space-y-2">
+              {[...analytics.itemBreakdown]
+                .sort((a, b) => b.percentageWrong - a.percentageWrong)
+                .map((item) => (
+                  <div key={item.label} className="p-3 rounded-lg border bg-gray-50 border-gray-200">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-gray-700 break-all">{item.label}</span>
+                      <span className="text-sm font-medium whitespace-nowrap">
+                        {item.wrongCount} wrong ({item.percentageWrong}%)
+                      </span>
+                    </div>
+                    {item.commonMistake && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Most common mistake: {item.commonMistake}
+                      </p>
                     )}
+                    <div className="mt-2 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                      <div className="h-full bg-red-400" style={{ width: `${item.percentageWrong}%` }} />
+                    </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <span className="text-sm font-medium">
-                      {option.count} ({option.percentage}%)
-                    </span>
+                ))}
+            </div>
+          </div>
+        )}
+
+        {analytics.optionDistribution.length > 0 && (
+          <>
+            {/* Response Distribution Chart */}
+            <div>
+              <h4 className="text-sm font-medium mb-3">Response Distribution</h4>
+              {analytics.questionType === "multi_select" && (
+                <p className="text-xs text-muted-foreground mb-2">
+                  Students could pick several options, so rates can add up to more than 100%.
+                </p>
+              )}
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                    <XAxis 
+                      dataKey="option" 
+                      tick={{ fontSize: 12 }}
+                    />
+                    <YAxis 
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(value) => `${value}%`}
+                    />
+                    <Tooltip 
+                      formatter={(value: number, name: string, props: any) => [
+                        `${value}% (${props.payload.count} students)`,
+                        "Response Rate"
+                      ]}
+                      labelFormatter={(label: string, payload: any) => {
+                        if (payload && payload[0]) {
+                          const data = payload[0].payload;
+                          return `Option ${label}: ${data.text}`;
+                        }
+                        return `Option ${label}`;
+                      }}
+                      contentStyle={{ 
+                        backgroundColor: "white", 
+                        borderRadius: "8px",
+                        border: "1px solid #e2e8f0"
+                      }}
+                    />
+                    <Bar dataKey="percentage" radius={[4, 4, 0, 0]}>
+                      {chartData.map((entry, index) => (
+                        <Cell 
+                          key={`cell-${index}`} 
+                          fill={entry.isCorrect ? "#22c55e" : "#6366f1"} 
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Option Breakdown */}
+            <div>
+              <h4 className="text-sm font-medium mb-3">Option Breakdown</h4>
+              <div className="space-y-2">
+                {analytics.optionDistribution.map((option, index) => (
+                  <div 
+                    key={index}
+                    className={`p-3 rounded-lg border ${
+                      option.isCorrect 
+                        ? "bg-green-50 border-green-200" 
+                        : "bg-gray-50 border-gray-200"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <span className={`font-medium ${
+                          option.isCorrect ? "text-green-700" : "text-gray-700"
+                        }`}>
+                          {String.fromCharCode(65 + index)}.
+                        </span>
+                        <span className={`text-sm ${
+                          option.isCorrect ? "text-green-700" : "text-gray-700"
+                        }`}>
+                          {option.optionText}
+                        </span>
+                        {option.isCorrect && (
+                          <Badge variant="default" className="bg-green-100 text-green-800">
+                            Correct
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium">
+                          {option.count} ({option.percentage}%)
+                        </span>
+                      </div>
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
-            ))}
-          </div>
-        </div>
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -4,20 +4,25 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from "@/components/ui/button";
 import { Quiz } from "@/types/quiz";
 import { useQuiz } from "@/contexts/quiz";
-import { Play, Clock, FileQuestion, Trash2, Eye } from "lucide-react";
+import { Play, Clock, FileQuestion, Trash2, Eye, CalendarClock, BookOpen } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import QuizPreviewModal from "./QuizPreviewModal";
+import ScheduleQuizDialog from "./ScheduleQuizDialog";
+import AssignHomeworkDialog from "./AssignHomeworkDialog";
+import { getQuestionsPerStudent } from "@/utils/quizArrangement";
+import { formatScheduleTime, getScheduleStatus } from "@/utils/quizSchedule";
 
 interface QuizListProps {
   quizzes: Quiz[];
   onLaunch: (id: string) => void;
-  isLaunchDisabled: boolean;
 }
 
-const QuizList: React.FC<QuizListProps> = ({ quizzes, onLaunch, isLaunchDisabled }) => {
+const QuizList: React.FC<QuizListProps> = ({ quizzes, onLaunch }) => {
   const { deleteQuiz } = useQuiz();
   const [previewQuiz, setPreviewQuiz] = useState<Quiz | null>(null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [schedulingQuiz, setSchedulingQuiz] = useState<Quiz | null>(null);
+  const [homeworkQuiz, setHomeworkQuiz] = useState<Quiz | null>(null);
 
   const handlePreview = (quiz: Quiz) => {
     setPreviewQuiz(quiz);
@@ -29,6 +34,31 @@ const QuizList: React.FC<QuizListProps> = ({ quizzes, onLaunch, isLaunchDisabled
     setPreviewQuiz(null);
   };
 
+  // One line on when a scheduled quiz runs, has run or was meant to
+  const describeSchedule = (quiz: Quiz) => {
+    const schedule = quiz.schedule;
+    if (!schedule) return null;
+
+    const closes = schedule.durationMinutes
+      ? `closes ${schedule.durationMinutes} min after it starts`
+      : schedule.endAt
+        ? `closes ${formatScheduleTime(schedule.endAt)}`
+        : null;
+
+    switch (getScheduleStatus(quiz)) {
+      case "upcoming":
+        return `Opens ${formatScheduleTime(schedule.startAt as number)}${closes ? `, ${closes}` : ""}`;
+      case "closed":
+        return schedule.closedAt
+          ? `Ran ${formatScheduleTime(schedule.launchedAt as number)}, closed ${formatScheduleTime(schedule.closedAt)}`
+          : `Ran ${formatScheduleTime(schedule.launchedAt as number)}`;
+      case "missed":
+        return `Missed its start at ${formatScheduleTime(schedule.startAt as number)}`;
+      default:
+        return closes && closes.charAt(0).toUpperCase() + closes.slice(1);
+    }
+  };
+
   if (quizzes.length === 0) {
     return (
       <div className="text-center py-12">
@@ -50,14 +80,26 @@ const QuizList: React.FC<QuizListProps> = ({ quizzes, onLaunch, isLaunchDisabled
           <CardHeader className="pb-2">
             <CardTitle>{quiz.title}</CardTitle>
             <CardDescription>
-              {quiz.questions.length} questions
+              {quiz.pools?.length
+                ? `${getQuestionsPerStudent(quiz)} of ${quiz.questions.length} questions per student`
+                : `${quiz.questions.length} questions`}
             </CardDescription>
           </CardHeader>
-          <CardContent className="pb-2">
+          <CardContent className="pb-2 space-y-1">
             <div className="flex items-center text-sm text-muted-foreground">
               <Clock className="h-4 w-4 mr-1" />
               <span>{quiz.timePerQuestion} seconds per question</span>
             </div>
+            {quiz.schedule && (
+              <div
+                className={`flex items-center text-sm ${
+                  getScheduleStatus(quiz) === "upcoming" ? "text-quiz-primary" : "text-muted-foreground"
+                }`}
+              >
+                <CalendarClock className="h-4 w-4 mr-1" />
+                <span>{describeSchedule(quiz)}</span>
+              </div>
+            )}
           </CardContent>
           <CardFooter className="flex justify-between">
             <div className="flex gap-2">
@@ -95,14 +137,30 @@ const QuizList: React.FC<QuizListProps> = ({ quizzes, onLaunch, isLaunchDisabled
                 <Eye className="h-4 w-4 mr-1" />
                 Review
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSchedulingQuiz(quiz)}
+                aria-label={`Schedule ${quiz.title}`}
+              >
+                <CalendarClock className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setHomeworkQuiz(quiz)}
+                aria-label={`Assign ${quiz.title} as homework`}
+              >
+                <BookOpen className="h-4 w-4" />
+              </Button>
             </div>
             <Button 
               onClick={() => onLaunch(quiz.id)} 
-              disabled={isLaunchDisabled}
+              disabled={quiz.isActive || quiz.lobbyOpen}
               className="quiz-gradient"
             >
               <Play className="h-4 w-4 mr-1" />
-              Launch
+              {quiz.isActive || quiz.lobbyOpen ? "Room Open" : "Open Lobby"}
             </Button>
           </CardFooter>
         </Card>
@@ -112,6 +170,8 @@ const QuizList: React.FC<QuizListProps> = ({ quizzes, onLaunch, isLaunchDisabled
         onClose={handleClosePreview}
         quiz={previewQuiz}
       />
+      <ScheduleQuizDialog quiz={schedulingQuiz} onClose={() => setSchedulingQuiz(null)} />
+      <AssignHomeworkDialog quiz={homeworkQuiz} onClose={() => setHomeworkQuiz(null)} />
     </div>
   );
 };
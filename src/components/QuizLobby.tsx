@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Quiz, Participant } from "@/types/quiz";
+import ParticipantMenu from "@/components/ParticipantMenu";
+import { Play, Presentation, User, UserPlus, Users, WifiOff, X } from "lucide-react";
+
+interface QuizLobbyProps {
+  quiz: Quiz;
+  participants: Participant[];
+  onStart: () => Promise<void> | void;
+  onClose: () => Promise<void> | void;
+}
+
+// Students gather here before the teacher starts the quiz. Who is in the
+// room comes from Realtime presence, so it updates as students come and go.
+const QuizLobby: React.FC<QuizLobbyProps> = ({ quiz, participants, onStart, onClose }) => {
+  const [starting, setStarting] = useState(false);
+  const connected = participants.filter(participant => participant.connected);
+  const disconnected = participants.filter(participant => !participant.connected);
+  const joinUrl = `${window.location.origin}/join/${quiz.roomCode}`;
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      await onStart();
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">{quiz.title}</h2>
+          <p className="text-muted-foreground">
+            Lobby is open. Students can join with the room code or at {joinUrl}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/present/${quiz.roomCode}`} target="_blank" rel="noopener noreferrer">
+              <Presentation className="h-4 w-4 mr-1" />
+              Present
+            </a>
+          </Button>
+          <Button variant="outline" onClick={onClose} disabled={starting}>
+            <X className="h-4 w-4 mr-1" />
+            Close Lobby
+          </Button>
+          <Button className="quiz-gradient" onClick={handleStart} disabled={starting}>
+            <Play className="h-4 w-4 mr-1" />
+            {starting ? "Starting..." : "Start Quiz"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Room Code</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="font-mono text-3xl font-bold tracking-widest text-quiz-primary">{quiz.roomCode}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">In the Lobby</CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center">
+            <Users className="h-5 w-5 mr-2 text-green-500" />
+            <div className="text-3xl font-bold">{connected.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Disconnected</CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center">
+            <WifiOff className="h-5 w-5 mr-2 text-muted-foreground" />
+            <div className="text-3xl font-bold">{disconnected.length}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {participants.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+          {participants.map(participant => (
+            <Card
+              key={participant.name}
+              className={`p-2 flex items-center space-x-2 ${participant.connected ? "bg-green-50 border-green-200" : "opacity-60"}`}
+            >
+              <div className={`p-2 rounded-full ${participant.connected ? "bg-green-100 text-green-500" : "bg-gray-100 text-gray-400"}`}>
+                {participant.connected ? <User className="h-4 w-4" /> : <WifiOff className="h-4 w-4" />}
+              </div>
+              <div className="text-sm font-medium">
+                {participant.name}
+                {!participant.connected && <span className="ml-1 text-xs text-muted-foreground">(disconnected)</span>}
+              </div>
+              <ParticipantMenu name={participant.name} />
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card className="border-dashed border-2 bg-gray-50">
+          <CardContent className="flex flex-col items-center justify-center py-6">
+            <UserPlus className="h-10 w-10 text-muted-foreground mb-2" />
+            <CardTitle className="text-lg font-medium">Waiting for students to join</CardTitle>
+            <CardDescription className="text-center max-w-md">
+              Share your room code with students. They'll appear here as they join.
+            </CardDescription>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default QuizLobby;
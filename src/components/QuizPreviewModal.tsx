@@ -4,7 +4,11 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Quiz } from "@/types/quiz";
-import { Clock, FileQuestion, CheckCircle } from "lucide-react";
+import { isCorrectOption, usesOptions, getAnswerKeyLabel, describeScoring, getMaxScore, isGraded } from "@/utils/questionGrading";
+import { getQuestionTimeLimit } from "@/utils/quizTiming";
+import { getQuestionsPerStudent } from "@/utils/quizArrangement";
+import { getQuestionTypeDefinition } from "@/questionTypes";
+import { Clock, FileQuestion, CheckCircle, Lightbulb, Shuffle, Users, Zap } from "lucide-react";
 
 interface QuizPreviewModalProps {
   isOpen: boolean;
@@ -28,11 +32,46 @@ const QuizPreviewModal: React.FC<QuizPreviewModalProps> = ({
             {quiz.title}
           </DialogTitle>
           <DialogDescription className="flex items-center gap-4 text-sm">
-            <span>{quiz.questions.length} questions</span>
+            {quiz.pools?.length ? (
+              <span>{getQuestionsPerStudent(quiz)} of {quiz.questions.length} questions per student</span>
+            ) : (
+              <>
+                <span>{quiz.questions.length} questions</span>
+                <span>{getMaxScore(quiz.questions)} points</span>
+              </>
+            )}
             <span className="flex items-center gap-1">
               <Clock className="h-4 w-4" />
-              {quiz.timePerQuestion}s per question
+              {quiz.timePerQuestion}s per question by default
             </span>
+            <span>
+              {quiz.paceMode === "teacher" ? "Teacher-paced" : "Self-paced"}
+            </span>
+            {!!quiz.teams?.length && (
+              <span className="flex items-center gap-1">
+                <Users className="h-4 w-4" />
+                {quiz.teams.length} teams, {quiz.teamScoring === "sum" ? "total" : "average"} points
+              </span>
+            )}
+            {quiz.scoring === "speed" && (
+              <span className="flex items-center gap-1">
+                <Zap className="h-4 w-4" />
+                Speed scoring with a leaderboard
+              </span>
+            )}
+            <span>
+              {quiz.paceMode === "teacher"
+                ? "Explanations when you reveal the answer"
+                : `Explanations ${quiz.feedbackMode === "immediate" ? "after each answer" : "at the end"}`}
+            </span>
+            {(quiz.shuffleQuestions || quiz.shuffleOptions) && (
+              <span className="flex items-center gap-1">
+                <Shuffle className="h-4 w-4" />
+                {quiz.shuffleQuestions && quiz.shuffleOptions
+                  ? "Questions and options shuffled"
+                  : quiz.shuffleQuestions ? "Questions shuffled" : "Options shuffled"}
+              </span>
+            )}
           </DialogDescription>
         </DialogHeader>
 
@@ -51,35 +90,71 @@ const QuizPreviewModal: React.FC<QuizPreviewModalProps> = ({
                     <Badge variant="outline" className="shrink-0">
                       Q{index + 1}
                     </Badge>
-                    <span className="leading-relaxed">{question.text}</span>
+                    <span className="leading-relaxed flex-1">{question.text}</span>
+                    {question.poolId && (
+                      <Badge variant="outline" className="shrink-0 font-normal">
+                        {quiz.pools?.find(pool => pool.id === question.poolId)?.name || "Pool"}
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" className="shrink-0 font-normal">
+                      {describeScoring(question)}
+                    </Badge>
+                    <Badge variant="secondary" className="shrink-0 font-normal flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {getQuestionTimeLimit(quiz, question)}s
+                    </Badge>
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="pt-0">
+                  {getQuestionTypeDefinition(question.type).describe?.(question) && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      {getQuestionTypeDefinition(question.type).describe(question)}
+                    </p>
+                  )}
+                  {isGraded(question) && !usesOptions(question) && (
+                    <div className="p-3 rounded-lg border bg-green-50 border-green-200 text-green-800 dark:bg-green-950 dark:border-green-800 dark:text-green-200">
+                      <div className="flex items-center gap-2">
+                        <span className="flex-1">Answer: {getAnswerKeyLabel(question)}</span>
+                        <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+                      </div>
+                    </div>
+                  )}
                   <div className="grid gap-2">
-                    {question.options.map((option, optionIndex) => (
+                    {usesOptions(question) && question.options.map((option, optionIndex) => (
                       <div
                         key={optionIndex}
                         className={`p-3 rounded-lg border transition-colors ${
-                          optionIndex === question.correctOption
+                          isCorrectOption(question, optionIndex)
                             ? "bg-green-50 border-green-200 text-green-800 dark:bg-green-950 dark:border-green-800 dark:text-green-200"
                             : "bg-muted/30 border-muted-foreground/20"
                         }`}
                       >
                         <div className="flex items-center gap-2">
                           <Badge
-                            variant={optionIndex === question.correctOption ? "default" : "secondary"}
+                            variant={isCorrectOption(question, optionIndex) ? "default" : "secondary"}
                             className="shrink-0 min-w-[24px] h-6 flex items-center justify-center text-xs"
                           >
                             {String.fromCharCode(65 + optionIndex)}
                           </Badge>
                           <span className="flex-1">{option}</span>
-                          {optionIndex === question.correctOption && (
+                          {isCorrectOption(question, optionIndex) && (
                             <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
                           )}
                         </div>
+                        {question.optionExplanations?.[optionIndex] && (
+                          <p className="mt-1 ml-8 text-xs text-muted-foreground">
+                            {question.optionExplanations[optionIndex]}
+                          </p>
+                        )}
                       </div>
                     ))}
                   </div>
+                  {question.explanation && (
+                    <div className="mt-3 flex gap-2 p-3 rounded-lg bg-muted/50 text-sm">
+                      <Lightbulb className="h-4 w-4 shrink-0 mt-0.5 text-amber-500" />
+                      <span className="whitespace-pre-line">{question.explanation}</span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
@@ -1,49 +1,77 @@
 import React, { useState, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { QuizResult, Quiz } from "@/types/quiz";
+import { QuizResult, Quiz, QuizSession } from "@/types/quiz";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { BarChart, XAxis, YAxis, Bar, Cell, ResponsiveContainer, Legend, Tooltip, PieChart, Pie } from "recharts";
-import { AlertCircle, Award, BarChart2, FileText, Users, Download, Brain, TrendingDown, HelpCircle } from "lucide-react";
+import { AlertCircle, Award, BarChart2, FileText, Users, Download, Brain, TrendingDown, HelpCircle, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import QuestionAnalytics from "./QuestionAnalytics";
+import TeamStandings from "./TeamStandings";
 import { useQuizAnalytics } from "@/hooks/useQuizAnalytics";
-import { generateDetailedCSV, generateMultiQuizCSV } from "@/utils/analyticsProcessor";
+import { generateDetailedCSV, generateMultiQuizCSV, getResultPercentage, processSessionComparison } from "@/utils/analyticsProcessor";
 
 interface QuizResultsProps {
   results: QuizResult[];
   quizzes: Quiz[];
+  sessions: QuizSession[];
 }
 
-const QuizResults: React.FC<QuizResultsProps> = ({ results, quizzes }) => {
+const formatSessionTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const QuizResults: React.FC<QuizResultsProps> = ({ results, quizzes, sessions }) => {
   const [selectedQuiz, setSelectedQuiz] = useState<string>("all");
+  const [selectedSession, setSelectedSession] = useState<string>("all");
   
   const selectedQuizData = useMemo(() => {
     if (selectedQuiz === "all") return null;
     return quizzes.find(q => q.id === selectedQuiz) || null;
   }, [selectedQuiz, quizzes]);
 
+  // Sessions of the selected quiz that got as far as starting
+  const quizSessions = useMemo(
+    () => sessions.filter(session => session.quizId === selectedQuiz && session.startedAt),
+    [sessions, selectedQuiz]
+  );
+
+  const sessionResults = useMemo(() => {
+    if (selectedSession === "all") return results;
+    return results.filter(result => result.sessionId === selectedSession);
+  }, [results, selectedSession]);
+
+  const sessionComparison = useMemo(
+    () => (selectedQuizData ? processSessionComparison(selectedQuizData, quizSessions, results) : []),
+    [selectedQuizData, quizSessions, results]
+  );
+
+  const handleQuizChange = (quizId: string) => {
+    setSelectedQuiz(quizId);
+    setSelectedSession("all");
+  };
+
   const { 
     analytics, 
     detailedReport, 
     questionDifficultyDistribution, 
     mostMissedQuestions,
     commonMisconceptions 
-  } = useQuizAnalytics(selectedQuizData, results);
+  } = useQuizAnalytics(selectedQuizData, sessionResults);
   
   const filteredResults = useMemo(() => {
     if (selectedQuiz === "all") {
       return results;
     }
-    return results.filter(result => result.quizId === selectedQuiz);
-  }, [results, selectedQuiz]);
+    return sessionResults.filter(result => result.quizId === selectedQuiz);
+  }, [results, sessionResults, selectedQuiz]);
   
   const chartData = useMemo(() => {
     const data: { name: string; score: number; color: string }[] = [];
     
     filteredResults.forEach(result => {
-      const percentScore = Math.round((result.score / result.totalQuestions) * 100);
+      const percentScore = Math.round(getResultPercentage(result));
       let color = "#6366f1"; // Default color
       
       if (percentScore >= 80) {
@@ -67,7 +95,7 @@ const QuizResults: React.FC<QuizResultsProps> = ({ results, quizzes }) => {
   const averageScore = useMemo(() => {
     if (filteredResults.length === 0) return 0;
     const total = filteredResults.reduce((sum, result) => {
-      return sum + (result.score / result.totalQuestions) * 100;
+      return sum + getResultPercentage(result);
     }, 0);
     return Math.round(total / filteredResults.length);
   }, [filteredResults]);
@@ -134,7 +162,7 @@ const QuizResults: React.FC<QuizResultsProps> = ({ results, quizzes }) => {
         <h2 className="text-2xl font-bold">Quiz Results</h2>
         
         <div className="flex gap-2 items-center">
-          <Select value={selectedQuiz} onValueChange={setSelectedQuiz}>
+          <Select value={selectedQuiz} onValueChange={handleQuizChange}>
             <SelectTrigger className="w-[200px]">
               <SelectValue placeholder="Select a quiz" />
             </SelectTrigger>
@@ -145,6 +173,22 @@ const QuizResults: React.FC<QuizResultsProps> = ({ results, quizzes }) => {
               ))}
             </SelectContent>
           </Select>
+
+          {quizSessions.length > 0 && (
+            <Select value={selectedSession} onValueChange={setSelectedSession}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Select a session" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Sessions</SelectItem>
+                {quizSessions.map(session => (
+                  <SelectItem key={session.id} value={session.id}>
+                    {formatSessionTime(session.startedAt ?? session.openedAt)} ({session.roomCode})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           
           <Button 
             variant="outline" 
@@ -268,6 +312,94 @@ const QuizResults: React.FC<QuizResultsProps> = ({ results, quizzes }) => {
               </Card>
             </div>
           )}
+
+          {sessionComparison.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <CalendarClock className="h-5 w-5 mr-2" />
+                  Sessions
+                </CardTitle>
+                <CardDescription>
+                  Each time this quiz was run, with the settings it ran with. Pick one to see only its results.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Session</TableHead>
+                      <TableHead>Settings</TableHead>
+                      <TableHead className="text-right">Joined</TableHead>
+                      <TableHead className="text-right">Completed</TableHead>
+                      <TableHead className="text-right">Average Score</TableHead>
+                      <TableHead className="text-right">Time per Answer</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sessionComparison.map(session => (
+                      <TableRow
+                        key={session.sessionId}
+                        className="cursor-pointer"
+                        data-state={session.sessionId === selectedSession ? "selected" : undefined}
+                        onClick={() => setSelectedSession(current => (current === session.sessionId ? "all" : session.sessionId))}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{formatSessionTime(session.startedAt)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            Room {session.roomCode}{!session.ended && (session.mode === "homework" ? " · still open" : " · still running")}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {session.mode === "homework" && <Badge variant="secondary">Homework</Badge>}
+                            <Badge variant="outline">{session.settings.timePerQuestion}s</Badge>
+                            <Badge variant="outline">
+                              {session.settings.paceMode === "teacher" ? "Teacher-paced" : "Self-paced"}
+                            </Badge>
+                            {session.settings.scoring === "speed" && <Badge variant="outline">Speed</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{session.participants}</TableCell>
+                        <TableCell className="text-right">{session.completions}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {session.completions > 0 ? `${session.averageScore}%` : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {session.completions > 0 ? `${session.averageTime}s` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {analytics?.teamBreakdown && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <Users className="h-5 w-5 mr-2" />
+                  Team Standings
+                </CardTitle>
+                <CardDescription>
+                  {selectedQuizData?.teamScoring === "sum" ? "Total" : "Average"} of each team's member points
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TeamStandings
+                  standings={analytics.teamBreakdown.map(team => ({
+                    teamId: team.teamId,
+                    teamName: team.teamName,
+                    points: team.teamPoints,
+                    memberCount: team.students
+                  }))}
+                  teamScoring={selectedQuizData?.teamScoring}
+                />
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         <TabsContent value="performance" className="space-y-6">
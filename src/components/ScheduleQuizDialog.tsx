@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Quiz, QuizSchedule } from "@/types/quiz";
+import { useQuiz } from "@/contexts/quiz";
+import { toDateTimeInput } from "@/utils/quizSchedule";
+
+type CloseMode = "manual" | "duration" | "deadline";
+
+interface ScheduleQuizDialogProps {
+  quiz: Quiz | null;
+  onClose: () => void;
+}
+
+const ScheduleQuizDialog: React.FC<ScheduleQuizDialogProps> = ({ quiz, onClose }) => {
+  const { scheduleQuiz } = useQuiz();
+  const [startAt, setStartAt] = useState("");
+  const [closeMode, setCloseMode] = useState<CloseMode>("manual");
+  const [durationMinutes, setDurationMinutes] = useState(30);
+  const [endAt, setEndAt] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Start from the quiz's current schedule each time the dialog opens
+  useEffect(() => {
+    const schedule = quiz?.schedule;
+    setStartAt(schedule?.startAt ? toDateTimeInput(schedule.startAt) : "");
+    setCloseMode(schedule?.durationMinutes ? "duration" : schedule?.endAt ? "deadline" : "manual");
+    setDurationMinutes(schedule?.durationMinutes ?? 30);
+    setEndAt(schedule?.endAt ? toDateTimeInput(schedule.endAt) : "");
+  }, [quiz]);
+
+  const save = async (schedule: QuizSchedule | null) => {
+    if (!quiz) return;
+
+    setSaving(true);
+    try {
+      if (await scheduleQuiz(quiz.id, schedule)) {
+        onClose();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save({
+      startAt: startAt ? new Date(startAt).getTime() : undefined,
+      durationMinutes: closeMode === "duration" ? durationMinutes : undefined,
+      endAt: closeMode === "deadline" && endAt ? new Date(endAt).getTime() : undefined
+    });
+  };
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Schedule {quiz?.title}</DialogTitle>
+            <DialogDescription>
+              The quiz goes live and closes by itself, even with this page closed. Students join with the room code shown once it starts.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-start">Starts at</Label>
+            <Input
+              id="schedule-start"
+              type="datetime-local"
+              value={startAt}
+              onChange={(e) => setStartAt(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Leave empty to start it yourself.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Closes</Label>
+            <Select value={closeMode} onValueChange={(value) => setCloseMode(value as CloseMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="manual">When I end it</SelectItem>
+                <SelectItem value="duration">After a set time</SelectItem>
+                <SelectItem value="deadline">At a deadline</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {closeMode === "duration" && (
+            <div className="space-y-2">
+              <Label htmlFor="schedule-duration">Minutes after it starts</Label>
+              <Input
+                id="schedule-duration"
+                type="number"
+                min={1}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(Number(e.target.value))}
+              />
+            </div>
+          )}
+
+          {closeMode === "deadline" && (
+            <div className="space-y-2">
+              <Label htmlFor="schedule-end">Deadline</Label>
+              <Input
+                id="schedule-end"
+                type="datetime-local"
+                value={endAt}
+                onChange={(e) => setEndAt(e.target.value)}
+              />
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            {quiz?.schedule && (
+              <Button type="button" variant="ghost" className="text-red-500 hover:text-red-700 sm:mr-auto" onClick={() => save(null)} disabled={saving}>
+                Remove Schedule
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" className="quiz-gradient" disabled={saving}>
+              {saving ? "Saving..." : "Save Schedule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleQuizDialog;
@@ -0,0 +1,36 @@
+import React from "react";
+import { Trophy } from "lucide-react";
+import { TeamScoring, TeamStanding } from "@/types/quiz";
+
+interface TeamStandingsProps {
+  standings: TeamStanding[];
+  teamScoring?: TeamScoring;
+}
+
+// Teams ranked by their points, with how many members have scored for each
+const TeamStandings: React.FC<TeamStandingsProps> = ({ standings, teamScoring = "average" }) => (
+  <ol className="space-y-1">
+    {standings.map((standing, index) => (
+      <li key={standing.teamId} className="flex items-center gap-3 rounded-md bg-muted/40 px-3 py-2 text-sm">
+        <span className="w-6 text-right font-medium text-muted-foreground">{index + 1}</span>
+        {index === 0 && standing.memberCount > 0 ? (
+          <Trophy className="h-4 w-4 text-amber-500" />
+        ) : (
+          <span className="w-4" />
+        )}
+        <span className="flex-1 truncate font-medium">{standing.teamName}</span>
+        <span className="text-muted-foreground">
+          {standing.memberCount} {standing.memberCount === 1 ? "member" : "members"}
+        </span>
+        <span className="w-20 text-right font-semibold tabular-nums">
+          {standing.points}
+          <span className="ml-1 text-xs font-normal text-muted-foreground">
+            {teamScoring === "sum" ? "total" : "avg"}
+          </span>
+        </span>
+      </li>
+    ))}
+  </ol>
+);
+
+export default TeamStandings;
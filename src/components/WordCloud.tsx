@@ -0,0 +1,42 @@
+import React from "react";
+import { QuestionAnalytics } from "@/types/analytics";
+
+interface WordCloudProps {
+  words: QuestionAnalytics["wordFrequencies"];
+  emptyMessage?: string;
+}
+
+const MIN_FONT_SIZE = 0.875;
+const MAX_FONT_SIZE = 2.5;
+const COLORS = ["text-indigo-600", "text-sky-600", "text-emerald-600", "text-amber-600", "text-rose-600", "text-violet-600"];
+
+// Words sized by how many students gave them, most common first
+const WordCloud: React.FC<WordCloudProps> = ({ words, emptyMessage = "No responses yet." }) => {
+  if (!words || words.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">{emptyMessage}</p>;
+  }
+
+  const maxCount = words[0].count;
+  const minCount = words[words.length - 1].count;
+  const fontSize = (count: number) =>
+    maxCount === minCount
+      ? (MIN_FONT_SIZE + MAX_FONT_SIZE) / 2
+      : MIN_FONT_SIZE + ((count - minCount) / (maxCount - minCount)) * (MAX_FONT_SIZE - MIN_FONT_SIZE);
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 p-4">
+      {words.map((entry, index) => (
+        <span
+          key={entry.word}
+          title={`${entry.count} ${entry.count === 1 ? "student" : "students"}`}
+          className={`font-semibold leading-tight ${COLORS[index % COLORS.length]}`}
+          style={{ fontSize: `${fontSize(entry.count)}rem` }}
+        >
+          {entry.word}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default WordCloud;
@@ -2,20 +2,27 @@
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { Clock } from "lucide-react";
-import { Quiz } from "@/types/quiz";
+import { Clock, Pause } from "lucide-react";
+import { Quiz, AnswerFeedback } from "@/types/quiz";
+import { getQuestionTypeDefinition, QuestionResponse } from "@/questionTypes";
+import { describeScoring } from "@/utils/questionGrading";
+import { formatScheduleTime } from "@/utils/quizSchedule";
+import QuestionFeedback from "./QuestionFeedback";
 
 interface ActiveQuizQuestionProps {
   quiz: Quiz;
   currentQuestion: number;
   timeLeft: number;
   isSubmitting: boolean;
-  onAnswer: (optionIndex: number) => void;
+  response: QuestionResponse;
+  onResponseChange: (response: QuestionResponse) => void;
   onNextQuestion: () => void;
-  selectedOption: number | null;
+  feedback?: AnswerFeedback | null; // Set while showing the explanation for the answer just given
+  onContinue?: () => void;
+  teacherPaced?: boolean; // The teacher moves the class on, not the student
+  awaitingTeacher?: boolean; // Answer is in and the student is waiting for the teacher
+  paused?: boolean; // The teacher has paused the quiz, so the clock and answers are frozen
 }
 
 const ActiveQuizQuestion: React.FC<ActiveQuizQuestionProps> = ({
@@ -23,9 +30,14 @@ const ActiveQuizQuestion: React.FC<ActiveQuizQuestionProps> = ({
   currentQuestion,
   timeLeft,
   isSubmitting,
-  onAnswer,
+  response,
+  onResponseChange,
   onNextQuestion,
-  selectedOption,
+  feedback,
+  onContinue,
+  teacherPaced,
+  awaitingTeacher,
+  paused,
 }) => {
   if (!quiz) {
     console.log("ActiveQuizQuestion: No quiz data provided");
@@ -68,6 +80,7 @@ const ActiveQuizQuestion: React.FC<ActiveQuizQuestionProps> = ({
   
   const currentQ = quiz.questions[currentQuestion];
   const isLastQuestion = currentQuestion === quiz.questions.length - 1;
+  const { Renderer } = getQuestionTypeDefinition(currentQ.type);
 
   return (
     <div className="w-full max-w-3xl mx-auto px-4">
@@ -82,55 +95,65 @@ const ActiveQuizQuestion: React.FC<ActiveQuizQuestionProps> = ({
           </div>
         </div>
         <Progress value={(currentQuestion + 1) / quiz.questions.length * 100} className="h-2" />
+        {quiz.homework && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Homework due {formatScheduleTime(quiz.homework.dueAt)}
+          </p>
+        )}
       </div>
+
+      {paused && (
+        <div className="mb-4 flex items-center justify-center gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm font-medium text-amber-800">
+          <Pause className="h-4 w-4" />
+          Your teacher has paused the quiz. The timer will carry on when it resumes.
+        </div>
+      )}
       
       <Card className="border-2 border-quiz-primary/20 mb-4 sm:mb-6">
         <CardHeader className="pb-4">
           <CardTitle className="text-lg sm:text-xl leading-tight">
             {currentQ.text}
           </CardTitle>
+          <p className="text-xs text-muted-foreground">{describeScoring(currentQ)}</p>
         </CardHeader>
         <CardContent className="pt-0">
-          <RadioGroup
-            value={selectedOption?.toString() || ""}
-            onValueChange={(value) => onAnswer(parseInt(value))}
-            className="space-y-2 sm:space-y-3"
-          >
-            {currentQ.options && currentQ.options.length > 0 ? currentQ.options.map((option, index) => (
-              <div 
-                key={index}
-                className="flex items-start space-x-3 border p-3 sm:p-4 rounded-lg hover:bg-muted transition-colors cursor-pointer"
-                onClick={() => onAnswer(index)}
-              >
-                <RadioGroupItem 
-                  value={index.toString()} 
-                  id={`option-${index}`} 
-                  className="mt-0.5 flex-shrink-0"
-                />
-                <Label 
-                  htmlFor={`option-${index}`} 
-                  className="flex-1 cursor-pointer text-sm sm:text-base leading-relaxed"
-                >
-                  {option}
-                </Label>
-              </div>
-            )) : (
-              <div className="text-center py-4">
-                <p className="text-destructive">No options available for this question</p>
-              </div>
-            )}
-          </RadioGroup>
+          {/* The answer is locked in once feedback is showing */}
+          <div className={feedback || awaitingTeacher || paused ? "pointer-events-none opacity-75" : ""}>
+            <Renderer question={currentQ} response={response} onChange={onResponseChange} />
+          </div>
+          {feedback && (
+            <div className="mt-4 rounded-lg border bg-muted/30 p-4">
+              <QuestionFeedback question={feedback.question} answer={feedback.answer} />
+            </div>
+          )}
         </CardContent>
         <CardFooter className="pt-4">
-          <Button 
-            className="w-full quiz-gradient mobile-button"
-            onClick={onNextQuestion}
-            disabled={isSubmitting}
-            size="lg"
-          >
-            {isSubmitting ? "Submitting..." : 
-              isLastQuestion ? "Finish Quiz" : "Next Question"}
-          </Button>
+          {teacherPaced && (feedback || awaitingTeacher) ? (
+            <Button className="w-full mobile-button" variant="secondary" disabled size="lg">
+              {feedback ? "Waiting for your teacher to move on..." : "Answer submitted. Waiting for your teacher..."}
+            </Button>
+          ) : feedback ? (
+            <Button
+              className="w-full quiz-gradient mobile-button"
+              onClick={onContinue}
+              disabled={isSubmitting || paused}
+              size="lg"
+            >
+              {isSubmitting ? "Submitting..." :
+                isLastQuestion ? "See Results" : "Continue"}
+            </Button>
+          ) : (
+            <Button 
+              className="w-full quiz-gradient mobile-button"
+              onClick={onNextQuestion}
+              disabled={isSubmitting || paused}
+              size="lg"
+            >
+              {isSubmitting ? "Submitting..." : 
+                teacherPaced ? "Submit Answer" :
+                isLastQuestion ? "Finish Quiz" : "Next Question"}
+            </Button>
+          )}
         </CardFooter>
       </Card>
     </div>
@@ -0,0 +1,25 @@
+import React from "react";
+import { CloudOff, Loader2 } from "lucide-react";
+import { useQuiz } from "@/contexts/quiz";
+
+// Shows answers still on their way to the server; nothing once they're all in
+const AnswerSyncIndicator: React.FC = () => {
+  const { answerSync } = useQuiz();
+  if (answerSync.pending === 0) return null;
+
+  const count = `${answerSync.pending} ${answerSync.pending === 1 ? "answer" : "answers"}`;
+
+  return answerSync.offline ? (
+    <span className="flex items-center gap-1 text-xs sm:text-sm text-amber-600" role="status">
+      <CloudOff className="h-4 w-4" />
+      Offline, {count} waiting to send
+    </span>
+  ) : (
+    <span className="flex items-center gap-1 text-xs sm:text-sm text-muted-foreground" role="status">
+      <Loader2 className="h-4 w-4 animate-spin" />
+      Saving {count}...
+    </span>
+  );
+};
+
+export default AnswerSyncIndicator;
@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+
+interface MatchingAnswerProps {
+  items: string[];
+  targets: string[];
+  matches: number[];
+  onMatch: (matches: number[]) => void;
+}
+
+const MatchingAnswer: React.FC<MatchingAnswerProps> = ({
+  items,
+  targets,
+  matches,
+  onMatch,
+}) => {
+  // Targets can be dragged onto a slot, or tapped and then a slot tapped on touch screens
+  const [selectedTarget, setSelectedTarget] = useState<number | null>(null);
+
+  // Show the targets in a shuffled order that stays put for the whole question
+  const [targetOrder] = useState(() => {
+    const indices = targets.map((_, i) => i);
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return indices;
+  });
+
+  const assignTarget = (itemIndex: number, targetIndex: number) => {
+    // A target can only be used once, so take it away from any other item
+    const updated = matches.map(match => (match === targetIndex ? -1 : match));
+    updated[itemIndex] = targetIndex;
+    onMatch(updated);
+    setSelectedTarget(null);
+  };
+
+  const clearMatch = (itemIndex: number) => {
+    const updated = [...matches];
+    updated[itemIndex] = -1;
+    onMatch(updated);
+  };
+
+  const handleDrop = (e: React.DragEvent, itemIndex: number) => {
+    e.preventDefault();
+    const targetIndex = Number(e.dataTransfer.getData("text/plain"));
+    if (Number.isInteger(targetIndex)) {
+      assignTarget(itemIndex, targetIndex);
+    }
+  };
+
+  const unusedTargets = targetOrder.filter(targetIndex => !matches.includes(targetIndex));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        Drag each answer onto the item it matches, or tap an answer and then an item
+      </p>
+
+      <div className="space-y-2">
+        {items.map((item, itemIndex) => {
+          const matchedTarget = matches[itemIndex];
+          return (
+            <div
+              key={itemIndex}
+              className="grid grid-cols-2 gap-2 items-stretch"
+            >
+              <div className="border p-3 rounded-lg text-sm sm:text-base flex items-center">
+                {item}
+              </div>
+              <div
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => handleDrop(e, itemIndex)}
+                onClick={() => selectedTarget !== null && assignTarget(itemIndex, selectedTarget)}
+                className={`border-2 border-dashed p-3 rounded-lg text-sm sm:text-base flex items-center justify-between gap-2 min-h-[3rem] ${
+                  matchedTarget >= 0 ? "border-quiz-primary/40 bg-quiz-primary/5" : "border-muted-foreground/30"
+                } ${selectedTarget !== null ? "cursor-pointer hover:bg-muted" : ""}`}
+              >
+                {matchedTarget >= 0 ? (
+                  <>
+                    <span>{targets[matchedTarget]}</span>
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        clearMatch(itemIndex);
+                      }}
+                      className="text-muted-foreground hover:text-foreground"
+                      aria-label="Remove match"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground text-xs sm:text-sm">Drop answer here</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {unusedTargets.length > 0 && (
+        <div className="flex flex-wrap gap-2 pt-2 border-t">
+          {unusedTargets.map(targetIndex => (
+            <button
+              key={targetIndex}
+              type="button"
+              draggable
+              onDragStart={(e) => e.dataTransfer.setData("text/plain", String(targetIndex))}
+              onClick={() => setSelectedTarget(selectedTarget === targetIndex ? null : targetIndex)}
+              className={`px-3 py-2 rounded-lg border text-sm sm:text-base cursor-grab active:cursor-grabbing transition-colors ${
+                selectedTarget === targetIndex
+                  ? "border-quiz-primary bg-quiz-primary/10"
+                  : "bg-background hover:bg-muted"
+              }`}
+            >
+              {targets[targetIndex]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchingAnswer;
@@ -0,0 +1,80 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+
+interface OrderingAnswerProps {
+  items: string[];
+  order: number[];
+  onReorder: (order: number[]) => void;
+}
+
+const OrderingAnswer: React.FC<OrderingAnswerProps> = ({ items, order, onReorder }) => {
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+
+  const moveItem = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= order.length) return;
+    const updated = [...order];
+    const [moved] = updated.splice(from, 1);
+    updated.splice(to, 0, moved);
+    onReorder(updated);
+  };
+
+  const handleDrop = (e: React.DragEvent, position: number) => {
+    e.preventDefault();
+    if (dragPosition !== null) {
+      moveItem(dragPosition, position);
+    }
+    setDragPosition(null);
+  };
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        Drag the items (or use the arrows) to put them in the right order
+      </p>
+      {order.map((itemIndex, position) => (
+        <div
+          key={itemIndex}
+          draggable
+          onDragStart={() => setDragPosition(position)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => handleDrop(e, position)}
+          onDragEnd={() => setDragPosition(null)}
+          className={`flex items-center gap-2 border p-3 sm:p-4 rounded-lg bg-background transition-colors cursor-grab active:cursor-grabbing ${
+            dragPosition === position ? "opacity-50" : "hover:bg-muted"
+          }`}
+        >
+          <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <span className="text-xs font-medium text-muted-foreground w-5">{position + 1}.</span>
+          <span className="flex-1 text-sm sm:text-base leading-relaxed">{items[itemIndex]}</span>
+          <div className="flex flex-col sm:flex-row gap-1">
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => moveItem(position, position - 1)}
+              disabled={position === 0}
+              aria-label="Move up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => moveItem(position, position + 1)}
+              disabled={position === order.length - 1}
+              aria-label="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OrderingAnswer;
@@ -0,0 +1,91 @@
+import React from "react";
+import { CheckCircle, XCircle, MinusCircle, MessageSquare } from "lucide-react";
+import { QuizQuestion, StudentAnswer } from "@/types/quiz";
+import {
+  getAnswerCredit,
+  getAnswerPoints,
+  getCorrectOptions,
+  getAnswerKeyLabel,
+  usesOptions,
+  isGraded
+} from "@/utils/questionGrading";
+
+interface QuestionFeedbackProps {
+  question: QuizQuestion;
+  answer?: StudentAnswer; // Missing when the student never reached the question
+}
+
+const QuestionFeedback: React.FC<QuestionFeedbackProps> = ({ question, answer }) => {
+  // Polls and surveys have no right answer, so only confirm the response
+  if (!isGraded(question)) {
+    return (
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center gap-2 font-medium text-muted-foreground">
+          <MessageSquare className="h-4 w-4" />
+          <span>{answer ? "Response recorded" : "Not answered"}</span>
+          <span className="font-normal">(not scored)</span>
+        </div>
+        {question.explanation && (
+          <p className="text-muted-foreground whitespace-pre-line">{question.explanation}</p>
+        )}
+      </div>
+    );
+  }
+
+  const credit = answer ? getAnswerCredit(answer) : 0;
+  const points = answer ? Math.round(getAnswerPoints(answer) * 100) / 100 : 0;
+  const correctOptions = getCorrectOptions(question);
+  const answerKey = usesOptions(question)
+    ? correctOptions.map(index => question.options[index]).join(", ")
+    : getAnswerKeyLabel(question);
+
+  // Rationale for the options the student picked and the ones they should have
+  const picked = answer ? answer.selectedOptions || [answer.selectedOption] : [];
+  const rationale = usesOptions(question)
+    ? question.options
+        .map((option, index) => ({ option, index, text: question.optionExplanations?.[index] }))
+        .filter(({ index, text }) => text && (picked.includes(index) || correctOptions.includes(index)))
+    : [];
+
+  const status = credit === 1
+    ? { label: "Correct", icon: CheckCircle, className: "text-green-600" }
+    : credit > 0
+      ? { label: "Partially correct", icon: MinusCircle, className: "text-amber-600" }
+      : { label: answer ? "Incorrect" : "Not answered", icon: XCircle, className: "text-red-600" };
+  const StatusIcon = status.icon;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className={`flex items-center gap-2 font-medium ${status.className}`}>
+        <StatusIcon className="h-4 w-4" />
+        <span>{status.label}</span>
+        <span className="text-muted-foreground font-normal">
+          ({points > 0 ? "+" : ""}{points} {Math.abs(points) === 1 ? "point" : "points"})
+        </span>
+      </div>
+      {credit < 1 && answerKey && (
+        <p>
+          <span className="font-medium">Correct answer: </span>
+          {answerKey}
+        </p>
+      )}
+      {question.explanation && (
+        <p className="text-muted-foreground whitespace-pre-line">{question.explanation}</p>
+      )}
+      {rationale.length > 0 && (
+        <ul className="space-y-1">
+          {rationale.map(({ option, index, text }) => (
+            <li key={index}>
+              <span className={correctOptions.includes(index) ? "font-medium text-green-600" : "font-medium"}>
+                {String.fromCharCode(65 + index)}. {option}:
+              </span>{" "}
+              <span className="text-muted-foreground">{text}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default QuestionFeedback;
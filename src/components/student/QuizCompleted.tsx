@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   Card,
   CardHeader,
@@ -6,20 +6,53 @@ import {
   CardDescription,
   CardContent,
 } from "@/components/ui/card";
-import { CheckCircle, XCircle } from "lucide-react";
-import { Quiz } from "@/types/quiz";
+import { CheckCircle, XCircle, Zap } from "lucide-react";
+import { Quiz, StudentAnswer, LeaderboardEntry } from "@/types/quiz";
+import { useAuth } from "@/contexts/AuthContext";
+import { useQuiz } from "@/contexts/quiz";
+import { getMaxScore } from "@/utils/questionGrading";
+import { getScoringStrategy } from "@/utils/scoringStrategies";
+import Leaderboard from "@/components/Leaderboard";
+import QuestionFeedback from "./QuestionFeedback";
 
 interface QuizCompletedProps {
   quiz: Quiz;
   score: number;
+  answers?: StudentAnswer[];
+  submittedLate?: boolean; // Homework handed in after it was due
 }
 
-const QuizCompleted: React.FC<QuizCompletedProps> = ({ quiz, score }) => {
+// Classmates keep finishing after this student, so the board is refreshed
+const LEADERBOARD_REFRESH_MS = 5000;
+
+const QuizCompleted: React.FC<QuizCompletedProps> = ({ quiz, score, answers = [], submittedLate = false }) => {
+  const { user } = useAuth();
+  const { fetchLeaderboard } = useQuiz();
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const competitive = quiz?.scoring === "speed";
+  const quizId = quiz?.id;
+  const sessionId = quiz?.sessionId;
+
+  useEffect(() => {
+    if (!competitive || !quizId) return;
+
+    const loadLeaderboard = () => fetchLeaderboard(quizId, sessionId).then(setLeaderboard);
+    loadLeaderboard();
+    const refresh = setInterval(loadLeaderboard, LEADERBOARD_REFRESH_MS);
+    return () => clearInterval(refresh);
+  }, [competitive, quizId, sessionId, fetchLeaderboard]);
+
   if (!quiz) return null;
 
-  const totalQuestions = quiz.questions.length;
-  const scorePercentage = score / totalQuestions;
+  const maxScore = getMaxScore(quiz.questions);
+  // A quiz made only of warm-up questions has nothing to score against
+  const scorePercentage = maxScore > 0 ? Math.max(0, score) / maxScore : 0;
+  // Partial credit and point weights can leave fractional scores
+  const displayScore = Math.round(score * 100) / 100;
   const isPassing = scorePercentage >= 0.7;
+  // Students in "immediate" mode already saw each explanation as they went
+  const showReview = quiz.feedbackMode !== "immediate" && answers.length > 0;
+  const latePenalty = quiz.homework?.latePolicy === "penalty" ? quiz.homework.latePenaltyPercent : 0;
 
   return (
     <Card className="max-w-md mx-auto mt-6 border-2 border-quiz-primary/20 shadow-sm p-4">
@@ -28,9 +61,14 @@ const QuizCompleted: React.FC<QuizCompletedProps> = ({ quiz, score }) => {
           Quiz Completed!
         </CardTitle>
         <CardDescription className="text-center">
-          You scored <strong>{score}</strong> out of{" "}
-          <strong>{totalQuestions}</strong>
+          You scored <strong>{displayScore}</strong> out of{" "}
+          <strong>{maxScore}</strong>
         </CardDescription>
+        {submittedLate && (
+          <p className="text-center text-sm text-amber-600">
+            Handed in after the due date{latePenalty > 0 ? `, so ${latePenalty}% was taken off` : ""}
+          </p>
+        )}
       </CardHeader>
       <CardContent className="space-y-6">
         <div className="flex flex-col items-center justify-center">
@@ -52,16 +90,50 @@ const QuizCompleted: React.FC<QuizCompletedProps> = ({ quiz, score }) => {
         <div className="border-t pt-4">
           <h3 className="font-medium text-base mb-2">Summary</h3>
           <div className="flex justify-between text-sm">
-            <span>✅ Correct answers:</span>
-            <span className="font-semibold text-green-600">{score}</span>
+            <span>✅ Points earned:</span>
+            <span className="font-semibold text-green-600">{displayScore}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span>❌ Incorrect answers:</span>
+            <span>❌ Points missed:</span>
             <span className="font-semibold text-red-600">
-              {totalQuestions - score}
+              {Math.round((maxScore - score) * 100) / 100}
             </span>
           </div>
         </div>
+
+        {competitive && (
+          <div className="border-t pt-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-medium text-base">Leaderboard</h3>
+              <span className="flex items-center gap-1 text-sm font-semibold text-quiz-primary">
+                <Zap className="h-4 w-4" />
+                {getScoringStrategy(quiz).scoreAnswers(quiz, answers)} points
+              </span>
+            </div>
+            <Leaderboard
+              entries={leaderboard}
+              highlightName={user?.name}
+              emptyMessage="Waiting for results..."
+            />
+          </div>
+        )}
+
+        {showReview && (
+          <div className="border-t pt-4">
+            <h3 className="font-medium text-base mb-2">Review</h3>
+            <div className="space-y-4">
+              {quiz.questions.map((question, index) => (
+                <div key={question.id} className="space-y-1">
+                  <p className="font-medium text-sm">Q{index + 1}: {question.text}</p>
+                  <QuestionFeedback
+                    question={question}
+                    answer={answers.find(answer => answer.questionId === question.id)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,33 +1,60 @@
 
 import React from "react";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Users } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useQuiz } from "@/contexts/quiz";
 
+// The waiting room. The quiz replaces it by itself once the teacher starts.
 const QuizWaiting: React.FC = () => {
+  const { user } = useAuth();
+  const { participants } = useQuiz();
+  const classmates = participants.filter(participant => participant.connected);
+
   return (
     <Card className="max-w-md mx-auto border-2 border-quiz-primary/20">
       <CardHeader>
-        <CardTitle>Waiting for quiz...</CardTitle>
+        <CardTitle>You're in!</CardTitle>
         <CardDescription>
-          Your teacher has not launched a quiz yet. Please wait.
+          Waiting for your teacher to start the quiz. It will open here automatically.
         </CardDescription>
       </CardHeader>
-      <CardContent className="flex justify-center py-8">
-        <div className="animate-pulse text-quiz-primary">
-          <svg
-            className="w-16 h-16 animate-bounce"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-            xmlns="http://www.w3.org/2000/svg"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M8 9l4-4 4 4m0 6l-4 4-4-4"
-            />
-          </svg>
+      <CardContent className="space-y-6">
+        <div className="flex justify-center py-4">
+          <div className="animate-pulse text-quiz-primary">
+            <svg
+              className="w-16 h-16 animate-bounce"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M8 9l4-4 4 4m0 6l-4 4-4-4"
+              />
+            </svg>
+          </div>
         </div>
+
+        {classmates.length > 0 && (
+          <div className="space-y-2">
+            <p className="flex items-center gap-1 text-sm font-medium">
+              <Users className="h-4 w-4" />
+              {classmates.length} {classmates.length === 1 ? "student" : "students"} in the room
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {classmates.map(classmate => (
+                <Badge key={classmate.name} variant={classmate.name === user?.name ? "default" : "secondary"}>
+                  {classmate.name}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
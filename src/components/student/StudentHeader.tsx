@@ -2,6 +2,7 @@ import React from "react";
 import { Button } from "@/components/ui/button";
 import { LogOut } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import AnswerSyncIndicator from "./AnswerSyncIndicator";
 
 const StudentHeader: React.FC = () => {
   const { user, logout, roomCode } = useAuth();
@@ -25,6 +26,7 @@ const StudentHeader: React.FC = () => {
 
         {/* Room Code and Logout */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
+          <AnswerSyncIndicator />
           {roomCode && (
             <div className="flex items-center gap-1 sm:gap-2">
               <span className="text-sm text-gray-500">Room:</span>
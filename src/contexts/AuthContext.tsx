@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
@@ -15,6 +15,7 @@ type User = {
 type AuthContextType = {
   user: User | null;
   login: (name: string, role: UserRole) => void;
+  renameUser: (name: string) => void;
   teacherLogin: (email: string, password: string) => Promise<boolean>;
   teacherSignup: (name: string, email: string, password: string) => Promise<boolean>;
   resetPassword: (email: string) => Promise<boolean>;
@@ -107,20 +108,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               email: data.email
             };
             
+            // Each of the teacher's rooms has its own code, loaded with their quizzes
             setUser(teacherUser);
             
-            // Fetch active quiz to get room code
-            const { data: quizData } = await supabase
-              .from('quizzes')
-              .select('*')
-              .eq('created_by', data.id)
-              .eq('is_active', true)
-              .maybeSingle();
-              
-            if (quizData) {
-              setRoomCode(quizData.room_code);
-            }
-            
             if (location.pathname === "/" || location.pathname === "/login") {
               navigate("/teacher", { replace: true });
             }
@@ -271,22 +261,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           email: teacherData.email
         };
 
+        // Each of the teacher's rooms has its own code, loaded with their quizzes
         setUser(teacherUser);
-        
-        // Fetch active quiz to get room code
-        const { data: quizData } = await supabase
-          .from('quizzes')
-          .select('*')
-          .eq('created_by', teacherData.id)
-          .eq('is_active', true)
-          .maybeSingle();
-          
-        if (quizData) {
-          setRoomCode(quizData.room_code);
-        } else {
-          // No active quiz, so we'll create a new room code if needed when launching a quiz
-          setRoomCode(null);
-        }
+        setRoomCode(null);
         
         toast.success(`Welcome back, ${teacherData.name}!`);
         navigate("/teacher", { replace: true }); // Use replace to prevent back button issues
@@ -376,6 +353,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // A teacher can rename a student while they're in the room. Stable, so
+  // the room's Realtime channel doesn't resubscribe on every render.
+  const renameUser = useCallback((name: string) => {
+    setUser(prev => {
+      if (!prev) return prev;
+      const renamed = { ...prev, name };
+      localStorage.setItem("quizUser", JSON.stringify(renamed));
+      return renamed;
+    });
+  }, []);
+
   const logout = async () => {
     try {
       // Sign out from Supabase Auth
@@ -385,6 +373,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setRoomCode(null);
       localStorage.removeItem("quizUser");
       localStorage.removeItem("quizRoomCode");
+      localStorage.removeItem("quizTeamId");
       navigate("/");
       toast.info("Logged out successfully");
     } catch (error) {
@@ -401,6 +390,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     <AuthContext.Provider value={{ 
       user, 
       login, 
+      renameUser, 
       teacherLogin, 
       teacherSignup, 
       resetPassword, 
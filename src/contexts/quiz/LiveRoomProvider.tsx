@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { Quiz, Participant, RoomBan, LiveCursor, LiveClock } from "@/types/quiz";
+import { LiveRoomContext } from "./liveRoomContext";
+import {
+  fetchRoomBans,
+  banParticipant,
+  renameParticipant as renameParticipantService,
+  fetchLiveState,
+  updateLiveState,
+  formatLiveCursor,
+  formatLiveClock
+} from "@/services/quizService";
+import { useLiveAnswers } from "./useLiveAnswers";
+import { isBanned } from "@/utils/roomBans";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+// Everything the teacher follows and controls in one room. A teacher with
+// several rooms open gets one of these per room, each with its own
+// subscriptions, so one room never waits on or mixes with another.
+export const LiveRoomProvider: React.FC<{ quiz: Quiz; children: React.ReactNode }> = ({ quiz, children }) => {
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [roomBans, setRoomBans] = useState<RoomBan[]>([]);
+  const [currentQuestion, setCurrentQuestion] = useState<number>(0);
+  const [liveCursor, setLiveCursor] = useState<LiveCursor | null>(null);
+  const [liveClock, setLiveClock] = useState<LiveClock | null>(null);
+  const { studentAnswers, teamMembers, renameStudent } = useLiveAnswers(quiz.isActive ? quiz : null);
+
+  const quizId = quiz.id;
+  const roomCode = quiz.roomCode;
+  const sessionId = quiz.sessionId;
+  const running = !!quiz.isActive;
+  const teacherPaced = quiz.paceMode === 'teacher';
+  const questionCount = quiz.questions.length;
+
+  // The presence channel, which also carries the teacher's removals and
+  // renames to students, and the bans its handler filters out
+  const roomChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const roomBansRef = useRef<RoomBan[]>([]);
+  useEffect(() => {
+    roomBansRef.current = roomBans;
+  }, [roomBans]);
+
+  // Names and devices removed from this session, so they stay out of it
+  useEffect(() => {
+    setRoomBans([]);
+    if (!sessionId) return;
+
+    fetchRoomBans(sessionId).then(setRoomBans);
+  }, [sessionId]);
+
+  // Who is in the room, through Realtime presence. The teacher only listens
+  // and keeps students who left on the list as disconnected.
+  useEffect(() => {
+    if (!roomCode) return;
+
+    setParticipants([]);
+    const channel = supabase.channel(`room-presence-${roomCode}`);
+    roomChannelRef.current = channel;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const present = Object.values(channel.presenceState<{ name: string; joinedAt: number; deviceId?: string }>())
+          .flat()
+          .filter(({ name, deviceId }) => !isBanned(roomBansRef.current, name, deviceId));
+        setParticipants(prev => {
+          const byName = new Map(prev.map(participant => [participant.name, { ...participant, connected: false }]));
+          present.forEach(({ name, joinedAt, deviceId }) => {
+            byName.set(name, { name, joinedAt: byName.get(name)?.joinedAt ?? joinedAt, connected: true, deviceId });
+          });
+          return Array.from(byName.values()).sort((a, b) => a.joinedAt - b.joinedAt);
+        });
+      })
+      .subscribe();
+
+    return () => {
+      roomChannelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [roomCode]);
+
+  // Keep whatever the server saved, including the times it stamped on
+  // question starts and pauses
+  const followLiveState = useCallback((liveState: { cursor: LiveCursor; clock: LiveClock }) => {
+    setLiveClock(liveState.clock);
+    if (teacherPaced) {
+      setLiveCursor(liveState.cursor);
+      setCurrentQuestion(Math.min(liveState.cursor.questionIndex, questionCount - 1));
+    }
+  }, [teacherPaced, questionCount]);
+
+  // Pick the quiz up where the class is once it's running, paused or not.
+  // Moves made from the teacher's other screens, like the projector, follow.
+  useEffect(() => {
+    setCurrentQuestion(0);
+    setLiveCursor(null);
+    setLiveClock(null);
+    if (!running) return;
+
+    let cancelled = false;
+    fetchLiveState(quizId).then(liveState => {
+      if (liveState && !cancelled) followLiveState(liveState);
+    });
+
+    const channel = supabase
+      .channel(`live-room-${quizId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'quizzes', filter: `id=eq.${quizId}` },
+        (payload) => {
+          const row = payload.new as Tables<'quizzes'>;
+          if (row.is_active) {
+            followLiveState({ cursor: formatLiveCursor(row), clock: formatLiveClock(row) });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [quizId, sessionId, running, followLiveState]);
+
+  // In a teacher-paced quiz this moves every student to the question; in a
+  // self-paced one it only changes which question the teacher is looking at.
+  // Passing the number of questions finishes a teacher-paced quiz.
+  const goToQuestion = async (questionIndex: number) => {
+    if (!running) return;
+
+    if (!teacherPaced) {
+      setCurrentQuestion(Math.max(0, Math.min(questionIndex, questionCount - 1)));
+      return;
+    }
+
+    // Extra time only ever applies to the question it was given on
+    const liveState = await updateLiveState(quizId, {
+      cursor: { questionIndex, startedAt: Date.now(), revealed: false },
+      clock: { pausedAt: null, extraSeconds: 0 }
+    });
+    if (liveState) {
+      followLiveState(liveState);
+    }
+  };
+
+  const updateLive = async (update: { cursor?: LiveCursor; clock?: LiveClock }) => {
+    if (!running) return;
+
+    const liveState = await updateLiveState(quizId, update);
+    if (liveState) {
+      followLiveState(liveState);
+    }
+  };
+
+  const revealAnswers = async () => {
+    if (!liveCursor) return;
+    await updateLive({ cursor: { ...liveCursor, revealed: true } });
+  };
+
+  const pauseQuiz = async () => {
+    if (!liveClock || liveClock.pausedAt) return;
+    await updateLive({ clock: { ...liveClock, pausedAt: Date.now() } });
+  };
+
+  // The server moves a teacher-paced question's start on by the length of
+  // the pause, and self-paced deadlines take it into account too
+  const resumeQuiz = async () => {
+    if (!liveClock?.pausedAt) return;
+    await updateLive({ clock: { ...liveClock, pausedAt: null } });
+  };
+
+  const extendTime = async (seconds: number) => {
+    if (!liveClock) return;
+    await updateLive({ clock: { ...liveClock, extraSeconds: liveClock.extraSeconds + seconds } });
+  };
+
+  // Take a student out of the room and keep their name and device out of it
+  const removeParticipant = async (name: string) => {
+    if (!sessionId) return;
+
+    const participant = participants.find(p => p.name === name);
+    const ban = await banParticipant(quizId, sessionId, name, participant?.deviceId);
+    if (!ban) return;
+
+    setRoomBans(prev => [...prev, ban]);
+    setParticipants(prev => prev.filter(p => p.name !== name));
+    await roomChannelRef.current?.send({
+      type: 'broadcast',
+      event: 'participant',
+      payload: { action: 'remove', name }
+    });
+    toast.success(`${name} was removed from the quiz`);
+  };
+
+  const renameParticipant = async (name: string, newName: string) => {
+    const trimmedName = newName.trim();
+    if (!sessionId || !trimmedName || trimmedName === name) return false;
+
+    if (participants.some(p => p.name === trimmedName)) {
+      toast.error("Someone in the room already has that name");
+      return false;
+    }
+
+    const success = await renameParticipantService(sessionId, name, trimmedName);
+    if (!success) return false;
+
+    setParticipants(prev => prev.map(p => (p.name === name ? { ...p, name: trimmedName } : p)));
+    renameStudent(name, trimmedName);
+    await roomChannelRef.current?.send({
+      type: 'broadcast',
+      event: 'participant',
+      payload: { action: 'rename', name, newName: trimmedName }
+    });
+    return true;
+  };
+
+  return (
+    <LiveRoomContext.Provider
+      value={{
+        quiz,
+        participants,
+        roomBans,
+        removeParticipant,
+        renameParticipant,
+        currentQuestion,
+        liveCursor,
+        goToQuestion,
+        revealAnswers,
+        liveClock,
+        pauseQuiz,
+        resumeQuiz,
+        extendTime,
+        studentAnswers,
+        teamMembers
+      }}
+    >
+      {children}
+    </LiveRoomContext.Provider>
+  );
+};
@@ -1,52 +1,148 @@
 
-import React, { useState, useEffect } from "react";
-import { QuizContextType, Quiz, QuizResult, StudentAnswer } from "@/types/quiz";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { Quiz, QuizResult, QuizSession, StudentAnswer, Participant, AnswerGrade, FeedbackMode, PaceMode, QuizScoring, LiveCursor, LiveClock, QuizSchedule, HomeworkSettings, AnswerDelivery, AnswerSync, QueuedAnswer } from "@/types/quiz";
 import { QuizContext } from "./quizContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { 
   fetchQuizzes, 
   fetchResults, 
+  fetchSessions,
   createQuiz as createQuizService, 
   deleteQuiz as deleteQuizService,
   launchQuiz as launchQuizService,
+  scheduleQuiz as scheduleQuizService,
+  assignHomework as assignHomeworkService,
+  closeHomework as closeHomeworkService,
+  fetchHomeworkProgress,
+  openLobby as openLobbyService,
+  closeLobby as closeLobbyService,
   endQuiz as endQuizService,
   submitAnswer as submitAnswerService,
-  submitQuizResult as submitQuizResultService
+  fetchStudentProgress as fetchStudentProgressService,
+  startQuestion,
+  submitQuizResult as submitQuizResultService,
+  addAcceptedAnswer as addAcceptedAnswerService,
+  fetchLeaderboard,
+  fetchLiveState,
+  formatQuestion,
+  formatPool,
+  formatHomework,
+  formatLiveCursor,
+  formatLiveClock
 } from "@/services/quizService";
+import { drawQuestionsForStudent } from "@/utils/quizArrangement";
+import { gradeAnswer } from "@/utils/questionGrading";
+import { getAnswerKey, getRetryDelay, loadQueuedAnswers, removeQueuedAnswer, saveQueuedAnswer } from "@/utils/answerQueue";
+import { getDeviceId } from "@/utils/roomBans";
+import { getNextScheduledStart, SCHEDULE_JOB_INTERVAL_MS } from "@/utils/quizSchedule";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
 
 export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
   const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [removedFromRoom, setRemovedFromRoom] = useState(false);
   const [currentQuestion, setCurrentQuestion] = useState<number>(0);
-  const [studentAnswers, setStudentAnswers] = useState<StudentAnswer[]>([]);
+  const [liveCursor, setLiveCursor] = useState<LiveCursor | null>(null);
+  const [liveClock, setLiveClock] = useState<LiveClock | null>(null);
   const [results, setResults] = useState<QuizResult[]>([]);
+  const [sessions, setSessions] = useState<QuizSession[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
-  const { user, roomCode, setRoomCode } = useAuth();
+  const { user, roomCode, renameUser } = useAuth();
+
+  // Lets the Realtime handler tell cursor moves on the quiz already loaded
+  // apart from a different quiz starting or ending
+  const activeQuizRef = useRef<Quiz | null>(null);
+  useEffect(() => {
+    activeQuizRef.current = activeQuiz;
+  }, [activeQuiz]);
+
+  // Lets the teacher's Realtime handler tell a room opening, starting or
+  // closing apart from the class moving on in it
+  const quizzesRef = useRef<Quiz[]>([]);
+  useEffect(() => {
+    quizzesRef.current = quizzes;
+  }, [quizzes]);
+
+  // The teacher's rooms: every quiz with a lobby open or running
+  const liveQuizzes = useMemo(() => quizzes.filter(quiz => quiz.isActive || quiz.lobbyOpen), [quizzes]);
+
+  // Answers on their way to the server, oldest first. The ref is the queue
+  // itself; answerSync mirrors it for the sync indicator.
+  const answerQueueRef = useRef<QueuedAnswer[]>([]);
+  const [answerSync, setAnswerSync] = useState<AnswerSync>({ pending: 0, offline: false });
+  // Whether the last send failed to reach the server, as of the latest queue change
+  const answersOfflineRef = useRef(false);
+  const sendingAnswersRef = useRef(false);
+  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  // Callers waiting on their own answer, and on the whole queue
+  const deliveryWaitersRef = useRef(new Map<string, (delivery: AnswerDelivery) => void>());
+  const syncWaitersRef = useRef<(() => void)[]>([]);
+  // Answers queued before a reload, loaded from IndexedDB
+  const queueLoadedRef = useRef<Promise<void> | null>(null);
+
+  // Bumped to load the teacher's quizzes again, when a scheduled quiz is due
+  // to start or one of them opens, starts or closes somewhere else
+  const [quizzesCheck, setQuizzesCheck] = useState(0);
 
   useEffect(() => {
     if (user && user.role === 'teacher') {
       loadQuizzes();
       loadResults();
     }
-  }, [user]);
+  }, [user, quizzesCheck]);
 
-  // For students, check if there's an active quiz for their room code
+  // The server starts scheduled quizzes within a minute of their start time.
+  // Check back then, and every minute after until it has.
   useEffect(() => {
-    console.log("Student quiz check:", { user: user?.role, roomCode, hasUser: !!user });
-    if (user && user.role === 'student' && roomCode) {
-      console.log("Checking active quiz for student with room code:", roomCode);
-      checkActiveQuizForStudent();
-    } else {
-      console.log("Not checking active quiz - missing requirements:", { 
-        hasUser: !!user, 
-        isStudent: user?.role === 'student', 
-        hasRoomCode: !!roomCode 
-      });
-    }
-  }, [user, roomCode]);
+    if (user?.role !== 'teacher') return;
+
+    const nextStart = getNextScheduledStart(quizzes);
+    if (nextStart === null) return;
+
+    // Far-off starts are checked daily; longer timeouts overflow
+    const delay = Math.min(Math.max(0, nextStart - Date.now()) + SCHEDULE_JOB_INTERVAL_MS, 24 * 60 * 60 * 1000);
+    const timeout = setTimeout(() => setQuizzesCheck(check => check + 1), delay);
+    return () => clearTimeout(timeout);
+  }, [user, quizzes]);
+
+  // A room opening, starting or closing on its schedule or from another of
+  // the teacher's screens. Each room follows its own live state.
+  useEffect(() => {
+    if (user?.role !== 'teacher') return;
+
+    const channel = supabase
+      .channel(`teacher-quizzes-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'quizzes', filter: `created_by=eq.${user.id}` },
+        (payload) => {
+          const row = payload.new as Tables<'quizzes'>;
+          const known = quizzesRef.current.find(quiz => quiz.id === row.id);
+          if (
+            known &&
+            !!known.isActive === row.is_active &&
+            !!known.lobbyOpen === row.lobby_open &&
+            known.sessionId === (row.current_session_id ?? undefined)
+          ) return;
+
+          setQuizzesCheck(check => check + 1);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  // A rename keeps the same user id, so it doesn't reload the quiz
+  const userId = user?.id;
+  const userRole = user?.role;
 
-  const checkActiveQuizForStudent = async () => {
+  const checkActiveQuizForStudent = useCallback(async () => {
     console.log("checkActiveQuizForStudent called with roomCode:", roomCode);
     if (!roomCode) {
       console.log("No room code available for checking active quiz");
@@ -54,17 +150,33 @@ export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
     
     try {
-      const { data: quizData, error } = await supabase
+      // The code may be for homework rather than a live quiz
+      const { data: homeworkSession } = await supabase
+        .from("quiz_sessions")
+        .select("*")
+        .eq("room_code", roomCode)
+        .eq("mode", "homework")
+        .is("ended_at", null)
+        .maybeSingle();
+      const homework = homeworkSession ? formatHomework(homeworkSession) : undefined;
+
+      const quizQuery = supabase
         .from("quizzes")
         .select(`
-          id, title, description, time_per_question, is_active, room_code, created_at, created_by,
+          id, title, description, time_per_question, feedback_mode, pace_mode, scoring, shuffle_questions, shuffle_options, is_active, room_code, created_at, created_by,
+          current_question, question_started_at, answers_revealed, paused_at, extra_seconds, current_session_id,
           quiz_questions (
-            id, text, options, correct_option, order_num
+            id, text, options, correct_option, order_num, question_type, answer_key,
+            time_limit, points, penalty, explanation, option_explanations, pool_id
+          ),
+          quiz_question_pools (
+            id, name, draw_count
           )
-        `)
-        .eq("room_code", roomCode)
-        .eq("is_active", true)
-        .single();
+        `);
+      const { data: quizData, error } = await (homeworkSession
+        ? quizQuery.eq("id", homeworkSession.quiz_id)
+        : quizQuery.eq("room_code", roomCode).eq("is_active", true)
+      ).single();
 
       if (!error && quizData) {
         const formattedQuiz: Quiz = {
@@ -72,54 +184,60 @@ export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children
           title: quizData.title,
           description: quizData.description || "",
           timePerQuestion: quizData.time_per_question,
-          isActive: quizData.is_active,
-          roomCode: quizData.room_code,
+          feedbackMode: quizData.feedback_mode as FeedbackMode,
+          // Homework is always taken at the student's own pace
+          paceMode: (homework ? 'self' : quizData.pace_mode) as PaceMode,
+          scoring: quizData.scoring as QuizScoring,
+          shuffleQuestions: quizData.shuffle_questions,
+          shuffleOptions: quizData.shuffle_options,
+          isActive: homework ? true : quizData.is_active,
+          roomCode: homeworkSession?.room_code ?? quizData.room_code,
           createdAt: new Date(quizData.created_at).getTime(), // Fix TypeScript error by converting to number
           createdBy: quizData.created_by,
+          sessionId: homeworkSession?.id ?? quizData.current_session_id ?? undefined,
+          homework,
           questions: quizData.quiz_questions
             .sort((a, b) => a.order_num - b.order_num)
-            .map(q => {
-              // Handle options parsing - could be string, array, or JSON
-              let parsedOptions: string[] = [];
-              try {
-                if (typeof q.options === 'string') {
-                  parsedOptions = JSON.parse(q.options);
-                } else if (Array.isArray(q.options)) {
-                  // Ensure all elements are strings
-                  parsedOptions = q.options.map(option => String(option));
-                } else {
-                  console.error('Invalid options format:', q.options);
-                  parsedOptions = [];
-                }
-              } catch (error) {
-                console.error('Error parsing options:', error, q.options);
-                parsedOptions = [];
-              }
-              
-              return {
-                id: q.id,
-                text: q.text,
-                options: parsedOptions,
-                correctOption: q.correct_option
-              };
-            })
+            .map(formatQuestion),
+          pools: quizData.quiz_question_pools.map(formatPool)
         };
         
-        setActiveQuiz(formattedQuiz);
+        // Each student only gets their own draw from the quiz's pools
+        setActiveQuiz(drawQuestionsForStudent(formattedQuiz, userId));
+        setLiveCursor(formattedQuiz.paceMode === 'teacher' ? formatLiveCursor(quizData) : null);
+        // The teacher's pauses and extra time only apply to the live quiz
+        setLiveClock(homework ? null : formatLiveClock(quizData));
         console.log("Found active quiz for student:", formattedQuiz);
       } else {
         setActiveQuiz(null);
+        setLiveCursor(null);
+        setLiveClock(null);
         console.log("No active quiz found for room code:", roomCode);
       }
     } catch (error) {
       console.error("Error checking active quiz for student:", error);
       setActiveQuiz(null);
     }
-  };
+  }, [roomCode, userId]);
+
+  // For students, check if there's an active quiz for their room code
+  useEffect(() => {
+    console.log("Student quiz check:", { user: userRole, roomCode, hasUser: !!userId });
+    if (userId && userRole === 'student' && roomCode) {
+      console.log("Checking active quiz for student with room code:", roomCode);
+      checkActiveQuizForStudent();
+    } else {
+      console.log("Not checking active quiz - missing requirements:", { 
+        hasUser: !!userId, 
+        isStudent: userRole === 'student', 
+        hasRoomCode: !!roomCode 
+      });
+    }
+  }, [userId, userRole, roomCode, checkActiveQuizForStudent]);
 
   // Set up real-time subscription for quiz status changes
   useEffect(() => {
-    if (!roomCode) return;
+    if (!roomCode || user?.role !== 'student') return;
 
     const channel = supabase
       .channel('quiz-status-changes')
@@ -133,9 +251,20 @@ export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children
         },
         (payload) => {
           console.log('Quiz status changed:', payload);
-          if (user?.role === 'student') {
-            checkActiveQuizForStudent();
+          const row = payload.new as Tables<'quizzes'>;
+          const current = activeQuizRef.current;
+
+          // The teacher moving, pausing or extending a running quiz only
+          // changes its live state
+          if (payload.eventType === 'UPDATE' && row.is_active && current?.id === row.id) {
+            setLiveClock(formatLiveClock(row));
+            if (current.paceMode === 'teacher') {
+              setLiveCursor(formatLiveCursor(row));
+            }
+            return;
           }
+
+          checkActiveQuizForStudent();
         }
       )
       .subscribe();
@@ -143,116 +272,172 @@ export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [roomCode, user]);
+  }, [roomCode, user, checkActiveQuizForStudent]);
+
+  // Who is in the room, through Realtime presence. Students announce
+  // themselves for the teacher's room to see, and see their classmates
+  // arrive in the lobby. The teacher's removals and renames come through here.
+  useEffect(() => {
+    if (!roomCode || user?.role !== 'student') return;
+
+    setParticipants([]);
+    setRemovedFromRoom(false);
+    const channel = supabase.channel(`room-presence-${roomCode}`, {
+      config: { presence: { key: user.id } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const present = Object.values(channel.presenceState<{ name: string; joinedAt: number; deviceId?: string }>())
+          .flat();
+        setParticipants(prev => {
+          const byName = new Map(prev.map(participant => [participant.name, { ...participant, connected: false }]));
+          present.forEach(({ name, joinedAt, deviceId }) => {
+            byName.set(name, { name, joinedAt: byName.get(name)?.joinedAt ?? joinedAt, connected: true, deviceId });
+          });
+          return Array.from(byName.values()).sort((a, b) => a.joinedAt - b.joinedAt);
+        });
+      })
+      .on('broadcast', { event: 'participant' }, ({ payload }) => {
+        if (payload.name !== user.name) return;
+
+        if (payload.action === 'remove') {
+          setActiveQuiz(null);
+          setRemovedFromRoom(true);
+        } else if (payload.action === 'rename') {
+          renameUser(payload.newName);
+          toast.info(`Your teacher changed your name to ${payload.newName}`);
+        }
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ name: user.name, joinedAt: Date.now(), deviceId: getDeviceId() });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomCode, user, renameUser]);
+
+  const setAnswerQueue = useCallback((queue: QueuedAnswer[], offline: boolean) => {
+    answerQueueRef.current = queue;
+    answersOfflineRef.current = offline && queue.length > 0;
+    setAnswerSync({ pending: queue.length, offline: answersOfflineRef.current });
+    if (queue.length === 0) {
+      syncWaitersRef.current.forEach(resolve => resolve());
+      syncWaitersRef.current = [];
+    }
+  }, []);
+
+  // Send queued answers one at a time, in the order they were given. A lost
+  // connection stops the run and tries again later, backing off each time;
+  // whoever is waiting on an answer that didn't go through grades it locally.
+  const sendQueuedAnswers = useCallback(async () => {
+    if (sendingAnswersRef.current) return;
+    sendingAnswersRef.current = true;
+    clearTimeout(retryTimeoutRef.current);
 
-  // Fetch student answers for active quiz with real student names
-  const fetchStudentAnswers = async (quizId: string) => {
     try {
-      const { data: answers, error } = await supabase
-        .from('student_answers')
-        .select(`
-          *,
-          students!student_answers_student_id_fkey (
-            name
-          )
-        `)
-        .eq('quiz_id', quizId);
-      
-      if (error) {
-        console.error('Error fetching student answers:', error);
-        return;
-      }
+      while (answerQueueRef.current.length > 0) {
+        const [entry, ...rest] = answerQueueRef.current;
+        const delivery = await submitAnswerService(entry.answer, entry.key);
 
-      if (answers) {
-        const formattedAnswers: StudentAnswer[] = answers.map(answer => ({
-          studentId: answer.student_id,
-          studentName: answer.students?.name || `Student ${answer.student_id.substring(0, 4)}`,
-          quizId: answer.quiz_id,
-          questionId: answer.question_id,
-          selectedOption: Number(answer.selected_option),
-          timeSpent: answer.time_spent || 0,
-          correct: answer.is_correct
-        }));
-        
-        setStudentAnswers(formattedAnswers);
-        console.log("Fetched student answers with real names:", formattedAnswers);
+        if (delivery.status === 'unsent') {
+          const retry = { ...entry, attempts: entry.attempts + 1 };
+          setAnswerQueue([retry, ...rest], true);
+          saveQueuedAnswer(retry).catch(error => console.error("Error saving queued answer:", error));
+          deliveryWaitersRef.current.forEach(resolve => resolve(delivery));
+          deliveryWaitersRef.current.clear();
+          retryTimeoutRef.current = setTimeout(() => sendQueuedAnswers(), getRetryDelay(entry.attempts));
+          return;
+        }
+
+        setAnswerQueue(answerQueueRef.current.filter(queued => queued.key !== entry.key), false);
+        removeQueuedAnswer(entry.key).catch(error => console.error("Error removing queued answer:", error));
+        deliveryWaitersRef.current.get(entry.key)?.(delivery);
+        deliveryWaitersRef.current.delete(entry.key);
       }
-    } catch (error) {
-      console.error('Error in fetchStudentAnswers:', error);
+    } finally {
+      sendingAnswersRef.current = false;
     }
-  };
+  }, [setAnswerQueue]);
 
-  // Poll for new student answers when there's an active quiz
+  // Students pick up answers left over from before a reload, and send
+  // whatever is queued as soon as the connection is back
   useEffect(() => {
-    if (!activeQuiz) return;
-    
-    // Initial fetch
-    fetchStudentAnswers(activeQuiz.id);
-    
-    const pollInterval = setInterval(() => {
-      console.log("Polling for new student answers...");
-      fetchStudentAnswers(activeQuiz.id);
-    }, 3000); // Poll every 3 seconds
-    
-    return () => clearInterval(pollInterval);
-  }, [activeQuiz]);
+    if (userRole !== 'student') return;
 
-  // Set up real-time subscription for student answers with student names
-  useEffect(() => {
-    if (!activeQuiz) return;
+    queueLoadedRef.current = loadQueuedAnswers()
+      .then(queued => {
+        const keys = new Set(answerQueueRef.current.map(entry => entry.key));
+        setAnswerQueue([...queued.filter(entry => !keys.has(entry.key)), ...answerQueueRef.current], false);
+        sendQueuedAnswers();
+      })
+      .catch(error => console.error("Error loading queued answers:", error));
 
-    const channel = supabase
-      .channel('student-answers-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'student_answers',
-          filter: `quiz_id=eq.${activeQuiz.id}`
-        },
-        async (payload) => {
-          console.log('New student answer received:', payload);
-          
-          // Fetch the student name for the new answer
-          const { data: studentData } = await supabase
-            .from('students')
-            .select('name')
-            .eq('id', payload.new.student_id)
-            .single();
-          
-          const newAnswer: StudentAnswer = {
-            studentId: payload.new.student_id,
-            studentName: studentData?.name || `Student ${payload.new.student_id.substring(0, 4)}`,
-            quizId: payload.new.quiz_id,
-            questionId: payload.new.question_id,
-            selectedOption: Number(payload.new.selected_option),
-            timeSpent: Number(payload.new.time_spent) || 0,
-            correct: payload.new.is_correct
-          };
-          setStudentAnswers(prev => [...prev, newAnswer]);
-        }
+    const handleOnline = () => sendQueuedAnswers();
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearTimeout(retryTimeoutRef.current);
+    };
+  }, [userRole, setAnswerQueue, sendQueuedAnswers]);
+
+  // Resolves once every queued answer has reached the server, or been turned away
+  const waitForAnswerSync = useCallback(() => {
+    if (answerQueueRef.current.length === 0) return Promise.resolve();
+
+    sendQueuedAnswers();
+    return new Promise<void>(resolve => syncWaitersRef.current.push(resolve));
+  }, [sendQueuedAnswers]);
+
+  // What the student saved in a session, plus answers still queued on this
+  // device, so picking the quiz back up doesn't ask them again
+  const fetchStudentProgress = useCallback(async (sessionId: string, studentName: string) => {
+    const [progress] = await Promise.all([fetchStudentProgressService(sessionId, studentName), queueLoadedRef.current]);
+    if (!progress) return null;
+
+    const queuedAnswers: StudentAnswer[] = answerQueueRef.current
+      .filter(({ answer }) =>
+        answer.sessionId === sessionId &&
+        answer.studentName === studentName &&
+        !progress.answers.some(saved => saved.questionId === answer.questionId)
       )
-      .subscribe();
+      .map(({ answer, grade }) => ({ ...answer, ...grade }));
+    return { ...progress, answers: [...progress.answers, ...queuedAnswers] };
+  }, []);
 
-    return () => {
-      supabase.removeChannel(channel);
+  // A phone that was locked may have missed the teacher moving the class on,
+  // pausing or adding time. Catch up with the live quiz when the page is back.
+  const liveQuizId = activeQuiz && !activeQuiz.homework ? activeQuiz.id : undefined;
+  const liveTeacherPaced = activeQuiz?.paceMode === 'teacher';
+  useEffect(() => {
+    if (userRole !== 'student' || !liveQuizId) return;
+
+    const handleVisibilityChange = async () => {
+      if (document.visibilityState !== 'visible') return;
+
+      const liveState = await fetchLiveState(liveQuizId);
+      if (!liveState) return;
+      setLiveClock(liveState.clock);
+      if (liveTeacherPaced) {
+        setLiveCursor(liveState.cursor);
+      }
     };
-  }, [activeQuiz]);
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [userRole, liveQuizId, liveTeacherPaced]);
 
   const loadQuizzes = async () => {
     if (!user) return;
     
     setLoading(true);
     try {
+      // Rooms with a lobby open or a quiz running come back with them
       const quizzesData = await fetchQuizzes(user.id);
       setQuizzes(quizzesData);
-      
-      const activeQuiz = quizzesData.find(quiz => quiz.isActive);
-      if (activeQuiz) {
-        setActiveQuiz(activeQuiz);
-        setRoomCode(activeQuiz.roomCode || null);
-      }
     } finally {
       setLoading(false);
     }
@@ -263,8 +448,9 @@ export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     setLoading(true);
     try {
-      const resultsData = await fetchResults();
+      const [resultsData, sessionsData] = await Promise.all([fetchResults(), fetchSessions(user.id)]);
       setResults(resultsData);
+      setSessions(sessionsData);
     } finally {
       setLoading(false);
     }
@@ -296,36 +482,57 @@ export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const openLobby = async (quizId: string) => {
+    const quizToOpen = quizzes.find((quiz) => quiz.id === quizId);
+    if (!quizToOpen) return;
+
+    setLoading(true);
+    try {
+      const session = await openLobbyService(quizToOpen);
+      if (session) {
+        const sessionQuiz = { ...quizToOpen, roomCode: session.roomCode, sessionId: session.id, lobbyOpen: true };
+        setQuizzes(prev => prev.map(quiz => (quiz.id === quizId ? sessionQuiz : quiz)));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeLobby = async (quizId: string) => {
+    const lobbyQuiz = quizzes.find((quiz) => quiz.id === quizId);
+    if (!lobbyQuiz?.lobbyOpen) return;
+
+    const success = await closeLobbyService(lobbyQuiz.id, lobbyQuiz.sessionId);
+    if (success) {
+      setQuizzes(prev => prev.map(quiz => (quiz.id === quizId ? { ...quiz, lobbyOpen: false } : quiz)));
+    }
+  };
+
   const launchQuiz = async (quizId: string) => {
     const quizToLaunch = quizzes.find((quiz) => quiz.id === quizId);
     if (!quizToLaunch) return;
     
     setLoading(true);
     try {
-      const success = await launchQuizService(quizId);
+      const success = await launchQuizService(quizId, quizToLaunch.sessionId);
       if (success) {
-        setRoomCode(quizToLaunch.roomCode || null);
-        setActiveQuiz(quizToLaunch);
-        setCurrentQuestion(0);
-        setStudentAnswers([]);
-        fetchStudentAnswers(quizId);
+        setQuizzes(prev => prev.map(quiz => (quiz.id === quizId ? { ...quiz, isActive: true, lobbyOpen: false } : quiz)));
       }
     } finally {
       setLoading(false);
     }
   };
 
-  const endQuiz = async () => {
-    if (!activeQuiz) return;
+  // Ends one room's quiz; the teacher's other rooms carry on
+  const endQuiz = async (quizId: string) => {
+    const quizToEnd = quizzes.find((quiz) => quiz.id === quizId);
+    if (!quizToEnd?.isActive) return;
     
     setLoading(true);
     try {
-      const success = await endQuizService(activeQuiz.id);
+      const success = await endQuizService(quizId, quizToEnd.sessionId);
       if (success) {
-        setActiveQuiz(null);
-        setCurrentQuestion(0);
-        setStudentAnswers([]);
-        setRoomCode(null);
+        setQuizzes(prev => prev.map(quiz => (quiz.id === quizId ? { ...quiz, isActive: false } : quiz)));
         loadResults();
       }
     } finally {
@@ -333,32 +540,88 @@ export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const submitAnswer = async (answer: Omit<StudentAnswer, "correct">): Promise<boolean> => {
+  const scheduleQuiz = async (quizId: string, schedule: QuizSchedule | null) => {
+    const success = await scheduleQuizService(quizId, schedule);
+    if (success) {
+      setQuizzes(prev => prev.map(quiz => (
+        quiz.id === quizId
+          ? { ...quiz, schedule: schedule ? { ...schedule, launchedAt: undefined, closedAt: undefined } : undefined }
+          : quiz
+      )));
+    }
+    return success;
+  };
+
+  const assignHomework = async (quizId: string, homework: HomeworkSettings) => {
+    const quizToAssign = quizzes.find((quiz) => quiz.id === quizId);
+    if (!quizToAssign) return false;
+
+    const session = await assignHomeworkService(quizToAssign, homework);
+    if (session) {
+      setSessions(prev => [...prev, session]);
+    }
+    return !!session;
+  };
+
+  const closeHomework = async (sessionId: string) => {
+    const endedAt = await closeHomeworkService(sessionId);
+    if (endedAt) {
+      setSessions(prev => prev.map(session => (session.id === sessionId ? { ...session, endedAt } : session)));
+    }
+  };
+
+  const submitAnswer = async (answer: Omit<StudentAnswer, "correct" | "credit" | "points">): Promise<AnswerGrade> => {
     try {
-      const isCorrect = await submitAnswerService(answer);
-      
-      const fullAnswer: StudentAnswer = {
-        ...answer,
-        correct: isCorrect
+      // Graded here as well, for when the server can't be reached
+      const question = activeQuiz?.questions.find(q => q.id === answer.questionId);
+      const localGrade = question ? gradeAnswer(question, answer) : { correct: false, credit: 0, points: 0 };
+      const entry: QueuedAnswer = {
+        key: getAnswerKey(user?.id ?? answer.studentId, answer),
+        answer,
+        grade: localGrade,
+        attempts: 0,
+        queuedAt: Date.now()
       };
+
+      // Kept on the device before it's sent, so it survives a reload mid-send
+      await saveQueuedAnswer(entry).catch(error => console.error("Error saving queued answer:", error));
+      const delivered = new Promise<AnswerDelivery>(resolve => deliveryWaitersRef.current.set(entry.key, resolve));
+      setAnswerQueue(
+        [...answerQueueRef.current.filter(queued => queued.key !== entry.key), entry],
+        answersOfflineRef.current
+      );
+      sendQueuedAnswers();
+
+      const delivery = await delivered;
+      const grade = delivery.status === 'saved'
+        ? delivery.grade
+        : delivery.status === 'unsent'
+          ? localGrade
+          : { correct: false, credit: 0, points: 0 };
       
-      setStudentAnswers(prev => [...prev, fullAnswer]);
-      console.log("Added new student answer to state:", fullAnswer);
-      return isCorrect;
+      return grade;
     } catch (error) {
       console.error("Error in submitAnswer:", error);
-      return false;
+      return { correct: false, credit: 0, points: 0 };
     }
   };
 
-  const submitQuizResult = async (result: QuizResult): Promise<void> => {
+  const submitQuizResult = useCallback(async (result: QuizResult): Promise<QuizResult> => {
     try {
       const updatedResult = await submitQuizResultService(result);
       setResults(prev => [...prev, updatedResult]);
+      return updatedResult;
     } catch (error) {
       console.error("Error in submitQuizResult:", error);
       throw error;
     }
+  }, []);
+
+  const addAcceptedAnswer = async (questionId: string, answer: string): Promise<void> => {
+    const success = await addAcceptedAnswerService(questionId, answer);
+    if (success) {
+      await Promise.all([loadQuizzes(), loadResults()]);
+    }
   };
 
   return (
@@ -368,14 +631,31 @@ export const QuizProvider: React.FC<{ children: React.ReactNode }> = ({ children
         createQuiz,
         deleteQuiz,
         activeQuiz,
+        liveQuizzes,
         launchQuiz,
+        openLobby,
+        closeLobby,
+        participants,
+        removedFromRoom,
         endQuiz,
+        scheduleQuiz,
         currentQuestion,
         setCurrentQuestion,
+        liveCursor,
+        liveClock,
+        startQuestion,
         submitAnswer,
-        studentAnswers,
+        answerSync,
+        waitForAnswerSync,
+        fetchStudentProgress,
         results,
+        sessions,
+        assignHomework,
+        closeHomework,
+        fetchHomeworkProgress,
         submitQuizResult,
+        fetchLeaderboard,
+        addAcceptedAnswer,
         loading
       }}
     >
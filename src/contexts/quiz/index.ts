@@ -1,3 +1,5 @@
 
 export { QuizProvider } from './QuizProvider';
 export { useQuiz } from './useQuiz';
+export { LiveRoomProvider } from './LiveRoomProvider';
+export { useLiveRoom } from './useLiveRoom';
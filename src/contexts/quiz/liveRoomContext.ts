@@ -0,0 +1,5 @@
+
+import { createContext } from "react";
+import { LiveRoomContextType } from "@/types/quiz";
+
+export const LiveRoomContext = createContext<LiveRoomContextType | undefined>(undefined);
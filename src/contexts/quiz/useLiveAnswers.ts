@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { Quiz, StudentAnswer, TeamMember } from "@/types/quiz";
+import { fetchLiveAnswers, fetchStudentNames, fetchTeamMembers, formatAnswer } from "@/services/quizService";
+import { AnswerStore, addToAnswerStore, getStoredAnswers, renameInAnswerStore } from "@/utils/answerStore";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+// The answers, and in team mode the teams, for a quiz the teacher is running,
+// from a single Realtime channel. Each student's name is looked up once.
+// Every time the channel (re)connects, the answers saved since the last one
+// seen are fetched, so nothing is lost while it was down.
+export const useLiveAnswers = (quiz: Quiz | null) => {
+  const [answerStore, setAnswerStore] = useState<AnswerStore>(new Map());
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const namesRef = useRef(new Map<string, string>());
+  const quizId = quiz?.id;
+  const sessionId = quiz?.sessionId;
+  const teamMode = !!quiz?.teams?.length;
+
+  useEffect(() => {
+    setAnswerStore(new Map());
+    setTeamMembers([]);
+    if (!quizId) return;
+
+    let cancelled = false;
+    // When the newest answer so far was saved; caught up from there on reconnect
+    let lastSavedAt: number | undefined;
+
+    const addAnswers = (answers: StudentAnswer[]) => {
+      if (cancelled || answers.length === 0) return;
+      answers.forEach(answer => namesRef.current.set(answer.studentId, answer.studentName));
+      lastSavedAt = Math.max(lastSavedAt ?? 0, ...answers.map(answer => answer.submittedAt ?? 0));
+      setAnswerStore(store => addToAnswerStore(store, answers));
+    };
+
+    const catchUp = async () => {
+      const answers = await fetchLiveAnswers(quizId, sessionId, lastSavedAt);
+      if (answers) addAnswers(answers);
+      if (teamMode && !cancelled) {
+        fetchTeamMembers(quizId).then(members => !cancelled && setTeamMembers(members));
+      }
+    };
+
+    const channel = supabase
+      .channel(`live-answers-${quizId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'student_answers', filter: `quiz_id=eq.${quizId}` },
+        async (payload) => {
+          const row = payload.new as Tables<'student_answers'>;
+          // Homework on the same quiz can be coming in at the same time
+          if (sessionId && row.session_id !== sessionId) return;
+
+          let name = namesRef.current.get(row.student_id);
+          if (!name) {
+            name = (await fetchStudentNames([row.student_id])).get(row.student_id)
+              || `Student ${row.student_id.substring(0, 4)}`;
+          }
+          addAnswers([formatAnswer(row, name)]);
+        }
+      );
+
+    if (teamMode) {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'team_members', filter: `quiz_id=eq.${quizId}` },
+        () => {
+          fetchTeamMembers(quizId).then(members => !cancelled && setTeamMembers(members));
+        }
+      );
+    }
+
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        catchUp();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [quizId, sessionId, teamMode]);
+
+  const studentAnswers = useMemo(() => getStoredAnswers(answerStore), [answerStore]);
+
+  // Keep answers already shown under a student's new name
+  const renameStudent = useCallback((oldName: string, newName: string) => {
+    namesRef.current.forEach((name, studentId) => {
+      if (name === oldName) namesRef.current.set(studentId, newName);
+    });
+    setAnswerStore(store => renameInAnswerStore(store, oldName, newName));
+  }, []);
+
+  return { studentAnswers, teamMembers, renameStudent };
+};
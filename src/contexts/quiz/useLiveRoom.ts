@@ -0,0 +1,11 @@
+
+import { useContext } from "react";
+import { LiveRoomContext } from "./liveRoomContext";
+
+export const useLiveRoom = () => {
+  const context = useContext(LiveRoomContext);
+  if (context === undefined) {
+    throw new Error("useLiveRoom must be used within a LiveRoomProvider");
+  }
+  return context;
+};
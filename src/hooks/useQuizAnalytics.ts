@@ -21,25 +21,31 @@ export const useQuizAnalytics = (
     return generateDetailedReport(quiz, quizResults);
   }, [quiz, results]);
 
+  // Polls and other ungraded questions have no difficulty or wrong answers
+  const gradedQuestions = useMemo(
+    () => (analytics ? analytics.questions.filter(question => question.graded) : []),
+    [analytics]
+  );
+
   const questionDifficultyDistribution = useMemo(() => {
     if (!analytics) return { easy: 0, medium: 0, hard: 0, veryHard: 0 };
     
-    return analytics.questions.reduce((acc, question) => {
+    return gradedQuestions.reduce((acc, question) => {
       if (question.difficultyScore >= 80) acc.easy++;
       else if (question.difficultyScore >= 60) acc.medium++;
       else if (question.difficultyScore >= 40) acc.hard++;
       else acc.veryHard++;
       return acc;
     }, { easy: 0, medium: 0, hard: 0, veryHard: 0 });
-  }, [analytics]);
+  }, [analytics, gradedQuestions]);
 
   const mostMissedQuestions = useMemo(() => {
     if (!analytics) return [];
     
-    return [...analytics.questions]
+    return [...gradedQuestions]
       .sort((a, b) => a.difficultyScore - b.difficultyScore)
       .slice(0, 5);
-  }, [analytics]);
+  }, [analytics, gradedQuestions]);
 
   const commonMisconceptions = useMemo(() => {
     if (!analytics) return [];
@@ -51,7 +57,7 @@ export const useQuizAnalytics = (
       percentage: number;
     }> = [];
 
-    analytics.questions.forEach(question => {
+    gradedQuestions.forEach(question => {
       const wrongOptions = question.optionDistribution.filter(
         option => !option.isCorrect && option.count > 0
       );
@@ -64,12 +70,34 @@ export const useQuizAnalytics = (
           percentage: option.percentage
         });
       });
+
+      question.wrongAnswers
+        ?.filter(wrong => wrong.answer !== "Other")
+        .forEach(wrong => {
+          misconceptions.push({
+            questionText: question.questionText,
+            wrongOption: wrong.answer,
+            count: wrong.count,
+            percentage: wrong.percentage
+          });
+        });
+
+      question.itemBreakdown
+        ?.filter(item => item.wrongCount > 0 && item.commonMistake)
+        .forEach(item => {
+          misconceptions.push({
+            questionText: question.questionText,
+            wrongOption: `${item.label} (often: ${item.commonMistake})`,
+            count: item.wrongCount,
+            percentage: item.percentageWrong
+          });
+        });
     });
 
     return misconceptions
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
-  }, [analytics]);
+  }, [analytics, gradedQuestions]);
 
   return {
     analytics,
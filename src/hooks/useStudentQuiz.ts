@@ -1,30 +1,65 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
 import { useQuiz } from "@/contexts/quiz"; 
-import { StudentAnswer, QuizResult } from "@/types/quiz";
+import { StudentAnswer, QuizResult, AnswerFeedback, QuestionTiming } from "@/types/quiz";
+import { getAnswerPoints, getMaxScore } from "@/utils/questionGrading";
+import { getQuestionTimeLimit, getSecondsUntil } from "@/utils/quizTiming";
+import { getScoringStrategy } from "@/utils/scoringStrategies";
+import { arrangeQuizForStudent, toCanonicalResponse } from "@/utils/quizArrangement";
+import { getQuestionTypeDefinition, QuestionResponse } from "@/questionTypes";
 
 export const useStudentQuiz = () => {
-  const { user } = useAuth();
+  const { user, setRoomCode } = useAuth();
   const navigate = useNavigate();
   const { 
-    activeQuiz, 
+    activeQuiz: sourceQuiz, 
     currentQuestion, 
     setCurrentQuestion, 
     submitAnswer, 
-    submitQuizResult
+    submitQuizResult,
+    waitForAnswerSync,
+    startQuestion,
+    fetchStudentProgress,
+    liveCursor,
+    liveClock,
+    removedFromRoom
   } = useQuiz();
+  const isTeacherPaced = sourceQuiz?.paceMode === "teacher";
+  const paused = !!liveClock?.pausedAt;
+
+  // The quiz in the order this student sees it. Seeded by student so a
+  // refresh doesn't reshuffle; answers are mapped back before grading.
+  const userId = user?.id;
+  const arrangement = useMemo(
+    () => (sourceQuiz && userId ? arrangeQuizForStudent(sourceQuiz, userId) : null),
+    [sourceQuiz, userId]
+  );
+  const activeQuiz = arrangement?.quiz ?? sourceQuiz;
   
-  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [response, setResponse] = useState<QuestionResponse>({});
   const [timeLeft, setTimeLeft] = useState<number>(0);
   const [questionStartTime, setQuestionStartTime] = useState<number>(Date.now());
+  // The server's clock on the current question; null while it's being fetched
+  const [timing, setTiming] = useState<QuestionTiming | null>(null);
   const [answers, setAnswers] = useState<StudentAnswer[]>([]);
   const [quizCompleted, setQuizCompleted] = useState(false);
   const [score, setScore] = useState(0);
+  // Set when homework was handed in after it was due
+  const [submittedLate, setSubmittedLate] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Graded answer the student is looking at before moving on, in "immediate" feedback mode
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null);
   const [loading, setLoading] = useState(false);
+  // Set while picking the quiz back up from what the student already saved
+  const [restoring, setRestoring] = useState(false);
+  // Lets the restore hand in a quiz whose answers were all saved before the
+  // student dropped out
+  const finishQuizRef = useRef<(allAnswers: StudentAnswer[]) => Promise<void>>();
+  // Set while the result is being handed in, so it only goes in once
+  const finishingRef = useRef(false);
   const [error, setError] = useState<string | null>(null);
 
   // Redirect non-students
@@ -34,7 +69,23 @@ export const useStudentQuiz = () => {
     }
   }, [user, navigate]);
 
-  // Initialize quiz state when active quiz changes
+  // A student the teacher removed goes back to the join page, told why
+  useEffect(() => {
+    if (!removedFromRoom) return;
+
+    localStorage.removeItem("quizRoomCode");
+    localStorage.removeItem("quizTeamId");
+    localStorage.removeItem("studentId");
+    setRoomCode(null);
+    navigate("/join", {
+      replace: true,
+      state: { notice: "Your teacher removed you from the quiz." }
+    });
+  }, [removedFromRoom, setRoomCode, navigate]);
+
+  // Initialize quiz state when active quiz changes, then pick up where the
+  // student left off if they reloaded or dropped out part way through
+  const userName = user?.name;
   useEffect(() => {
     console.log("Student Quiz - Active quiz changed:", activeQuiz);
     if (activeQuiz) {
@@ -52,23 +103,175 @@ export const useStudentQuiz = () => {
       }
       
       setError(null);
-      setSelectedOption(null);
       setCurrentQuestion(0);
       setQuestionStartTime(Date.now());
-      setTimeLeft(activeQuiz.timePerQuestion);
+      setTimeLeft(getQuestionTimeLimit(activeQuiz, activeQuiz.questions[0]));
       setAnswers([]);
       setQuizCompleted(false);
+      setFeedback(null);
       setScore(0);
+      setSubmittedLate(false);
+      finishingRef.current = false;
       setLoading(false);
       console.log("Student quiz initialized successfully");
     } else {
       setLoading(true);
+      return;
     }
-  }, [activeQuiz, setCurrentQuestion]);
+
+    const sessionId = activeQuiz.sessionId;
+    if (!sessionId || !userName) return;
+
+    let cancelled = false;
+    setRestoring(true);
+    fetchStudentProgress(sessionId, userName).then(progress => {
+      if (cancelled) return;
+      setRestoring(false);
+      if (!progress || progress.answers.length === 0) return;
+
+      // Only answers to questions this student was asked count
+      const restoredAnswers = progress.answers.filter(answer =>
+        activeQuiz.questions.some(question => question.id === answer.questionId)
+      );
+      setAnswers(restoredAnswers);
+      setScore(restoredAnswers.reduce((sum, answer) => sum + getAnswerPoints(answer), 0));
+
+      if (progress.result) {
+        setScore(progress.result.score);
+        setSubmittedLate(!!progress.result.submittedLate);
+        setQuizCompleted(true);
+        return;
+      }
+
+      // Teacher-paced quizzes go wherever the teacher's cursor is instead
+      const nextQuestion = activeQuiz.questions.findIndex(question =>
+        !restoredAnswers.some(answer => answer.questionId === question.id)
+      );
+      if (nextQuestion === -1) {
+        finishQuizRef.current?.(restoredAnswers);
+      } else if (activeQuiz.paceMode !== "teacher") {
+        setCurrentQuestion(nextQuestion);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      setRestoring(false);
+    };
+  }, [activeQuiz, userName, setCurrentQuestion, fetchStudentProgress]);
+
+  const finishQuiz = useCallback(async (allAnswers: StudentAnswer[]) => {
+    if (!activeQuiz || !user || finishingRef.current) return;
+    finishingRef.current = true;
+    
+    try {
+      // Hand the quiz in only once every answer has reached the server, and
+      // score what the server kept: an answer turned away after it was
+      // queued doesn't count, whatever it was graded here
+      await waitForAnswerSync();
+      const progress = activeQuiz.sessionId ? await fetchStudentProgress(activeQuiz.sessionId, user.name) : null;
+      const gradedAnswers = progress
+        ? progress.answers.filter(answer => activeQuiz.questions.some(question => question.id === answer.questionId))
+        : allAnswers;
+
+      const result: QuizResult = {
+        studentId: user.id,
+        studentName: user.name,
+        quizId: activeQuiz.id,
+        score: gradedAnswers.reduce((sum, a) => sum + getAnswerPoints(a), 0),
+        totalQuestions: activeQuiz.questions.length,
+        maxScore: getMaxScore(activeQuiz.questions),
+        points: getScoringStrategy(activeQuiz).scoreAnswers(activeQuiz, gradedAnswers),
+        teamId: localStorage.getItem("quizTeamId") || undefined, // Set when joining a team quiz
+        sessionId: activeQuiz.sessionId,
+        answers: gradedAnswers
+      };
+
+      console.log("Finishing quiz with result:", result);
+      // Late homework may come back with a penalty taken off
+      const savedResult = await submitQuizResult(result);
+      setAnswers(gradedAnswers);
+      setScore(savedResult.score);
+      setSubmittedLate(!!savedResult.submittedLate);
+      setQuizCompleted(true);
+      toast.success("Quiz completed successfully!");
+    } catch (error) {
+      console.error("Error submitting quiz result:", error);
+      toast.error("Failed to submit quiz. Please try again.");
+      finishingRef.current = false;
+    }
+  }, [activeQuiz, user, waitForAnswerSync, fetchStudentProgress, submitQuizResult]);
+
+  finishQuizRef.current = finishQuiz;
+
+  // Teacher-paced quizzes follow the teacher's cursor instead of moving on by
+  // themselves; it runs past the last question once the teacher finishes
+  const pastLastQuestion = !!liveCursor && !!activeQuiz && liveCursor.questionIndex >= activeQuiz.questions.length;
+  useEffect(() => {
+    if (!isTeacherPaced || !liveCursor || pastLastQuestion || quizCompleted || isSubmitting) return;
+
+    setCurrentQuestion(liveCursor.questionIndex);
+    setFeedback(null);
+  }, [isTeacherPaced, liveCursor, pastLastQuestion, quizCompleted, isSubmitting, setCurrentQuestion]);
+
+  useEffect(() => {
+    if (!isTeacherPaced || !pastLastQuestion || quizCompleted || isSubmitting) return;
+
+    finishQuiz(answers);
+  }, [isTeacherPaced, pastLastQuestion, quizCompleted, isSubmitting, answers, finishQuiz]);
+
+  // Once the teacher reveals the answer, show it whether or not this student answered
+  useEffect(() => {
+    if (!isTeacherPaced || !liveCursor?.revealed || !activeQuiz) return;
+
+    const currentQ = activeQuiz.questions[liveCursor.questionIndex];
+    if (!currentQ) return;
+
+    const question = sourceQuiz?.questions.find(q => q.id === currentQ.id) || currentQ;
+    setFeedback({ question, answer: answers.find(a => a.questionId === currentQ.id) });
+  }, [isTeacherPaced, liveCursor, activeQuiz, sourceQuiz, answers]);
+
+  // In a teacher-paced quiz a student answers once, then waits for the class to move on
+  const currentQuestionId = activeQuiz?.questions?.[currentQuestion]?.id;
+  const awaitingTeacher = isTeacherPaced && answers.some(a => a.questionId === currentQuestionId);
+
+  // Each question starts from whatever blank answer its type calls for,
+  // with a full clock for its own time limit
+  useEffect(() => {
+    const question = activeQuiz?.questions?.[currentQuestion];
+    if (!question) return;
+
+    setResponse(getQuestionTypeDefinition(question.type).initialResponse(question));
+    setTimeLeft(getQuestionTimeLimit(activeQuiz, question));
+  }, [activeQuiz, currentQuestion]);
+
+  // The server decides when a question started and when time is up. Asked
+  // again whenever the teacher pauses, resumes or adds time, since those all
+  // move the deadline.
+  const quizId = activeQuiz?.id;
+  const sessionId = activeQuiz?.sessionId;
+  const currentTimeLimit = activeQuiz ? getQuestionTimeLimit(activeQuiz, activeQuiz.questions?.[currentQuestion]) : 0;
+  useEffect(() => {
+    if (!quizId || !currentQuestionId || !userName || quizCompleted || restoring) return;
+
+    let cancelled = false;
+    setTiming(null);
+    startQuestion(quizId, currentQuestionId, userName, sessionId).then(serverTiming => {
+      if (cancelled) return;
+      // Fall back to this device's clock so the quiz can still go on; the
+      // server has the final say when the answer comes in
+      const now = Date.now();
+      setTiming(serverTiming ?? { startedAt: now, deadline: now + currentTimeLimit * 1000 });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quizId, sessionId, currentQuestionId, userName, quizCompleted, restoring, liveClock, currentTimeLimit, startQuestion]);
 
   // Timer for quiz questions
   useEffect(() => {
-    if (!activeQuiz || quizCompleted || error) return;
+    if (!activeQuiz || quizCompleted || error || feedback || awaitingTeacher) return;
 
     // Validate current question exists
     if (!activeQuiz.questions || !activeQuiz.questions[currentQuestion]) {
@@ -77,9 +280,11 @@ export const useStudentQuiz = () => {
       return;
     }
 
+    // The clock stands still while paused or waiting on the server's deadline
+    if (paused || !timing || restoring) return;
+
     const timer = setInterval(() => {
-      const elapsedSeconds = Math.floor((Date.now() - questionStartTime) / 1000);
-      const remaining = Math.max(0, activeQuiz.timePerQuestion - elapsedSeconds);
+      const remaining = getSecondsUntil(timing.deadline);
       
       setTimeLeft(remaining);
       
@@ -89,14 +294,27 @@ export const useStudentQuiz = () => {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [activeQuiz, questionStartTime, currentQuestion, quizCompleted, isSubmitting, error]);
+  }, [activeQuiz, timing, currentQuestion, quizCompleted, isSubmitting, error, feedback, awaitingTeacher, paused, restoring]);
+
+  const handleResponseChange = (update: QuestionResponse) => {
+    setResponse(prev => ({ ...prev, ...update }));
+  };
 
-  const handleAnswer = (optionIndex: number) => {
-    setSelectedOption(optionIndex);
+  const goToNextQuestion = async (allAnswers: StudentAnswer[]) => {
+    if (!activeQuiz) return;
+
+    if (currentQuestion < activeQuiz.questions.length - 1) {
+      setCurrentQuestion(prev => prev + 1);
+      setQuestionStartTime(Date.now());
+      console.log("Moving to next question:", currentQuestion + 1);
+    } else {
+      console.log("Quiz completed, submitting final result");
+      await finishQuiz(allAnswers);
+    }
   };
 
   const handleNextQuestion = async () => {
-    if (!activeQuiz || !user || isSubmitting) {
+    if (!activeQuiz || !user || isSubmitting || feedback || awaitingTeacher || paused) {
       console.log("Cannot proceed with question:", { activeQuiz: !!activeQuiz, user: !!user, isSubmitting });
       return;
     }
@@ -109,49 +327,57 @@ export const useStudentQuiz = () => {
       return;
     }
     
+    const currentQ = activeQuiz.questions[currentQuestion];
+
+    // Each question is answered once, even after a reload
+    if (answers.some(a => a.questionId === currentQ.id)) {
+      if (!isTeacherPaced) await goToNextQuestion(answers);
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
     
-    const currentQ = activeQuiz.questions[currentQuestion];
     console.log("Submitting answer for question:", currentQ.id);
     
-    const timeSpent = Math.min(
-      activeQuiz.timePerQuestion,
-      Math.floor((Date.now() - questionStartTime) / 1000)
-    );
+    // Only an estimate; the server measures time spent when it saves the answer
+    const timeSpent = Math.max(0, Math.round((Date.now() - (timing?.startedAt ?? questionStartTime)) / 1000));
     
-    const answer: Omit<StudentAnswer, "correct"> = {
+    const optionOrder = arrangement?.optionOrders[currentQ.id];
+    const canonicalResponse = toCanonicalResponse(response, optionOrder);
+    const answer: Omit<StudentAnswer, "correct" | "credit" | "points"> = {
       studentId: user.id,
       studentName: user.name,
       quizId: activeQuiz.id,
       questionId: currentQ.id,
-      selectedOption: selectedOption !== null ? selectedOption : -1,
-      timeSpent
+      ...canonicalResponse,
+      selectedOption: canonicalResponse.selectedOption ?? -1,
+      optionOrder,
+      timeSpent,
+      sessionId: activeQuiz.sessionId
     };
     
     try {
       console.log("Submitting answer:", answer);
-      const isCorrect = await submitAnswer(answer);
+      const grade = await submitAnswer(answer);
       
       const fullAnswer: StudentAnswer = {
         ...answer,
-        correct: isCorrect
+        ...grade
       };
       
       setAnswers(prev => [...prev, fullAnswer]);
+      setScore(prev => prev + grade.points);
       
-      if (isCorrect) {
-        setScore(prev => prev + 1);
-      }
-      
-      if (currentQuestion < activeQuiz.questions.length - 1) {
-        setCurrentQuestion(prev => prev + 1);
-        setSelectedOption(null);
-        setQuestionStartTime(Date.now());
-        console.log("Moving to next question:", currentQuestion + 1);
+      // The teacher decides when to reveal the answer and move on
+      if (isTeacherPaced) return;
+
+      // Hold on this question until the student has read the explanation
+      if (activeQuiz.feedbackMode === "immediate") {
+        const question = sourceQuiz?.questions.find(q => q.id === currentQ.id) || currentQ;
+        setFeedback({ question, answer: fullAnswer });
       } else {
-        console.log("Quiz completed, submitting final result");
-        await finishQuiz(fullAnswer);
+        await goToNextQuestion([...answers, fullAnswer]);
       }
     } catch (error) {
       console.error("Error submitting answer:", error);
@@ -162,44 +388,40 @@ export const useStudentQuiz = () => {
     }
   };
 
-  const finishQuiz = async (lastAnswer: StudentAnswer) => {
-    if (!activeQuiz || !user) return;
-    
-    const allAnswers = [...answers, lastAnswer];
-    
-    const result: QuizResult = {
-      studentId: user.id,
-      studentName: user.name,
-      quizId: activeQuiz.id,
-      score: allAnswers.filter(a => a.correct).length,
-      totalQuestions: activeQuiz.questions.length,
-      answers: allAnswers
-    };
-    
+  const handleContinue = async () => {
+    if (!feedback || isSubmitting || paused) return;
+
+    setIsSubmitting(true);
     try {
-      console.log("Finishing quiz with result:", result);
-      await submitQuizResult(result);
-      setQuizCompleted(true);
-      toast.success("Quiz completed successfully!");
-    } catch (error) {
-      console.error("Error submitting quiz result:", error);
-      toast.error("Failed to submit quiz. Please try again.");
+      setFeedback(null);
+      await goToNextQuestion(answers);
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
   return {
     user,
     activeQuiz,
+    sourceQuiz,
     currentQuestion,
-    selectedOption,
+    response,
+    answers,
+    feedback,
+    isTeacherPaced,
+    awaitingTeacher,
+    paused,
     timeLeft,
     quizCompleted,
     score,
+    submittedLate,
     isSubmitting,
     loading,
+    restoring,
     error,
-    handleAnswer,
-    handleNextQuestion
+    handleResponseChange,
+    handleNextQuestion,
+    handleContinue
   };
 };
 
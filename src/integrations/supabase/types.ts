@@ -9,32 +9,151 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      question_attempts: {
+        Row: {
+          extra_seconds_at_start: number
+          paused_seconds_at_start: number
+          question_id: string
+          quiz_id: string
+          session_id: string
+          started_at: string
+          student_id: string
+        }
+        Insert: {
+          extra_seconds_at_start?: number
+          paused_seconds_at_start?: number
+          question_id: string
+          quiz_id: string
+          session_id: string
+          started_at?: string
+          student_id: string
+        }
+        Update: {
+          extra_seconds_at_start?: number
+          paused_seconds_at_start?: number
+          question_id?: string
+          quiz_id?: string
+          session_id?: string
+          started_at?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_attempts_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_attempts_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_attempts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_question_pools: {
+        Row: {
+          draw_count: number
+          id: string
+          name: string
+          quiz_id: string
+        }
+        Insert: {
+          draw_count: number
+          id?: string
+          name: string
+          quiz_id: string
+        }
+        Update: {
+          draw_count?: number
+          id?: string
+          name?: string
+          quiz_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_question_pools_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quiz_questions: {
         Row: {
-          correct_option: number
+          answer_key: Json | null
+          correct_option: number | null
+          explanation: string | null
           id: string
+          option_explanations: string[] | null
           options: Json
           order_num: number
+          penalty: number
+          points: number
+          pool_id: string | null
+          question_type: string
           quiz_id: string
           text: string
+          time_limit: number | null
         }
         Insert: {
-          correct_option: number
+          answer_key?: Json | null
+          correct_option?: number | null
+          explanation?: string | null
           id?: string
+          option_explanations?: string[] | null
           options: Json
           order_num: number
+          penalty?: number
+          points?: number
+          pool_id?: string | null
+          question_type?: string
           quiz_id: string
           text: string
+          time_limit?: number | null
         }
         Update: {
-          correct_option?: number
+          answer_key?: Json | null
+          correct_option?: number | null
+          explanation?: string | null
           id?: string
+          option_explanations?: string[] | null
           options?: Json
           order_num?: number
+          penalty?: number
+          points?: number
+          pool_id?: string | null
+          question_type?: string
           quiz_id?: string
           text?: string
+          time_limit?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "quiz_questions_pool_id_fkey"
+            columns: ["pool_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_question_pools"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quiz_questions_quiz_id_fkey"
             columns: ["quiz_id"]
@@ -48,25 +167,40 @@ export type Database = {
         Row: {
           completed_at: string
           id: string
+          max_score: number | null
+          points: number | null
           quiz_id: string
           score: number
+          session_id: string | null
           student_id: string
+          submitted_late: boolean
+          team_id: string | null
           total_questions: number
         }
         Insert: {
           completed_at?: string
           id: string
+          max_score?: number | null
+          points?: number | null
           quiz_id: string
           score: number
+          session_id?: string | null
           student_id: string
+          submitted_late?: boolean
+          team_id?: string | null
           total_questions: number
         }
         Update: {
           completed_at?: string
           id?: string
+          max_score?: number | null
+          points?: number | null
           quiz_id?: string
           score?: number
+          session_id?: string | null
           student_id?: string
+          submitted_late?: boolean
+          team_id?: string | null
           total_questions?: number
         }
         Relationships: [
@@ -84,36 +218,185 @@ export type Database = {
             referencedRelation: "students"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "quiz_results_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_sessions: {
+        Row: {
+          available_from: string | null
+          due_at: string | null
+          ended_at: string | null
+          id: string
+          late_penalty_percent: number
+          late_policy: string
+          mode: string
+          opened_at: string
+          quiz_id: string
+          room_code: string
+          settings: Json
+          started_at: string | null
+        }
+        Insert: {
+          available_from?: string | null
+          due_at?: string | null
+          ended_at?: string | null
+          id?: string
+          late_penalty_percent?: number
+          late_policy?: string
+          mode?: string
+          opened_at?: string
+          quiz_id: string
+          room_code: string
+          settings?: Json
+          started_at?: string | null
+        }
+        Update: {
+          available_from?: string | null
+          due_at?: string | null
+          ended_at?: string | null
+          id?: string
+          late_penalty_percent?: number
+          late_policy?: string
+          mode?: string
+          opened_at?: string
+          quiz_id?: string
+          room_code?: string
+          settings?: Json
+          started_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_sessions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_teams: {
+        Row: {
+          id: string
+          name: string
+          order_num: number
+          quiz_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          order_num?: number
+          quiz_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          order_num?: number
+          quiz_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_teams_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       quizzes: {
         Row: {
+          answers_revealed: boolean
+          auto_close_minutes: number | null
           created_at: string
           created_by: string
+          current_question: number
+          current_session_id: string | null
           description: string | null
+          extra_seconds: number
+          feedback_mode: string
           id: string
           is_active: boolean
+          lobby_open: boolean
+          pace_mode: string
+          paused_at: string | null
+          paused_seconds: number
+          question_started_at: string | null
           room_code: string
+          schedule_closed_at: string | null
+          schedule_launched_at: string | null
+          scheduled_end_at: string | null
+          scheduled_start_at: string | null
+          scoring: string
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          team_assignment: string
+          team_scoring: string
           time_per_question: number
           title: string
         }
         Insert: {
+          answers_revealed?: boolean
+          auto_close_minutes?: number | null
           created_at?: string
           created_by: string
+          current_question?: number
+          current_session_id?: string | null
           description?: string | null
+          extra_seconds?: number
+          feedback_mode?: string
           id?: string
           is_active?: boolean
+          lobby_open?: boolean
+          pace_mode?: string
+          paused_at?: string | null
+          paused_seconds?: number
+          question_started_at?: string | null
           room_code: string
+          schedule_closed_at?: string | null
+          schedule_launched_at?: string | null
+          scheduled_end_at?: string | null
+          scheduled_start_at?: string | null
+          scoring?: string
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          team_assignment?: string
+          team_scoring?: string
           time_per_question?: number
           title: string
         }
         Update: {
+          answers_revealed?: boolean
+          auto_close_minutes?: number | null
           created_at?: string
           created_by?: string
+          current_question?: number
+          current_session_id?: string | null
           description?: string | null
+          extra_seconds?: number
+          feedback_mode?: string
           id?: string
           is_active?: boolean
+          lobby_open?: boolean
+          pace_mode?: string
+          paused_at?: string | null
+          paused_seconds?: number
+          question_started_at?: string | null
           room_code?: string
+          schedule_closed_at?: string | null
+          schedule_launched_at?: string | null
+          scheduled_end_at?: string | null
+          scheduled_start_at?: string | null
+          scoring?: string
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          team_assignment?: string
+          team_scoring?: string
           time_per_question?: number
           title?: string
         }
@@ -127,35 +410,133 @@ export type Database = {
           },
         ]
       }
+      room_bans: {
+        Row: {
+          created_at: string
+          device_id: string | null
+          id: string
+          quiz_id: string
+          session_id: string | null
+          student_name: string | null
+        }
+        Insert: {
+          created_at?: string
+          device_id?: string | null
+          id?: string
+          quiz_id: string
+          session_id?: string | null
+          student_name?: string | null
+        }
+        Update: {
+          created_at?: string
+          device_id?: string | null
+          id?: string
+          quiz_id?: string
+          session_id?: string | null
+          student_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_bans_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_participants: {
+        Row: {
+          joined_at: string
+          session_id: string
+          student_id: string
+        }
+        Insert: {
+          joined_at?: string
+          session_id: string
+          student_id: string
+        }
+        Update: {
+          joined_at?: string
+          session_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_participants_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_participants_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       student_answers: {
         Row: {
+          client_key: string | null
+          credit: number | null
           id: string
           is_correct: boolean
+          matches: number[] | null
+          numeric_value: number | null
+          option_order: number[] | null
+          ordered_items: number[] | null
+          points: number | null
           question_id: string
           quiz_id: string
           selected_option: number
+          selected_options: number[] | null
+          session_id: string | null
           student_id: string
           submitted_at: string
+          text_value: string | null
           time_spent: number
         }
         Insert: {
+          client_key?: string | null
+          credit?: number | null
           id: string
           is_correct: boolean
+          matches?: number[] | null
+          numeric_value?: number | null
+          option_order?: number[] | null
+          ordered_items?: number[] | null
+          points?: number | null
           question_id: string
           quiz_id: string
           selected_option: number
+          selected_options?: number[] | null
+          session_id?: string | null
           student_id: string
           submitted_at?: string
+          text_value?: string | null
           time_spent: number
         }
         Update: {
+          client_key?: string | null
+          credit?: number | null
           id?: string
           is_correct?: boolean
+          matches?: number[] | null
+          numeric_value?: number | null
+          option_order?: number[] | null
+          ordered_items?: number[] | null
+          points?: number | null
           question_id?: string
           quiz_id?: string
           selected_option?: number
+          selected_options?: number[] | null
+          session_id?: string | null
           student_id?: string
           submitted_at?: string
+          text_value?: string | null
           time_spent?: number
         }
         Relationships: [
@@ -224,12 +605,83 @@ export type Database = {
         }
         Relationships: []
       }
+      team_members: {
+        Row: {
+          joined_at: string
+          quiz_id: string
+          student_id: string
+          team_id: string
+        }
+        Insert: {
+          joined_at?: string
+          quiz_id: string
+          student_id: string
+          team_id: string
+        }
+        Update: {
+          joined_at?: string
+          quiz_id?: string
+          student_id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_members_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      join_team: {
+        Args: {
+          p_quiz_id: string
+          p_student_id: string
+          p_team_id?: string
+        }
+        Returns: string
+      }
+      rename_participant: {
+        Args: {
+          p_new_name: string
+          p_old_name: string
+          p_session_id: string
+        }
+        Returns: undefined
+      }
+      start_question: {
+        Args: {
+          p_question_id: string
+          p_quiz_id: string
+          p_session_id?: string
+          p_student_id: string
+        }
+        Returns: {
+          deadline: string
+          server_now: string
+          started_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -9,6 +9,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Loader2, Sparkles, ArrowLeft, Brain, Zap } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { FeedbackMode } from '@/types/quiz';
 
 interface QuizParams {
   subject: string;
@@ -16,6 +17,7 @@ interface QuizParams {
   numQuestions: number;
   complexity: 'Easy' | 'Medium' | 'Hard';
   timePerQuestion: number;
+  feedbackMode: FeedbackMode;
   title?: string;
   description?: string;
 }
@@ -30,6 +32,7 @@ const CreateQuizAI = () => {
     numQuestions: 5,
     complexity: 'Medium',
     timePerQuestion: 30,
+    feedbackMode: 'end',
   });
 
   // Redirect if not teacher
@@ -260,21 +263,46 @@ const handleSubmit = async (e: React.FormEvent) => {
                   </div>
                 </div>
 
-                {/* Row 3: Time per question */}
-                <div className="space-y-2">
-                  <Label htmlFor="timePerQuestion" className="text-white font-medium">
-                    Time per Question (seconds)
-                  </Label>
-                  <Input
-                    id="timePerQuestion"
-                    type="number"
-                    min="10"
-                    max="300"
-                    value={formData.timePerQuestion}
-                    onChange={(e) => handleInputChange('timePerQuestion', parseInt(e.target.value) || 30)}
-                    className="bg-white/10 border-white/20 text-white focus:bg-white/20"
-                    disabled={loading}
-                  />
+                {/* Row 3: Time per question and when to show explanations */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="timePerQuestion" className="text-white font-medium">
+                      Time per Question (seconds)
+                    </Label>
+                    <Input
+                      id="timePerQuestion"
+                      type="number"
+                      min="10"
+                      max="300"
+                      value={formData.timePerQuestion}
+                      onChange={(e) => handleInputChange('timePerQuestion', parseInt(e.target.value) || 30)}
+                      className="bg-white/10 border-white/20 text-white focus:bg-white/20"
+                      disabled={loading}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-white font-medium">
+                      Show Explanations
+                    </Label>
+                    <Select
+                      value={formData.feedbackMode}
+                      onValueChange={(value: FeedbackMode) => handleInputChange('feedbackMode', value)}
+                      disabled={loading}
+                    >
+                      <SelectTrigger className="bg-white/10 border-white/20 text-white focus:bg-white/20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-600">
+                        <SelectItem value="end" className="text-white hover:bg-slate-700">
+                          When the quiz is finished
+                        </SelectItem>
+                        <SelectItem value="immediate" className="text-white hover:bg-slate-700">
+                          Right after each answer
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 {/* Optional fields */}
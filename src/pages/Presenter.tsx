@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { LiveRoomProvider, useLiveRoom, useQuiz } from "@/contexts/quiz";
+import { Progress } from "@/components/ui/progress";
+import WordCloud from "@/components/WordCloud";
+import Leaderboard from "@/components/Leaderboard";
+import { CheckCircle, Clock, Pause, Users } from "lucide-react";
+import { getAnswerKeyLabel, isCorrectOption, isGraded, usesOptions } from "@/utils/questionGrading";
+import { getQuestionTypeDefinition } from "@/questionTypes";
+import { getQuestionTimeLimit, getTimeLeft } from "@/utils/quizTiming";
+import { buildLeaderboard } from "@/utils/scoringStrategies";
+
+// What the class sees on the projector: the join code, the question and its
+// countdown, and how many have answered. Answers only show once the teacher
+// reveals them from their own device; the participant list never does.
+const Presenter = () => {
+  const { roomCode } = useParams<{ roomCode: string }>();
+  const { user } = useAuth();
+  const { liveQuizzes } = useQuiz();
+  const navigate = useNavigate();
+  const liveQuiz = liveQuizzes.find(quiz => quiz.roomCode === roomCode);
+
+  useEffect(() => {
+    if (!user || user.role !== "teacher") {
+      navigate("/");
+    }
+  }, [user, navigate]);
+
+  if (!user || user.role !== "teacher") {
+    return null;
+  }
+
+  if (!liveQuiz) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-950 text-white p-8">
+        <p className="text-3xl text-slate-400">Room {roomCode} isn't open right now.</p>
+      </div>
+    );
+  }
+
+  return (
+    <LiveRoomProvider quiz={liveQuiz}>
+      <PresenterScreen />
+    </LiveRoomProvider>
+  );
+};
+
+const PresenterScreen = () => {
+  const { quiz: liveQuiz, participants, studentAnswers, currentQuestion, liveCursor, liveClock } = useLiveRoom();
+  const [now, setNow] = useState(Date.now());
+
+  const roomCode = liveQuiz.roomCode;
+  const running = !!liveQuiz.isActive;
+  const teacherPaced = liveQuiz.paceMode === "teacher";
+  const finished = running && !!liveCursor && liveCursor.questionIndex >= liveQuiz.questions.length;
+  const question = running && teacherPaced && !finished ? liveQuiz.questions[currentQuestion] : undefined;
+  const revealed = !!liveCursor?.revealed;
+  const joinUrl = `${window.location.origin}/join/${roomCode}`;
+
+  useEffect(() => {
+    if (!question) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [question]);
+
+  const answers = useMemo(
+    () => (question ? studentAnswers.filter(answer => answer.questionId === question.id) : []),
+    [question, studentAnswers]
+  );
+  const results = useMemo(
+    () => (question && revealed ? getQuestionTypeDefinition(question.type).analyze(question, answers) : null),
+    [question, revealed, answers]
+  );
+  const leaderboard = useMemo(
+    () => (finished && liveQuiz.scoring === "speed" ? buildLeaderboard(liveQuiz, studentAnswers) : []),
+    [finished, liveQuiz, studentAnswers]
+  );
+
+  // Anyone who answered counts, even if they dropped out of the room since
+  const classSize = Math.max(participants.length, answers.length);
+  const timeLeft = question && liveCursor
+    ? getTimeLeft(getQuestionTimeLimit(liveQuiz, question), liveCursor.startedAt, liveClock, liveClock?.extraSeconds, now)
+    : null;
+
+  const renderJoinCode = (large: boolean) => (
+    <div className={large ? "text-center space-y-4" : "text-right"}>
+      <p className={large ? "text-3xl text-slate-300" : "text-lg text-slate-400"}>
+        Join at {joinUrl.replace(/^https?:\/\//, "")}
+      </p>
+      <p className={`font-mono font-bold tracking-widest text-quiz-primary ${large ? "text-9xl" : "text-5xl"}`}>
+        {roomCode}
+      </p>
+    </div>
+  );
+
+  const renderBody = () => {
+    if (!running) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center gap-12">
+          {renderJoinCode(true)}
+          <p className="flex items-center text-4xl text-slate-300">
+            <Users className="h-10 w-10 mr-4" />
+            {participants.filter(participant => participant.connected).length} joined
+          </p>
+        </div>
+      );
+    }
+
+    if (finished) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center gap-10">
+          <p className="text-6xl font-bold">That's the end of the quiz!</p>
+          {leaderboard.length > 0 && (
+            <div className="w-full max-w-3xl text-slate-900 bg-white rounded-xl p-6 text-2xl">
+              <Leaderboard entries={leaderboard} limit={5} />
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    if (!question) {
+      const answered = new Set(studentAnswers.map(answer => answer.studentName)).size;
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center gap-12">
+          <p className="text-5xl font-bold text-center">Answer the questions on your own device</p>
+          <p className="text-3xl text-slate-300">{answered} students have started</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex-1 flex flex-col gap-10">
+        <div className="flex items-start justify-between gap-8">
+          <div>
+            <p className="text-2xl text-slate-400 mb-4">
+              Question {currentQuestion + 1} of {liveQuiz.questions.length}
+            </p>
+            <h2 className="text-6xl font-bold leading-tight">{question.text}</h2>
+          </div>
+          {timeLeft !== null && !revealed && (
+            <div className={`shrink-0 flex items-center text-7xl font-bold tabular-nums ${timeLeft <= 5 ? "text-red-400" : "text-orange-400"}`}>
+              {liveClock?.pausedAt ? <Pause className="h-16 w-16 mr-4" /> : <Clock className="h-16 w-16 mr-4" />}
+              {timeLeft}
+            </div>
+          )}
+        </div>
+
+        {revealed && isGraded(question) && !usesOptions(question) && (
+          <div className="flex items-center gap-4 rounded-xl border-4 border-green-400 bg-green-500/20 p-6 text-4xl font-semibold">
+            <CheckCircle className="h-12 w-12 text-green-400" />
+            {getAnswerKeyLabel(question)}
+          </div>
+        )}
+
+        {question.options.length > 0 && (
+          <div className="grid grid-cols-2 gap-6">
+            {question.options.map((option, index) => {
+              const correct = revealed && isGraded(question) && isCorrectOption(question, index);
+              const votes = results?.optionDistribution[index];
+              return (
+                <div
+                  key={index}
+                  className={`rounded-xl border-4 p-6 text-4xl ${
+                    correct ? "border-green-400 bg-green-500/20" : revealed ? "border-slate-700 opacity-70" : "border-slate-600"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <span>
+                      <span className="font-bold text-slate-400 mr-4">{String.fromCharCode(65 + index)}</span>
+                      {option}
+                    </span>
+                    {correct && <CheckCircle className="h-12 w-12 shrink-0 text-green-400" />}
+                  </div>
+                  {votes && (
+                    <div className="mt-4 flex items-center gap-4 text-2xl">
+                      <Progress value={votes.percentage} className="h-4 flex-1" />
+                      <span className="w-32 text-right">{votes.count} ({votes.percentage}%)</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {results?.wordFrequencies && (
+          <div className="rounded-xl bg-white text-slate-900">
+            <WordCloud words={results.wordFrequencies} emptyMessage="No answers." />
+          </div>
+        )}
+
+        <div className="mt-auto space-y-3">
+          <div className="flex justify-between text-3xl">
+            <span className="font-semibold">{answers.length} of {classSize} answered</span>
+            {liveClock?.pausedAt && <span className="text-slate-400">Paused</span>}
+          </div>
+          <Progress value={classSize > 0 ? (answers.length / classSize) * 100 : 0} className="h-8" />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col gap-10 bg-slate-950 text-white p-12">
+      <header className="flex items-start justify-between gap-8">
+        <h1 className="text-4xl font-bold">{liveQuiz.title}</h1>
+        {running && renderJoinCode(false)}
+      </header>
+      {renderBody()}
+    </div>
+  );
+};
+
+export default Presenter;
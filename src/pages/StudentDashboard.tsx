@@ -14,16 +14,24 @@ const StudentDashboard = () => {
   const navigate = useNavigate();
   const {
     activeQuiz,
+    sourceQuiz,
     currentQuestion,
-    selectedOption,
+    response,
+    answers,
+    feedback,
+    isTeacherPaced,
+    awaitingTeacher,
+    paused,
     timeLeft,
     quizCompleted,
     score,
+    submittedLate,
     isSubmitting,
-    loading,
+    restoring,
     error,
-    handleAnswer,
-    handleNextQuestion
+    handleResponseChange,
+    handleNextQuestion,
+    handleContinue
   } = useStudentQuiz();
 
   // Redirect if not authenticated or not a student
@@ -66,35 +74,39 @@ const StudentDashboard = () => {
             </div>
           )}
 
-          {loading && !error && (
+          {/* The waiting room until the teacher starts the quiz */}
+          {!activeQuiz && !quizCompleted && !error && (
             <div className="mobile-card">
-              <div className="text-center py-8">
-                <p className="text-muted-foreground">Waiting for quiz to start...</p>
-              </div>
+              <QuizWaiting />
             </div>
           )}
 
-          {!activeQuiz && !quizCompleted && !loading && !error && (
+          {activeQuiz && restoring && !error && (
             <div className="mobile-card">
-              <QuizWaiting />
+              <p className="text-center py-8 text-muted-foreground">Picking up where you left off...</p>
             </div>
           )}
 
-          {activeQuiz && !quizCompleted && !error && (
+          {activeQuiz && !restoring && !quizCompleted && !error && (
             <ActiveQuizQuestion
               quiz={activeQuiz}
               currentQuestion={currentQuestion}
               timeLeft={timeLeft}
               isSubmitting={isSubmitting}
-              onAnswer={handleAnswer}
+              response={response}
+              onResponseChange={handleResponseChange}
               onNextQuestion={handleNextQuestion}
-              selectedOption={selectedOption}
+              feedback={feedback}
+              onContinue={handleContinue}
+              teacherPaced={isTeacherPaced}
+              awaitingTeacher={awaitingTeacher}
+              paused={paused}
             />
           )}
 
-          {quizCompleted && activeQuiz && !error && (
+          {quizCompleted && activeQuiz && !restoring && !error && (
             <div className="mobile-card">
-              <QuizCompleted quiz={activeQuiz} score={score} />
+              <QuizCompleted quiz={sourceQuiz} score={score} answers={answers} submittedLate={submittedLate} />
             </div>
           )}
         </div>
@@ -10,18 +10,31 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useAuth } from "@/contexts/AuthContext";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useLocation } from "react-router-dom";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { joinTeam, fetchRoomBans, formatHomework, findOrCreateStudent } from "@/services/quizService";
+import { QuizTeam } from "@/types/quiz";
+import { Tables } from "@/integrations/supabase/types";
+import { getDeviceId, isBanned } from "@/utils/roomBans";
+import { getHomeworkAvailability } from "@/utils/homework";
+import { formatScheduleTime } from "@/utils/quizSchedule";
 
 const StudentJoin = () => {
   const { login, setRoomCode } = useAuth();
   const [name, setName] = useState("");
   const [roomCode, setRoomCodeState] = useState("");
   const [isValidating, setIsValidating] = useState(false);
+  // Teams to pick from, once the room code turns out to be a team quiz
+  const [teams, setTeams] = useState<QuizTeam[] | null>(null);
+  const [teamId, setTeamId] = useState("");
   const { roomCode: urlRoomCode } = useParams();
   const navigate = useNavigate();
+  // Why the student was sent back here, e.g. removed by their teacher
+  const notice = (useLocation().state as { notice?: string } | null)?.notice;
 
   useEffect(() => {
     if (urlRoomCode) {
@@ -29,6 +42,42 @@ const StudentJoin = () => {
     }
   }, [urlRoomCode]);
 
+  // Homework can be started inside its window, or after it when late work is
+  // accepted, and only handed in once
+  const canStartHomework = async (session: Tables<"quiz_sessions">) => {
+    const homework = formatHomework(session);
+    if (!homework) return false;
+
+    switch (getHomeworkAvailability(homework)) {
+      case "upcoming":
+        toast.error(`This homework opens ${formatScheduleTime(homework.availableFrom)}.`);
+        return false;
+      case "closed":
+        toast.error("This homework is closed.");
+        return false;
+      case "late":
+        toast.warning(`This homework was due ${formatScheduleTime(homework.dueAt)}. It will be marked late.`);
+        break;
+    }
+
+    const { data: handedIn, error } = await supabase
+      .from("quiz_results")
+      .select("id, students!inner(name)")
+      .eq("session_id", session.id)
+      .eq("students.name", name.trim())
+      .limit(1);
+
+    if (error) {
+      console.error("Error checking for handed-in homework:", error);
+    }
+    if (handedIn?.length) {
+      toast.error("You've already handed in this homework.");
+      return false;
+    }
+
+    return true;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -45,11 +94,27 @@ const StudentJoin = () => {
     setIsValidating(true);
 
     try {
-      const { data: quizData, error: quizError } = await supabase
-        .from("quizzes")
-        .select("id, is_active, room_code, title")
+      // The code may be for homework rather than a live quiz
+      const { data: homeworkSession } = await supabase
+        .from("quiz_sessions")
+        .select("*")
         .eq("room_code", roomCode.toUpperCase())
-        .single();
+        .eq("mode", "homework")
+        .is("ended_at", null)
+        .maybeSingle();
+
+      if (homeworkSession && !(await canStartHomework(homeworkSession))) {
+        setIsValidating(false);
+        return;
+      }
+
+      const quizQuery = supabase
+        .from("quizzes")
+        .select("id, is_active, lobby_open, room_code, title, team_assignment, current_session_id, quiz_teams(id, name, order_num)");
+      const { data: quizData, error: quizError } = await (homeworkSession
+        ? quizQuery.eq("id", homeworkSession.quiz_id)
+        : quizQuery.eq("room_code", roomCode.toUpperCase())
+      ).single();
 
       if (quizError || !quizData) {
         toast.error("Invalid room code. Please check and try again.");
@@ -57,33 +122,73 @@ const StudentJoin = () => {
         return;
       }
 
-      if (!quizData.is_active) {
-        toast.error("This quiz is not currently active.");
+      // Students can join while the teacher has the lobby open or the quiz is
+      // running, and homework whenever its window allows
+      if (!homeworkSession && !quizData.is_active && !quizData.lobby_open) {
+        toast.error("This quiz is not open yet.");
         setIsValidating(false);
         return;
       }
 
-      const { data: studentData, error: studentError } = await supabase
-        .from("students")
-        .insert([{ name: name.trim() }])
-        .select()
-        .single();
+      const sessionId = homeworkSession?.id ?? quizData.current_session_id;
+      const bans = sessionId ? await fetchRoomBans(sessionId) : [];
+      if (isBanned(bans, name, getDeviceId())) {
+        toast.error("You can't join this quiz.");
+        setIsValidating(false);
+        return;
+      }
+
+      // Homework is done alone, so teams only apply live
+      const quizTeams = homeworkSession ? [] : [...quizData.quiz_teams].sort((a, b) => a.order_num - b.order_num);
+      if (quizTeams.length > 0 && quizData.team_assignment === "choose" && !teamId) {
+        setTeams(quizTeams.map(team => ({ id: team.id, name: team.name })));
+        toast.info("Pick your team to join the quiz.");
+        setIsValidating(false);
+        return;
+      }
 
-      if (studentError) {
-        console.error("Error creating student:", studentError);
+      // The same record their answers and result are saved under
+      const studentId = await findOrCreateStudent(name.trim());
+      if (!studentId) {
         toast.error("Failed to join quiz. Please try again.");
         setIsValidating(false);
         return;
       }
 
+      // Counted as taking part in this session even if they never answer.
+      // Rejoining keeps the first time they joined.
+      if (sessionId) {
+        const { error: participantError } = await supabase
+          .from("session_participants")
+          .upsert([{ session_id: sessionId, student_id: studentId }], { onConflict: "session_id,student_id", ignoreDuplicates: true });
+
+        if (participantError) {
+          console.error("Error recording session participant:", participantError);
+        }
+      }
+
+      // Team quizzes put the student on their team before they're let in
+      if (quizTeams.length > 0) {
+        const joinedTeamId = await joinTeam(quizData.id, studentId, teamId || undefined);
+        if (!joinedTeamId) {
+          setIsValidating(false);
+          return;
+        }
+
+        localStorage.setItem("quizTeamId", joinedTeamId);
+        toast.success(`You're on team ${quizTeams.find(team => team.id === joinedTeamId)?.name}`);
+      } else {
+        localStorage.removeItem("quizTeamId");
+      }
+
       localStorage.setItem("quizRoomCode", roomCode.toUpperCase());
-      localStorage.setItem("studentId", studentData.id);
+      localStorage.setItem("studentId", studentId);
 
       setRoomCode(roomCode.toUpperCase());
       login(name, "student");
 
       console.log("Student joined successfully:", {
-        studentId: studentData.id,
+        studentId,
         roomCode: roomCode.toUpperCase(),
         quizTitle: quizData.title
       });
@@ -112,6 +217,12 @@ const StudentJoin = () => {
           </CardHeader>
 
           <CardContent>
+            {notice && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
+
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="name">Your Name</Label>
@@ -129,12 +240,32 @@ const StudentJoin = () => {
                   id="roomCode"
                   placeholder="Enter room code"
                   value={roomCode}
-                  onChange={(e) => setRoomCodeState(e.target.value.toUpperCase())}
+                  onChange={(e) => {
+                    setRoomCodeState(e.target.value.toUpperCase());
+                    setTeams(null);
+                    setTeamId("");
+                  }}
                   className="uppercase"
                   maxLength={6}
                 />
               </div>
 
+              {teams && (
+                <div className="space-y-2">
+                  <Label>Your Team</Label>
+                  <Select value={teamId} onValueChange={setTeamId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pick a team" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teams.map(team => (
+                        <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <Button
                 type="submit"
                 className="w-full quiz-gradient"
@@ -1,26 +1,40 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useQuiz } from "@/contexts/quiz";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useNavigate } from "react-router-dom";
-import { PlusCircle, LogOut, Play, List, BarChart2 } from "lucide-react";
+import { PlusCircle, LogOut, Play, List, BarChart2, BookOpen } from "lucide-react";
 import CreateQuizModal from "@/components/CreateQuizModal";
 import QuizList from "@/components/QuizList";
-import ActiveQuiz from "@/components/ActiveQuiz";
+import LiveConsole from "@/components/LiveConsole";
 import QuizResults from "@/components/QuizResults";
+import HomeworkList from "@/components/HomeworkList";
 
 const TeacherDashboard = () => {
-  const { user, logout, roomCode } = useAuth();
+  const { user, logout } = useAuth();
   const {
     quizzes,
-    activeQuiz,
-    launchQuiz,
-    endQuiz,
-    studentAnswers,
-    results
+    liveQuizzes,
+    openLobby,
+    results,
+    sessions
   } = useQuiz();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const roomCount = liveQuizzes.length;
+  const [tab, setTab] = useState(roomCount > 0 ? "active" : "quizzes");
+
+  // Follow the class into each room as it opens, and back out when the
+  // last one closes
+  const previousRoomCountRef = useRef(roomCount);
+  useEffect(() => {
+    if (roomCount > previousRoomCountRef.current) {
+      setTab("active");
+    } else if (roomCount === 0) {
+      setTab(current => (current === "active" ? "quizzes" : current));
+    }
+    previousRoomCountRef.current = roomCount;
+  }, [roomCount]);
   const navigate = useNavigate();
 
   const teacherQuizzes = useMemo(() => {
@@ -44,8 +58,6 @@ const TeacherDashboard = () => {
     return null;
   }
 
-  const displayRoomCode = activeQuiz?.roomCode || roomCode;
-
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b">
@@ -61,12 +73,14 @@ const TeacherDashboard = () => {
           </div>
 
           <div className="flex flex-wrap items-center gap-2 sm:gap-4">
-            {displayRoomCode && (
+            {liveQuizzes.length > 0 && (
               <div className="flex items-center gap-2">
-                <span className="text-xs sm:text-sm text-gray-500">Room Code:</span>
-                <span className="font-mono font-bold text-sm bg-quiz-primary/10 text-quiz-primary px-2 py-1 rounded-md">
-                  {displayRoomCode}
-                </span>
+                <span className="text-xs sm:text-sm text-gray-500">{roomCount > 1 ? "Room Codes:" : "Room Code:"}</span>
+                {liveQuizzes.map(quiz => (
+                  <span key={quiz.id} className="font-mono font-bold text-sm bg-quiz-primary/10 text-quiz-primary px-2 py-1 rounded-md">
+                    {quiz.roomCode}
+                  </span>
+                ))}
               </div>
             )}
             <Button variant="ghost" size="sm" onClick={logout}>
@@ -83,22 +97,30 @@ const TeacherDashboard = () => {
             Welcome, {user.name}
           </h2>
           <p className="text-sm text-muted-foreground">
-            {activeQuiz
-              ? "You have an active quiz running."
-              : "Create or launch a quiz to get started with your students."}
+            {roomCount > 1
+              ? `You have ${roomCount} rooms open.`
+              : liveQuizzes[0]?.isActive
+                ? "You have an active quiz running."
+                : liveQuizzes[0]
+                  ? "Your lobby is open. Start the quiz when everyone has joined."
+                  : "Create or launch a quiz to get started with your students."}
           </p>
         </div>
 
-        <Tabs defaultValue={activeQuiz ? "active" : "quizzes"}>
+        <Tabs value={tab} onValueChange={setTab}>
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-2">
             <TabsList className="flex flex-wrap">
-              <TabsTrigger value="quizzes" disabled={!!activeQuiz}>
+              <TabsTrigger value="quizzes">
                 <List className="h-4 w-4 mr-1" />
                 My Quizzes
               </TabsTrigger>
-              <TabsTrigger value="active" disabled={!activeQuiz}>
+              <TabsTrigger value="active" disabled={roomCount === 0}>
                 <Play className="h-4 w-4 mr-1" />
-                Active Quiz
+                {roomCount > 1 ? `Live Rooms (${roomCount})` : liveQuizzes[0] && !liveQuizzes[0].isActive ? "Lobby" : "Active Quiz"}
+              </TabsTrigger>
+              <TabsTrigger value="homework">
+                <BookOpen className="h-4 w-4 mr-1" />
+                Homework
               </TabsTrigger>
               <TabsTrigger value="results">
                 <BarChart2 className="h-4 w-4 mr-1" />
@@ -106,7 +128,7 @@ const TeacherDashboard = () => {
               </TabsTrigger>
             </TabsList>
 
-            {!activeQuiz && (
+            {tab !== "active" && (
               <div className="flex gap-2 w-full sm:w-auto">
                 <Button 
                   onClick={() => setIsCreateModalOpen(true)}
@@ -132,23 +154,21 @@ const TeacherDashboard = () => {
           <TabsContent value="quizzes">
             <QuizList
               quizzes={teacherQuizzes}
-              onLaunch={launchQuiz}
-              isLaunchDisabled={!!activeQuiz}
+              onLaunch={openLobby}
             />
           </TabsContent>
 
-          <TabsContent value="active">
-            {activeQuiz && (
-              <ActiveQuiz
-                quiz={activeQuiz}
-                studentAnswers={studentAnswers}
-                onEndQuiz={endQuiz}
-              />
-            )}
+          {/* Kept mounted so rooms keep following their students from other tabs */}
+          <TabsContent value="active" forceMount className="data-[state=inactive]:hidden">
+            {roomCount > 0 && <LiveConsole quizzes={liveQuizzes} />}
+          </TabsContent>
+
+          <TabsContent value="homework">
+            <HomeworkList quizzes={teacherQuizzes} sessions={sessions} />
           </TabsContent>
 
           <TabsContent value="results">
-            <QuizResults results={teacherResults} quizzes={teacherQuizzes} />
+            <QuizResults results={teacherResults} quizzes={teacherQuizzes} sessions={sessions} />
           </TabsContent>
         </Tabs>
       </main>
@@ -0,0 +1,53 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { QuestionEditorProps } from "./types";
+
+interface ChoiceOptionsEditorProps extends QuestionEditorProps {
+  label: string;
+  isCorrect: (index: number) => boolean;
+  onMarkCorrect: (index: number) => void;
+}
+
+// Option inputs with a "Correct" toggle each, shared by the option-based types
+const ChoiceOptionsEditor: React.FC<ChoiceOptionsEditorProps> = ({
+  question,
+  onChange,
+  label,
+  isCorrect,
+  onMarkCorrect,
+}) => {
+  const handleOptionChange = (index: number, value: string) => {
+    const updatedOptions = [...question.options];
+    updatedOptions[index] = value;
+    onChange({ ...question, options: updatedOptions });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>{label}</Label>
+      {question.options.map((option, index) => (
+        <div key={index} className="flex gap-2">
+          <div className="flex-1">
+            <Input
+              value={option}
+              onChange={(e) => handleOptionChange(index, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+            />
+          </div>
+          <Button
+            type="button"
+            variant={isCorrect(index) ? "default" : "outline"}
+            onClick={() => onMarkCorrect(index)}
+            className={isCorrect(index) ? "bg-green-500 hover:bg-green-600" : ""}
+          >
+            Correct
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ChoiceOptionsEditor;
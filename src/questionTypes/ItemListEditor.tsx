@@ -0,0 +1,100 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { QuestionEditorProps } from "./types";
+
+interface ItemListEditorProps extends QuestionEditorProps {
+  label: string;
+  withMatchTargets?: boolean; // Show a second column for the item each one matches
+  itemLabel?: string; // What each entry is called in placeholders and buttons
+}
+
+// Editable list of any number of items, shared by ordering, matching and the
+// ungraded option types
+const ItemListEditor: React.FC<ItemListEditorProps> = ({
+  question,
+  onChange,
+  label,
+  withMatchTargets = false,
+  itemLabel = "Item",
+}) => {
+  const matchTargets = question.matchTargets || [];
+
+  const handleItemChange = (index: number, value: string) => {
+    const updatedOptions = [...question.options];
+    updatedOptions[index] = value;
+    onChange({ ...question, options: updatedOptions });
+  };
+
+  const handleMatchTargetChange = (index: number, value: string) => {
+    const updatedTargets = question.options.map((_, i) => matchTargets[i] || "");
+    updatedTargets[index] = value;
+    onChange({ ...question, matchTargets: updatedTargets });
+  };
+
+  const handleAddItem = () => {
+    onChange({
+      ...question,
+      options: [...question.options, ""],
+      matchTargets: [...question.options.map((_, i) => matchTargets[i] || ""), ""]
+    });
+  };
+
+  const handleRemoveItem = (index: number) => {
+    if (question.options.length <= 2) {
+      toast.error(`At least 2 ${itemLabel.toLowerCase()}s are required`);
+      return;
+    }
+    onChange({
+      ...question,
+      options: question.options.filter((_, i) => i !== index),
+      matchTargets: matchTargets.filter((_, i) => i !== index),
+      optionExplanations: question.optionExplanations?.filter((_, i) => i !== index)
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>{label}</Label>
+      {question.options.map((option, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+          <div className="flex-1">
+            <Input
+              value={option}
+              onChange={(e) => handleItemChange(index, e.target.value)}
+              placeholder={`${itemLabel} ${index + 1}`}
+            />
+          </div>
+          {withMatchTargets && (
+            <div className="flex-1">
+              <Input
+                value={matchTargets[index] || ""}
+                onChange={(e) => handleMatchTargetChange(index, e.target.value)}
+                placeholder={`Matches item ${index + 1}`}
+              />
+            </div>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="text-red-500 hover:text-red-700"
+            onClick={() => handleRemoveItem(index)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={handleAddItem}>
+        <PlusCircle className="h-4 w-4 mr-1" />
+        Add {itemLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default ItemListEditor;
@@ -0,0 +1,52 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { QuestionEditorProps, QuestionRendererProps } from "./types";
+import ItemListEditor from "./ItemListEditor";
+
+const AGREEMENT_SCALE = ["Strongly disagree", "Disagree", "Neutral", "Agree", "Strongly agree"];
+
+export const LikertEditor: React.FC<QuestionEditorProps> = ({ question, onChange }) => (
+  <div className="space-y-2">
+    <ItemListEditor
+      question={question}
+      onChange={onChange}
+      label="Scale, from lowest to highest (there is no correct answer)"
+      itemLabel="Point"
+    />
+    <Button
+      type="button"
+      variant="link"
+      size="sm"
+      className="px-0"
+      onClick={() => onChange({ ...question, options: [...AGREEMENT_SCALE], optionExplanations: undefined })}
+    >
+      Use a 5-point agree/disagree scale
+    </Button>
+  </div>
+);
+
+export const LikertRenderer: React.FC<QuestionRendererProps> = ({ question, response, onChange }) => (
+  <div
+    className="grid gap-2"
+    style={{ gridTemplateColumns: `repeat(${question.options.length}, minmax(0, 1fr))` }}
+    role="radiogroup"
+  >
+    {question.options.map((label, index) => (
+      <button
+        key={index}
+        type="button"
+        role="radio"
+        aria-checked={response.selectedOption === index}
+        onClick={() => onChange({ selectedOption: index })}
+        className={cn(
+          "flex flex-col items-center gap-1 border rounded-lg p-2 sm:p-3 text-center transition-colors hover:bg-muted",
+          response.selectedOption === index && "border-quiz-primary bg-quiz-primary/10"
+        )}
+      >
+        <span className="text-base sm:text-lg font-bold">{index + 1}</span>
+        <span className="text-xs sm:text-sm leading-tight">{label}</span>
+      </button>
+    ))}
+  </div>
+);
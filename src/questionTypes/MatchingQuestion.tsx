@@ -0,0 +1,18 @@
+import React from "react";
+import MatchingAnswer from "@/components/student/MatchingAnswer";
+import { QuestionEditorProps, QuestionRendererProps } from "./types";
+import ItemListEditor from "./ItemListEditor";
+
+export const MatchingEditor: React.FC<QuestionEditorProps> = (props) => (
+  <ItemListEditor {...props} label="Pairs (each item and the answer it matches)" withMatchTargets />
+);
+
+export const MatchingRenderer: React.FC<QuestionRendererProps> = ({ question, response, onChange }) => (
+  <MatchingAnswer
+    key={question.id}
+    items={question.options}
+    targets={question.matchTargets || []}
+    matches={response.matches || []}
+    onMatch={(matches) => onChange({ matches })}
+  />
+);
@@ -0,0 +1,89 @@
+import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScoringMode } from "@/types/quiz";
+import { QuestionEditorProps, QuestionRendererProps } from "./types";
+import ChoiceOptionsEditor from "./ChoiceOptionsEditor";
+
+export const MultiSelectEditor: React.FC<QuestionEditorProps> = ({ question, onChange }) => {
+  const correctOptions = question.correctOptions || [];
+
+  const handleToggleCorrect = (index: number) => {
+    onChange({
+      ...question,
+      correctOptions: correctOptions.includes(index)
+        ? correctOptions.filter(option => option !== index)
+        : [...correctOptions, index].sort((a, b) => a - b)
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="md:w-1/2">
+        <Label>Scoring</Label>
+        <Select
+          value={question.scoringMode || "all_or_nothing"}
+          onValueChange={(value) => onChange({ ...question, scoringMode: value as ScoringMode })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all_or_nothing">All or nothing</SelectItem>
+            <SelectItem value="partial">Partial credit</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <ChoiceOptionsEditor
+        question={question}
+        onChange={onChange}
+        label="Options (select every correct one)"
+        isCorrect={(index) => correctOptions.includes(index)}
+        onMarkCorrect={handleToggleCorrect}
+      />
+    </div>
+  );
+};
+
+export const MultiSelectRenderer: React.FC<QuestionRendererProps> = ({ question, response, onChange }) => {
+  const selectedOptions = response.selectedOptions || [];
+
+  // Options toggle in and out of the selection
+  const handleToggleOption = (index: number) => {
+    onChange({
+      selectedOptions: selectedOptions.includes(index)
+        ? selectedOptions.filter(option => option !== index)
+        : [...selectedOptions, index].sort((a, b) => a - b)
+    });
+  };
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      <p className="text-xs sm:text-sm text-muted-foreground">Select all that apply</p>
+      {question.options && question.options.length > 0 ? question.options.map((option, index) => (
+        <div
+          key={index}
+          className="flex items-start space-x-3 border p-3 sm:p-4 rounded-lg hover:bg-muted transition-colors"
+        >
+          <Checkbox
+            id={`option-${index}`}
+            checked={selectedOptions.includes(index)}
+            onCheckedChange={() => handleToggleOption(index)}
+            className="mt-0.5 flex-shrink-0"
+          />
+          <Label
+            htmlFor={`option-${index}`}
+            className="flex-1 cursor-pointer text-sm sm:text-base leading-relaxed"
+          >
+            {option}
+          </Label>
+        </div>
+      )) : (
+        <div className="text-center py-4">
+          <p className="text-destructive">No options available for this question</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from "react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { QuestionEditorProps, QuestionRendererProps } from "./types";
+import ChoiceOptionsEditor from "./ChoiceOptionsEditor";
+
+export const MultipleChoiceEditor: React.FC<QuestionEditorProps> = ({ question, onChange }) => (
+  <ChoiceOptionsEditor
+    question={question}
+    onChange={onChange}
+    label="Options (select the correct one)"
+    isCorrect={(index) => question.correctOption === index}
+    onMarkCorrect={(index) => onChange({ ...question, correctOption: index })}
+  />
+);
+
+export const MultipleChoiceRenderer: React.FC<QuestionRendererProps> = ({ question, response, onChange }) => (
+  <RadioGroup
+    value={response.selectedOption?.toString() || ""}
+    onValueChange={(value) => onChange({ selectedOption: parseInt(value) })}
+    className="space-y-2 sm:space-y-3"
+  >
+    {question.options && question.options.length > 0 ? question.options.map((option, index) => (
+      <div
+        key={index}
+        className="flex items-start space-x-3 border p-3 sm:p-4 rounded-lg hover:bg-muted transition-colors cursor-pointer"
+        onClick={() => onChange({ selectedOption: index })}
+      >
+        <RadioGroupItem
+          value={index.toString()}
+          id={`option-${index}`}
+          className="mt-0.5 flex-shrink-0"
+        />
+        <Label
+          htmlFor={`option-${index}`}
+          className="flex-1 cursor-pointer text-sm sm:text-base leading-relaxed"
+        >
+          {option}
+        </Label>
+      </div>
+    )) : (
+      <div className="text-center py-4">
+        <p className="text-destructive">No options available for this question</p>
+      </div>
+    )}
+  </RadioGroup>
+);
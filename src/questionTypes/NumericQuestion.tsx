@@ -0,0 +1,89 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToleranceMode } from "@/types/quiz";
+import { QuestionEditorProps, QuestionRendererProps } from "./types";
+
+// Empty inputs mean "not answered" rather than zero
+const parseNumberInput = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+export const NumericEditor: React.FC<QuestionEditorProps> = ({ question, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <div>
+      <Label htmlFor="correctValue">Correct Answer</Label>
+      <Input
+        id="correctValue"
+        type="number"
+        step="any"
+        value={question.correctValue ?? ""}
+        onChange={(e) => onChange({ ...question, correctValue: parseNumberInput(e.target.value) })}
+        placeholder="e.g. 9.81"
+      />
+    </div>
+    <div>
+      <Label htmlFor="unit">Unit (optional)</Label>
+      <Input
+        id="unit"
+        value={question.unit || ""}
+        onChange={(e) => onChange({ ...question, unit: e.target.value })}
+        placeholder="e.g. m/s²"
+      />
+    </div>
+    <div>
+      <Label htmlFor="tolerance">Tolerance</Label>
+      <Input
+        id="tolerance"
+        type="number"
+        min={0}
+        step="any"
+        value={question.tolerance ?? ""}
+        onChange={(e) => onChange({ ...question, tolerance: parseNumberInput(e.target.value) })}
+        placeholder="0"
+      />
+    </div>
+    <div>
+      <Label>Tolerance Type</Label>
+      <Select
+        value={question.toleranceMode || "absolute"}
+        onValueChange={(value) => onChange({ ...question, toleranceMode: value as ToleranceMode })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="absolute">Absolute (± amount)</SelectItem>
+          <SelectItem value="relative">Relative (± percent)</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
+
+export const NumericRenderer: React.FC<QuestionRendererProps> = ({ question, response, onChange }) => (
+  <div className="space-y-2">
+    <Label htmlFor="numeric-answer" className="text-xs sm:text-sm text-muted-foreground">
+      Enter a number
+    </Label>
+    <div className="flex items-center gap-2">
+      <Input
+        id="numeric-answer"
+        type="number"
+        inputMode="decimal"
+        step="any"
+        value={response.numericValue ?? ""}
+        onChange={(e) => {
+          const value = parseNumberInput(e.target.value);
+          onChange({ numericValue: Number.isFinite(value) ? value : undefined });
+        }}
+        placeholder="Your answer"
+        className="text-base sm:text-lg"
+      />
+      {question.unit && (
+        <span className="text-sm sm:text-base font-medium text-muted-foreground whitespace-nowrap">
+          {question.unit}
+        </span>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,16 @@
+import React from "react";
+import OrderingAnswer from "@/components/student/OrderingAnswer";
+import { QuestionEditorProps, QuestionRendererProps } from "./types";
+import ItemListEditor from "./ItemListEditor";
+
+export const OrderingEditor: React.FC<QuestionEditorProps> = (props) => (
+  <ItemListEditor {...props} label="Items (enter them in the correct order)" />
+);
+
+export const OrderingRenderer: React.FC<QuestionRendererProps> = ({ question, response, onChange }) => (
+  <OrderingAnswer
+    items={question.options}
+    order={response.orderedItems || []}
+    onReorder={(orderedItems) => onChange({ orderedItems })}
+  />
+);
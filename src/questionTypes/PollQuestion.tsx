@@ -0,0 +1,12 @@
+import React from "react";
+import { QuestionEditorProps } from "./types";
+import ItemListEditor from "./ItemListEditor";
+
+export const PollEditor: React.FC<QuestionEditorProps> = ({ question, onChange }) => (
+  <ItemListEditor
+    question={question}
+    onChange={onChange}
+    label="Options (there is no correct answer)"
+    itemLabel="Option"
+  />
+);
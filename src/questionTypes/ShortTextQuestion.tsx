@@ -0,0 +1,83 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { QuestionEditorProps, QuestionRendererProps } from "./types";
+
+// Lines are kept as typed while editing and tidied up by the schema
+const splitLines = (text: string) => text.split("\n");
+
+export const ShortTextEditor: React.FC<QuestionEditorProps> = ({ question, onChange }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor="acceptedAnswers">Accepted Answers (one per line)</Label>
+        <Textarea
+          id="acceptedAnswers"
+          value={(question.acceptedAnswers || []).join("\n")}
+          onChange={(e) => onChange({ ...question, acceptedAnswers: splitLines(e.target.value) })}
+          placeholder={"Paris\nParis, France"}
+          className="resize-none"
+        />
+      </div>
+      <div>
+        <Label htmlFor="acceptedPatterns">Regex Patterns (optional, one per line)</Label>
+        <Textarea
+          id="acceptedPatterns"
+          value={(question.acceptedPatterns || []).join("\n")}
+          onChange={(e) => onChange({ ...question, acceptedPatterns: splitLines(e.target.value) })}
+          placeholder={"h2o|water"}
+          className="resize-none font-mono"
+        />
+      </div>
+    </div>
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="caseSensitive"
+          checked={!!question.caseSensitive}
+          onCheckedChange={(checked) => onChange({ ...question, caseSensitive: checked })}
+        />
+        <Label htmlFor="caseSensitive">Case sensitive</Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id="normalizeWhitespace"
+          checked={question.normalizeWhitespace !== false}
+          onCheckedChange={(checked) => onChange({ ...question, normalizeWhitespace: checked })}
+        />
+        <Label htmlFor="normalizeWhitespace">Ignore extra spaces</Label>
+      </div>
+      <div>
+        <Label htmlFor="typoTolerance">Typos allowed</Label>
+        <Input
+          id="typoTolerance"
+          type="number"
+          min={0}
+          max={5}
+          value={question.typoTolerance || 0}
+          onChange={(e) => onChange({ ...question, typoTolerance: Number(e.target.value) })}
+        />
+      </div>
+    </div>
+  </div>
+);
+
+export const ShortTextRenderer: React.FC<QuestionRendererProps> = ({ response, onChange }) => (
+  <div className="space-y-2">
+    <Label htmlFor="text-answer" className="text-xs sm:text-sm text-muted-foreground">
+      Type your answer
+    </Label>
+    <Input
+      id="text-answer"
+      value={response.textValue || ""}
+      onChange={(e) => onChange({ textValue: e.target.value })}
+      placeholder="Your answer"
+      autoComplete="off"
+      autoCapitalize="off"
+      spellCheck={false}
+      className="text-base sm:text-lg"
+    />
+  </div>
+);
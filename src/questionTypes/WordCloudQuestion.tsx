@@ -0,0 +1,29 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { QuestionEditorProps, QuestionRendererProps } from "./types";
+
+export const MAX_WORD_CLOUD_LENGTH = 40;
+
+export const WordCloudEditor: React.FC<QuestionEditorProps> = () => (
+  <p className="text-sm text-muted-foreground">
+    Students answer with a word or short phrase. Answers appear as a live word cloud on your screen and are not scored.
+  </p>
+);
+
+export const WordCloudRenderer: React.FC<QuestionRendererProps> = ({ response, onChange }) => (
+  <div className="space-y-2">
+    <Label htmlFor="word-answer" className="text-xs sm:text-sm text-muted-foreground">
+      Answer with a word or short phrase
+    </Label>
+    <Input
+      id="word-answer"
+      value={response.textValue || ""}
+      onChange={(e) => onChange({ textValue: e.target.value })}
+      maxLength={MAX_WORD_CLOUD_LENGTH}
+      placeholder="Your answer"
+      autoComplete="off"
+      className="text-base sm:text-lg"
+    />
+  </div>
+);
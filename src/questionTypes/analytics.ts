@@ -0,0 +1,100 @@
+import { QuizQuestion, StudentAnswer } from "@/types/quiz";
+import { QuestionAnalytics } from "@/types/analytics";
+
+const MAX_WRONG_ANSWER_BUCKETS = 8;
+const MAX_CLOUD_WORDS = 50;
+
+export const toOptionLetters = (options: number[]) =>
+  options.map(option => String.fromCharCode(65 + option)).join("+");
+
+const toPercentage = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 100) : 0;
+
+// How many students picked each option. An answer can count towards several
+// options, in which case percentages add up to more than 100.
+export const buildOptionDistribution = (
+  question: QuizQuestion,
+  answers: StudentAnswer[],
+  correctOptions: number[],
+  picked: (answer: StudentAnswer, optionIndex: number) => boolean
+): QuestionAnalytics["optionDistribution"] =>
+  question.options.map((optionText, index) => {
+    const count = answers.filter(answer => picked(answer, index)).length;
+    return {
+      optionIndex: index,
+      optionText,
+      count,
+      percentage: toPercentage(count, answers.length),
+      isCorrect: correctOptions.includes(index)
+    };
+  });
+
+// Group identical wrong answers together, keeping the most common ones and
+// folding the long tail into "Other"
+export const bucketWrongAnswers = (
+  answers: StudentAnswer[],
+  toLabel: (answer: StudentAnswer) => string
+): QuestionAnalytics["wrongAnswers"] => {
+  const counts = new Map<string, number>();
+  answers
+    .filter(answer => !answer.correct)
+    .forEach(answer => {
+      const label = toLabel(answer);
+      counts.set(label, (counts.get(label) || 0) + 1);
+    });
+
+  const sorted = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  const buckets = sorted.slice(0, MAX_WRONG_ANSWER_BUCKETS);
+  const otherCount = sorted
+    .slice(MAX_WRONG_ANSWER_BUCKETS)
+    .reduce((sum, [, count]) => sum + count, 0);
+  if (otherCount > 0) {
+    buckets.push(["Other", otherCount]);
+  }
+
+  return buckets.map(([answer, count]) => ({
+    answer,
+    count,
+    percentage: toPercentage(count, answers.length)
+  }));
+};
+
+// Find the most common wrong pick for one slot and how often the slot was wrong
+export const summarizeSlot = (
+  label: string,
+  picks: (number | undefined)[],
+  correctPick: number,
+  describePick: (pick: number | undefined) => string
+): QuestionAnalytics["itemBreakdown"][number] => {
+  const wrongPicks = picks.filter(pick => pick !== correctPick);
+  const counts = new Map<string, number>();
+  wrongPicks.forEach(pick => {
+    const description = describePick(pick);
+    counts.set(description, (counts.get(description) || 0) + 1);
+  });
+  const [commonMistake] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || [];
+
+  return {
+    label,
+    wrongCount: wrongPicks.length,
+    percentageWrong: toPercentage(wrongPicks.length, picks.length),
+    commonMistake
+  };
+};
+
+// Tally free-text responses for a word cloud. Each response counts as one
+// entry, compared case-insensitively with extra spaces ignored.
+export const buildWordFrequencies = (answers: StudentAnswer[]): QuestionAnalytics["wordFrequencies"] => {
+  const counts = new Map<string, number>();
+  answers.forEach(answer => {
+    const word = (answer.textValue || "").trim().replace(/\s+/g, " ").toLowerCase();
+    if (word) {
+      counts.set(word, (counts.get(word) || 0) + 1);
+    }
+  });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CLOUD_WORDS)
+    .map(([word, count]) => ({ word, count }));
+};
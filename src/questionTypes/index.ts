@@ -0,0 +1,59 @@
+import { QuestionType, QuizQuestion } from "@/types/quiz";
+import { QuestionTypeDefinition } from "./types";
+import { multipleChoiceQuestionType } from "./multipleChoice";
+import { multiSelectQuestionType } from "./multiSelect";
+import { numericQuestionType } from "./numeric";
+import { shortTextQuestionType } from "./shortText";
+import { orderingQuestionType } from "./ordering";
+import { matchingQuestionType } from "./matching";
+import { pollQuestionType } from "./poll";
+import { likertQuestionType } from "./likert";
+import { wordCloudQuestionType } from "./wordCloud";
+
+export type {
+  QuestionTypeDefinition,
+  QuestionResponse,
+  QuestionEditorProps,
+  QuestionRendererProps,
+  QuestionTypeAnalytics
+} from "./types";
+
+const DEFAULT_QUESTION_TYPE: QuestionType = "multiple_choice";
+
+const registry = new Map<QuestionType, QuestionTypeDefinition>();
+
+// Add a question type, or replace the one registered under the same name
+export const registerQuestionType = (definition: QuestionTypeDefinition) => {
+  registry.set(definition.type, definition);
+};
+
+// Unknown or missing types are treated as multiple choice, which is what every
+// question was before types existed
+export const getQuestionTypeDefinition = (type?: QuestionType): QuestionTypeDefinition =>
+  registry.get(type || DEFAULT_QUESTION_TYPE) || registry.get(DEFAULT_QUESTION_TYPE);
+
+// Every registered type, in the order it was registered
+export const getQuestionTypes = () => Array.from(registry.values());
+
+// Check an authored question against its type's schema, returning the cleaned
+// up question or the first problem found
+export const validateQuestion = (
+  question: QuizQuestion
+): { question: QuizQuestion; error: null } | { question: null; error: string } => {
+  const result = getQuestionTypeDefinition(question.type).schema.safeParse(question);
+  if (result.success) {
+    return { question: result.data, error: null };
+  }
+  return { question: null, error: result.error.issues[0]?.message || "Invalid question" };
+};
+
+// Multiple choice goes first so it heads the type picker
+registerQuestionType(multipleChoiceQuestionType);
+registerQuestionType(multiSelectQuestionType);
+registerQuestionType(numericQuestionType);
+registerQuestionType(shortTextQuestionType);
+registerQuestionType(orderingQuestionType);
+registerQuestionType(matchingQuestionType);
+registerQuestionType(pollQuestionType);
+registerQuestionType(likertQuestionType);
+registerQuestionType(wordCloudQuestionType);
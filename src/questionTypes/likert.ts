@@ -0,0 +1,47 @@
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, textListSchema, toQuestion } from "./schemas";
+import { buildOptionDistribution } from "./analytics";
+import { LikertEditor, LikertRenderer } from "./LikertQuestion";
+
+const MAX_SCALE_POINTS = 10;
+
+export const likertQuestionType: QuestionTypeDefinition = {
+  type: "likert",
+  label: "Rating scale (not scored)",
+  usesOptions: true,
+  graded: false,
+  fixedOptionOrder: true,
+  schema: baseQuestionSchema
+    .extend({
+      options: textListSchema("scale points").refine(
+        options => options.length <= MAX_SCALE_POINTS,
+        `A scale can have at most ${MAX_SCALE_POINTS} points`
+      )
+    })
+    .transform(toQuestion("likert", () => ({ correctOption: -1, points: 0, penalty: 0 }))),
+  answerKeyFields: [],
+  Editor: LikertEditor,
+  Renderer: LikertRenderer,
+  initialResponse: () => ({}),
+  grade: () => 0,
+  isAnswered: response => typeof response.selectedOption === "number" && response.selectedOption >= 0,
+  describe: (question) => `${question.options.length}-point scale, not scored`,
+  analyze: (question, answers) => {
+    const ratings = answers
+      .map(answer => answer.selectedOption)
+      .filter(option => option >= 0 && option < question.options.length);
+
+    return {
+      optionDistribution: buildOptionDistribution(
+        question,
+        answers,
+        [],
+        (answer, index) => answer.selectedOption === index
+      ),
+      averageRating: ratings.length > 0
+        ? Math.round((ratings.reduce((sum, option) => sum + option + 1, 0) / ratings.length) * 100) / 100
+        : undefined
+    };
+  },
+  formatResponse: (response) => (response.selectedOption >= 0 ? String(response.selectedOption + 1) : "None")
+};
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, textListSchema, toQuestion } from "./schemas";
+import { summarizeSlot } from "./analytics";
+import { MatchingEditor, MatchingRenderer } from "./MatchingQuestion";
+
+export const matchingQuestionType: QuestionTypeDefinition = {
+  type: "matching",
+  label: "Match pairs",
+  usesOptions: false,
+  graded: true,
+  schema: baseQuestionSchema
+    .extend({
+      options: textListSchema("items"),
+      matchTargets: z
+        .array(z.string().trim().min(1, "Please fill in a match for every item"))
+        .default([])
+        .refine(
+          targets => new Set(targets.map(target => target.toLowerCase())).size === targets.length,
+          "All matches must be unique"
+        )
+    })
+    .refine(question => question.matchTargets.length === question.options.length, {
+      message: "Please fill in a match for every item"
+    })
+    .transform(toQuestion("matching", () => ({ correctOption: -1 }))),
+  answerKeyFields: ["matchTargets"],
+  Editor: MatchingEditor,
+  Renderer: MatchingRenderer,
+  initialResponse: (question) => ({ matches: question.options.map(() => -1) }),
+  // Each correctly matched pair earns its share of the question
+  grade: (question, response) => {
+    const pairCount = question.options.length;
+    const matches = response.matches || [];
+    if (pairCount === 0) return 0;
+
+    const correctPairs = question.options.filter((_, index) => matches[index] === index).length;
+    return correctPairs / pairCount;
+  },
+  isAnswered: response => (response.matches || []).some(match => match >= 0),
+  getAnswerKeyLabel: (question) =>
+    question.options
+      .map((item, index) => `${item} = ${question.matchTargets?.[index] ?? "?"}`)
+      .join("; "),
+  analyze: (question, answers) => ({
+    optionDistribution: [],
+    itemBreakdown: question.options.map((item, index) =>
+      summarizeSlot(
+        `${item} = ${question.matchTargets?.[index] ?? "?"}`,
+        answers.map(answer => answer.matches?.[index]),
+        index,
+        pick => (pick !== undefined && pick >= 0 ? question.matchTargets?.[pick] ?? "?" : "Left unmatched")
+      )
+    )
+  }),
+  formatResponse: (response) =>
+    (response.matches || [])
+      .map((match, index) => `${index + 1}=${match >= 0 ? match + 1 : "-"}`)
+      .join(" ") || "None"
+};
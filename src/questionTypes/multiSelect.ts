@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, textListSchema, isOptionIndex, toQuestion } from "./schemas";
+import { buildOptionDistribution, toOptionLetters } from "./analytics";
+import { MultiSelectEditor, MultiSelectRenderer } from "./MultiSelectQuestion";
+
+export const multiSelectQuestionType: QuestionTypeDefinition = {
+  type: "multi_select",
+  label: "Select all that apply",
+  usesOptions: true,
+  graded: true,
+  schema: baseQuestionSchema
+    .extend({
+      options: textListSchema("options"),
+      correctOptions: z.array(z.number()).min(1, "Please mark at least one correct option").default([]),
+      scoringMode: z.enum(["all_or_nothing", "partial"]).default("all_or_nothing")
+    })
+    .refine(question => question.correctOptions.every(option => isOptionIndex(question.options, option)), {
+      message: "Please select a valid correct option"
+    })
+    .transform(toQuestion("multi_select", question => ({ correctOption: question.correctOptions[0] }))),
+  answerKeyFields: ["correctOptions", "scoringMode"],
+  Editor: MultiSelectEditor,
+  Renderer: MultiSelectRenderer,
+  initialResponse: () => ({ selectedOptions: [] }),
+  grade: (question, response) => {
+    const correctOptions = new Set(question.correctOptions || []);
+    const selected = new Set(response.selectedOptions || []);
+    if (correctOptions.size === 0) return 0;
+
+    const hits = [...selected].filter(option => correctOptions.has(option)).length;
+    const falsePicks = selected.size - hits;
+
+    if (question.scoringMode === "partial") {
+      // Every wrong pick cancels out a right one, so ticking every box earns nothing
+      return Math.max(0, (hits - falsePicks) / correctOptions.size);
+    }
+
+    return hits === correctOptions.size && falsePicks === 0 ? 1 : 0;
+  },
+  isAnswered: response => (response.selectedOptions || []).length > 0,
+  getCorrectOptions: (question) => question.correctOptions || [],
+  describe: (question) =>
+    `Select all that apply, ${question.scoringMode === "partial" ? "partial credit" : "all or nothing"}`,
+  analyze: (question, answers) => ({
+    optionDistribution: buildOptionDistribution(
+      question,
+      answers,
+      question.correctOptions || [],
+      (answer, index) => (answer.selectedOptions || []).includes(index)
+    )
+  }),
+  formatResponse: (response) => toOptionLetters(response.selectedOptions || []) || "None"
+};
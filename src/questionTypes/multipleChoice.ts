@@ -0,0 +1,34 @@
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, textListSchema, isOptionIndex, toQuestion } from "./schemas";
+import { buildOptionDistribution } from "./analytics";
+import { MultipleChoiceEditor, MultipleChoiceRenderer } from "./MultipleChoiceQuestion";
+
+export const multipleChoiceQuestionType: QuestionTypeDefinition = {
+  type: "multiple_choice",
+  label: "Multiple choice (one answer)",
+  usesOptions: true,
+  graded: true,
+  schema: baseQuestionSchema
+    .extend({ options: textListSchema("options") })
+    .refine(question => isOptionIndex(question.options, question.correctOption), {
+      message: "Please select a valid correct option"
+    })
+    .transform(toQuestion("multiple_choice")),
+  answerKeyFields: [],
+  Editor: MultipleChoiceEditor,
+  Renderer: MultipleChoiceRenderer,
+  initialResponse: () => ({}),
+  grade: (question, response) => (question.correctOption === response.selectedOption ? 1 : 0),
+  isAnswered: response => typeof response.selectedOption === "number" && response.selectedOption >= 0,
+  getCorrectOptions: (question) => [question.correctOption],
+  analyze: (question, answers) => ({
+    optionDistribution: buildOptionDistribution(
+      question,
+      answers,
+      [question.correctOption],
+      (answer, index) => answer.selectedOption === index
+    )
+  }),
+  formatResponse: (response) =>
+    response.selectedOption >= 0 ? String.fromCharCode(65 + response.selectedOption) : "None"
+};
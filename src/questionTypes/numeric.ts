@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { QuizQuestion } from "@/types/quiz";
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, toQuestion } from "./schemas";
+import { bucketWrongAnswers } from "./analytics";
+import { NumericEditor, NumericRenderer } from "./NumericQuestion";
+
+const formatNumber = (value?: number | null) =>
+  typeof value === "number" ? String(Number(value.toPrecision(6))) : "No answer";
+
+// Largest distance from the correct value that still counts as correct
+const getAllowedError = (question: QuizQuestion) => {
+  const tolerance = Math.abs(question.tolerance || 0);
+  if (question.toleranceMode === "relative") {
+    return Math.abs(question.correctValue || 0) * tolerance / 100;
+  }
+  return tolerance;
+};
+
+const formatNumericAnswer = (question: QuizQuestion) => {
+  const unit = question.unit ? ` ${question.unit}` : "";
+  if (!question.tolerance) {
+    return `${question.correctValue}${unit}`;
+  }
+  const tolerance = question.toleranceMode === "relative"
+    ? `${question.tolerance}%`
+    : `${question.tolerance}${unit}`;
+  return `${question.correctValue}${unit} ± ${tolerance}`;
+};
+
+export const numericQuestionType: QuestionTypeDefinition = {
+  type: "numeric",
+  label: "Numeric answer",
+  usesOptions: false,
+  graded: true,
+  schema: baseQuestionSchema
+    .extend({
+      correctValue: z
+        .number({
+          required_error: "Please enter the correct numeric answer",
+          invalid_type_error: "Please enter the correct numeric answer"
+        })
+        .finite("Please enter the correct numeric answer"),
+      tolerance: z
+        .number({ invalid_type_error: "Tolerance must be zero or a positive number" })
+        .min(0, "Tolerance must be zero or a positive number")
+        .default(0),
+      toleranceMode: z.enum(["absolute", "relative"]).default("absolute"),
+      unit: z.string().trim().optional().transform(unit => unit || undefined)
+    })
+    .transform(toQuestion("numeric", () => ({ options: [], correctOption: -1 }))),
+  answerKeyFields: ["correctValue", "tolerance", "toleranceMode", "unit"],
+  Editor: NumericEditor,
+  Renderer: NumericRenderer,
+  initialResponse: () => ({}),
+  grade: (question, response) => {
+    const value = response.numericValue;
+    if (typeof value !== "number" || !Number.isFinite(value)) return 0;
+    if (typeof question.correctValue !== "number") return 0;
+
+    // Small epsilon so 0.1 + 0.2 style float noise doesn't fail exact answers
+    const error = Math.abs(value - question.correctValue);
+    return error <= getAllowedError(question) + 1e-9 ? 1 : 0;
+  },
+  isAnswered: response => typeof response.numericValue === "number" && Number.isFinite(response.numericValue),
+  getAnswerKeyLabel: formatNumericAnswer,
+  analyze: (_, answers) => ({
+    optionDistribution: [],
+    wrongAnswers: bucketWrongAnswers(answers, answer => formatNumber(answer.numericValue))
+  }),
+  formatResponse: (response) => formatNumber(response.numericValue)
+};
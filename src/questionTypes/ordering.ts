@@ -0,0 +1,54 @@
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, textListSchema, toQuestion } from "./schemas";
+import { summarizeSlot } from "./analytics";
+import { OrderingEditor, OrderingRenderer } from "./OrderingQuestion";
+
+// Random permutation of 0..count-1 that never starts out already solved
+const shuffleIndices = (count: number) => {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  if (count > 1 && indices.every((item, position) => item === position)) {
+    indices.push(indices.shift() as number);
+  }
+  return indices;
+};
+
+export const orderingQuestionType: QuestionTypeDefinition = {
+  type: "ordering",
+  label: "Put in order",
+  usesOptions: false,
+  graded: true,
+  schema: baseQuestionSchema
+    .extend({ options: textListSchema("items") })
+    .transform(toQuestion("ordering", () => ({ correctOption: -1 }))),
+  answerKeyFields: [],
+  Editor: OrderingEditor,
+  Renderer: OrderingRenderer,
+  initialResponse: (question) => ({ orderedItems: shuffleIndices(question.options.length) }),
+  // Each item placed in its correct position earns its share of the question
+  grade: (question, response) => {
+    const itemCount = question.options.length;
+    const order = response.orderedItems || [];
+    if (itemCount === 0 || order.length !== itemCount) return 0;
+
+    const inPlace = order.filter((item, position) => item === position).length;
+    return inPlace / itemCount;
+  },
+  isAnswered: response => (response.orderedItems || []).length > 0,
+  getAnswerKeyLabel: (question) => question.options.join(" → "),
+  analyze: (question, answers) => ({
+    optionDistribution: [],
+    itemBreakdown: question.options.map((item, position) =>
+      summarizeSlot(
+        `Position ${position + 1}: ${item}`,
+        answers.map(answer => answer.orderedItems?.[position]),
+        position,
+        pick => (pick !== undefined ? question.options[pick] : "No answer")
+      )
+    )
+  }),
+  formatResponse: (response) => (response.orderedItems || []).map(item => item + 1).join(">") || "None"
+};
@@ -0,0 +1,32 @@
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, textListSchema, toQuestion } from "./schemas";
+import { buildOptionDistribution } from "./analytics";
+import { PollEditor } from "./PollQuestion";
+import { MultipleChoiceRenderer } from "./MultipleChoiceQuestion";
+
+export const pollQuestionType: QuestionTypeDefinition = {
+  type: "poll",
+  label: "Opinion poll (not scored)",
+  usesOptions: true,
+  graded: false,
+  schema: baseQuestionSchema
+    .extend({ options: textListSchema("options") })
+    .transform(toQuestion("poll", () => ({ correctOption: -1, points: 0, penalty: 0 }))),
+  answerKeyFields: [],
+  Editor: PollEditor,
+  Renderer: MultipleChoiceRenderer,
+  initialResponse: () => ({}),
+  grade: () => 0,
+  isAnswered: response => typeof response.selectedOption === "number" && response.selectedOption >= 0,
+  describe: () => "Poll, not scored",
+  analyze: (question, answers) => ({
+    optionDistribution: buildOptionDistribution(
+      question,
+      answers,
+      [],
+      (answer, index) => answer.selectedOption === index
+    )
+  }),
+  formatResponse: (response) =>
+    response.selectedOption >= 0 ? String.fromCharCode(65 + response.selectedOption) : "None"
+};
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { QuestionType, QuizQuestion } from "@/types/quiz";
+
+// Fields every question has, whatever its type
+export const baseQuestionSchema = z.object({
+  id: z.string(),
+  text: z.string().trim().min(1, "Please enter a question"),
+  options: z.array(z.string()),
+  correctOption: z.number(),
+  timeLimit: z
+    .number()
+    .int("Time limit must be a whole number of seconds")
+    .min(5, "Time limit must be at least 5 seconds")
+    .max(600, "Time limit cannot exceed 600 seconds")
+    .optional(),
+  points: z.number().min(0, "Points cannot be negative").default(1),
+  penalty: z.number().min(0, "Penalty cannot be negative").default(0),
+  poolId: z.string().optional(),
+  explanation: z.string().trim().optional(),
+  optionExplanations: z.array(z.string().trim()).optional()
+});
+
+const isUnique = (values: string[]) =>
+  new Set(values.map(value => value.toLowerCase())).size === values.length;
+
+// A list of trimmed, non-empty, distinct entries such as options or items
+export const textListSchema = (noun: string) =>
+  z
+    .array(z.string().trim().min(1, `Please fill in all ${noun}`))
+    .min(2, `At least 2 ${noun} are required`)
+    .refine(isUnique, `All ${noun} must be unique`);
+
+// Whether an index points at one of the question's options
+export const isOptionIndex = (options: string[], index: number) =>
+  Number.isInteger(index) && index >= 0 && index < options.length;
+
+// Drop blank explanations and keep option rationale in step with the options
+// that survived validation
+const tidyExplanations = (question: QuizQuestion): QuizQuestion => {
+  const optionExplanations = question.options.map((_, index) => question.optionExplanations?.[index] || "");
+  return {
+    ...question,
+    explanation: question.explanation || undefined,
+    optionExplanations: optionExplanations.some(Boolean) ? optionExplanations : undefined
+  };
+};
+
+// Last step of every schema: tag the cleaned-up question with its type
+export const toQuestion = <T extends object>(
+  type: QuestionType,
+  extra: (question: T) => Partial<QuizQuestion> = () => ({})
+) => (question: T) => tidyExplanations({ ...question, ...extra(question), type } as QuizQuestion);
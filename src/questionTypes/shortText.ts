@@ -0,0 +1,114 @@
+import { z } from "zod";
+import { QuizQuestion } from "@/types/quiz";
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, toQuestion } from "./schemas";
+import { bucketWrongAnswers } from "./analytics";
+import { ShortTextEditor, ShortTextRenderer } from "./ShortTextQuestion";
+
+// Bring a free-text answer into the form it is compared in
+const normalizeTextAnswer = (question: QuizQuestion, text: string) => {
+  let normalized = text;
+  if (question.normalizeWhitespace !== false) {
+    normalized = normalized.trim().replace(/\s+/g, " ");
+  }
+  return question.caseSensitive ? normalized : normalized.toLowerCase();
+};
+
+const levenshteinDistance = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const matchesPattern = (question: QuizQuestion, pattern: string, text: string) => {
+  try {
+    return new RegExp(`^(?:${pattern})$`, question.caseSensitive ? "" : "i").test(text);
+  } catch (error) {
+    console.error("Invalid accepted-answer pattern:", pattern, error);
+    return false;
+  }
+};
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const lineListSchema = z
+  .array(z.string())
+  .default([])
+  .transform(lines => lines.map(line => line.trim()).filter(Boolean));
+
+export const shortTextQuestionType: QuestionTypeDefinition = {
+  type: "short_text",
+  label: "Short text answer",
+  usesOptions: false,
+  graded: true,
+  schema: baseQuestionSchema
+    .extend({
+      acceptedAnswers: lineListSchema,
+      acceptedPatterns: lineListSchema.refine(
+        patterns => patterns.every(isValidPattern),
+        patterns => ({ message: `Invalid pattern: ${patterns.find(pattern => !isValidPattern(pattern))}` })
+      ),
+      caseSensitive: z.boolean().default(false),
+      normalizeWhitespace: z.boolean().default(true),
+      typoTolerance: z
+        .number()
+        .int()
+        .min(0, "Typo tolerance must be between 0 and 5")
+        .max(5, "Typo tolerance must be between 0 and 5")
+        .default(0)
+    })
+    .refine(question => question.acceptedAnswers.length > 0 || question.acceptedPatterns.length > 0, {
+      message: "Please enter at least one accepted answer or pattern"
+    })
+    .transform(toQuestion("short_text", () => ({ options: [], correctOption: -1 }))),
+  answerKeyFields: ["acceptedAnswers", "acceptedPatterns", "caseSensitive", "normalizeWhitespace", "typoTolerance"],
+  Editor: ShortTextEditor,
+  Renderer: ShortTextRenderer,
+  initialResponse: () => ({ textValue: "" }),
+  grade: (question, response) => {
+    if (!response.textValue || !response.textValue.trim()) return 0;
+
+    const text = normalizeTextAnswer(question, response.textValue);
+    const maxTypos = Math.max(0, question.typoTolerance || 0);
+
+    const matchesAccepted = (question.acceptedAnswers || []).some(accepted => {
+      const normalized = normalizeTextAnswer(question, accepted);
+      return normalized === text || levenshteinDistance(normalized, text) <= maxTypos;
+    });
+    if (matchesAccepted) return 1;
+
+    return (question.acceptedPatterns || []).some(pattern => matchesPattern(question, pattern, text)) ? 1 : 0;
+  },
+  isAnswered: response => !!response.textValue && response.textValue.trim().length > 0,
+  getAnswerKeyLabel: (question) => {
+    const answers = (question.acceptedAnswers || []).map(answer => `"${answer}"`);
+    const patterns = (question.acceptedPatterns || []).map(pattern => `/${pattern}/`);
+    return [...answers, ...patterns].join(" or ");
+  },
+  analyze: (question, answers) => ({
+    optionDistribution: [],
+    // Bucket by the normalized form so "Paris " and "paris" count as one answer
+    wrongAnswers: bucketWrongAnswers(answers, answer =>
+      answer.textValue?.trim() ? normalizeTextAnswer(question, answer.textValue) : "No answer"
+    )
+  }),
+  formatResponse: (response) => `"${(response.textValue || "").replace(/"/g, '""')}"`
+};
@@ -0,0 +1,48 @@
+import React from "react";
+import { z } from "zod";
+import { QuizQuestion, StudentAnswer, QuestionType } from "@/types/quiz";
+import { QuestionAnalytics } from "@/types/analytics";
+
+// The parts of a StudentAnswer that hold what the student actually answered
+export type QuestionResponse = Partial<
+  Pick<StudentAnswer, "selectedOption" | "selectedOptions" | "numericValue" | "textValue" | "orderedItems" | "matches">
+>;
+
+export type QuestionEditorProps = {
+  question: QuizQuestion;
+  onChange: (question: QuizQuestion) => void;
+};
+
+export type QuestionRendererProps = {
+  question: QuizQuestion;
+  response: QuestionResponse;
+  onChange: (response: QuestionResponse) => void;
+};
+
+// Type-specific part of a question's analytics
+export type QuestionTypeAnalytics = Pick<QuestionAnalytics, "optionDistribution"> &
+  Partial<Pick<QuestionAnalytics, "wrongAnswers" | "itemBreakdown" | "wordFrequencies" | "averageRating">>;
+
+export type QuestionTypeDefinition = {
+  type: QuestionType;
+  label: string; // Shown in the question type picker
+  usesOptions: boolean; // Whether students answer by picking from question.options
+  graded: boolean; // Polls and surveys have no right answer and never count towards the score
+  fixedOptionOrder?: boolean; // Options form a scale, so they are never shuffled
+  // Validates an authored question and returns it cleaned up for saving.
+  // Error messages are shown to the teacher as-is.
+  schema: z.ZodType<QuizQuestion, z.ZodTypeDef, unknown>;
+  answerKeyFields: (keyof QuizQuestion)[]; // Fields stored in quiz_questions.answer_key
+  Editor: React.FC<QuestionEditorProps>;
+  Renderer: React.FC<QuestionRendererProps>;
+  // What a student starts from before touching the question
+  initialResponse: (question: QuizQuestion) => QuestionResponse;
+  grade: (question: QuizQuestion, response: QuestionResponse) => number; // Credit, 0 to 1
+  // Whether the student gave any answer at all; blanks are never penalised
+  isAnswered: (response: QuestionResponse) => boolean;
+  getCorrectOptions?: (question: QuizQuestion) => number[];
+  getAnswerKeyLabel?: (question: QuizQuestion) => string; // For types without options
+  describe?: (question: QuizQuestion) => string | undefined; // Short note on how it's answered
+  analyze: (question: QuizQuestion, answers: StudentAnswer[]) => QuestionTypeAnalytics;
+  formatResponse: (response: QuestionResponse) => string; // For CSV exports
+};
@@ -0,0 +1,26 @@
+import { QuestionTypeDefinition } from "./types";
+import { baseQuestionSchema, toQuestion } from "./schemas";
+import { buildWordFrequencies } from "./analytics";
+import { WordCloudEditor, WordCloudRenderer } from "./WordCloudQuestion";
+
+export const wordCloudQuestionType: QuestionTypeDefinition = {
+  type: "word_cloud",
+  label: "Word cloud (not scored)",
+  usesOptions: false,
+  graded: false,
+  schema: baseQuestionSchema.transform(
+    toQuestion("word_cloud", () => ({ options: [], correctOption: -1, points: 0, penalty: 0 }))
+  ),
+  answerKeyFields: [],
+  Editor: WordCloudEditor,
+  Renderer: WordCloudRenderer,
+  initialResponse: () => ({}),
+  grade: () => 0,
+  isAnswered: response => !!response.textValue && response.textValue.trim().length > 0,
+  describe: () => "Word cloud, not scored",
+  analyze: (_, answers) => ({
+    optionDistribution: [],
+    wordFrequencies: buildWordFrequencies(answers)
+  }),
+  formatResponse: (response) => `"${(response.textValue || "").trim().replace(/"/g, '""')}"`
+};
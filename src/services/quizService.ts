@@ -1,5 +1,13 @@
 import { supabase } from "@/integrations/supabase/client";
-import { Quiz, QuizQuestion, StudentAnswer, QuizResult } from "@/types/quiz";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { Quiz, QuizQuestion, StudentAnswer, QuizResult, QuestionType, FeedbackMode, QuestionPool, PaceMode, LiveCursor, LiveClock, QuestionTiming, QuizScoring, LeaderboardEntry, QuizTeam, TeamScoring, TeamAssignment, TeamMember, RoomBan, QuizSession, SessionSettings, QuizSchedule, SessionMode, HomeworkSettings, LatePolicy, HomeworkProgress, StudentProgress, AnswerDelivery } from "@/types/quiz";
+import { gradeAnswer, getQuestionType, getCorrectOptions, usesOptions, getQuestionPoints, getAnswerPoints } from "@/utils/questionGrading";
+import { getQuestionTypeDefinition, validateQuestion } from "@/questionTypes";
+import { getPoolError } from "@/utils/quizArrangement";
+import { getScoringStrategy, sortLeaderboard } from "@/utils/scoringStrategies";
+import { getTeamError } from "@/utils/teamStandings";
+import { getScheduleError } from "@/utils/quizSchedule";
+import { getHomeworkError } from "@/utils/homework";
 import { toast } from "sonner";
 
 // Helper function to generate UUID that works in all environments
@@ -15,6 +23,173 @@ export const generateUUID = () => {
   });
 };
 
+type QuestionRow = Pick<Tables<'quiz_questions'>, 'id' | 'text' | 'options' | 'correct_option'> &
+  Partial<Pick<
+    Tables<'quiz_questions'>,
+    'question_type' | 'answer_key' | 'time_limit' | 'points' | 'penalty' | 'explanation' | 'option_explanations' | 'pool_id'
+  >>;
+
+const parseOptions = (options: Json): string[] => {
+  try {
+    if (Array.isArray(options)) {
+      return options.map(option => String(option));
+    }
+    if (typeof options === 'string') {
+      return JSON.parse(options);
+    }
+  } catch (error) {
+    console.error('Error parsing options:', error, options);
+  }
+  return [];
+};
+
+// Convert a quiz_questions row into the QuizQuestion shape used by the app
+export const formatQuestion = (q: QuestionRow): QuizQuestion => {
+  const type = (q.question_type || 'multiple_choice') as QuestionType;
+  const answerKey = (q.answer_key || {}) as Partial<QuizQuestion>;
+  const typeFields = Object.fromEntries(
+    getQuestionTypeDefinition(type).answerKeyFields.map(field => [field, answerKey[field]])
+  ) as Partial<QuizQuestion>;
+
+  return {
+    ...typeFields,
+    id: q.id,
+    text: q.text,
+    options: parseOptions(q.options),
+    correctOption: q.correct_option ?? -1,
+    timeLimit: q.time_limit ?? undefined,
+    points: q.points ?? 1,
+    penalty: q.penalty ?? 0,
+    poolId: q.pool_id ?? undefined,
+    explanation: q.explanation ?? undefined,
+    optionExplanations: q.option_explanations ?? undefined,
+    type
+  };
+};
+
+export const formatPool = (pool: Pick<Tables<'quiz_question_pools'>, 'id' | 'name' | 'draw_count'>): QuestionPool => ({
+  id: pool.id,
+  name: pool.name,
+  drawCount: pool.draw_count
+});
+
+export const formatTeam = (team: Pick<Tables<'quiz_teams'>, 'id' | 'name'>): QuizTeam => ({
+  id: team.id,
+  name: team.name
+});
+
+type CursorRow = Pick<Tables<'quizzes'>, 'current_question' | 'question_started_at' | 'answers_revealed'>;
+
+type HomeworkRow = Pick<
+  Tables<'quiz_sessions'>,
+  'mode' | 'available_from' | 'opened_at' | 'due_at' | 'late_policy' | 'late_penalty_percent'
+>;
+
+export const formatHomework = (session: HomeworkRow): HomeworkSettings | undefined => {
+  if (session.mode !== 'homework' || !session.due_at) return undefined;
+
+  return {
+    availableFrom: new Date(session.available_from ?? session.opened_at).getTime(),
+    dueAt: new Date(session.due_at).getTime(),
+    latePolicy: session.late_policy as LatePolicy,
+    latePenaltyPercent: session.late_penalty_percent
+  };
+};
+
+export const formatSession = (
+  session: Tables<'quiz_sessions'> & { session_participants?: { count: number }[] }
+): QuizSession => ({
+  id: session.id,
+  quizId: session.quiz_id,
+  roomCode: session.room_code,
+  mode: session.mode as SessionMode,
+  settings: session.settings as SessionSettings,
+  homework: formatHomework(session),
+  openedAt: new Date(session.opened_at).getTime(),
+  startedAt: session.started_at ? new Date(session.started_at).getTime() : undefined,
+  endedAt: session.ended_at ? new Date(session.ended_at).getTime() : undefined,
+  participantCount: session.session_participants?.[0]?.count ?? 0
+});
+
+export const formatAnswer = (answer: Tables<'student_answers'>, studentName: string): StudentAnswer => ({
+  studentId: answer.student_id,
+  studentName,
+  quizId: answer.quiz_id,
+  questionId: answer.question_id,
+  selectedOption: answer.selected_option,
+  selectedOptions: answer.selected_options || undefined,
+  numericValue: answer.numeric_value,
+  textValue: answer.text_value,
+  orderedItems: answer.ordered_items || undefined,
+  matches: answer.matches || undefined,
+  optionOrder: answer.option_order || undefined,
+  timeSpent: answer.time_spent,
+  correct: answer.is_correct,
+  credit: answer.credit ?? undefined,
+  points: answer.points ?? undefined,
+  sessionId: answer.session_id ?? undefined,
+  submittedAt: new Date(answer.submitted_at).getTime()
+});
+
+type ScheduleRow = Pick<
+  Tables<'quizzes'>,
+  'scheduled_start_at' | 'scheduled_end_at' | 'auto_close_minutes' | 'schedule_launched_at' | 'schedule_closed_at'
+>;
+
+const toTime = (timestamp: string | null) => (timestamp ? new Date(timestamp).getTime() : undefined);
+
+export const formatSchedule = (quiz: ScheduleRow): QuizSchedule | undefined => {
+  if (!quiz.scheduled_start_at && !quiz.scheduled_end_at && !quiz.auto_close_minutes) return undefined;
+
+  return {
+    startAt: toTime(quiz.scheduled_start_at),
+    endAt: toTime(quiz.scheduled_end_at),
+    durationMinutes: quiz.auto_close_minutes ?? undefined,
+    launchedAt: toTime(quiz.schedule_launched_at),
+    closedAt: toTime(quiz.schedule_closed_at)
+  };
+};
+
+// What the quiz is set up to do right now, kept with each session
+const snapshotSettings = (quiz: Quiz): SessionSettings => ({
+  timePerQuestion: quiz.timePerQuestion,
+  feedbackMode: quiz.feedbackMode || 'end',
+  paceMode: quiz.paceMode || 'self',
+  scoring: quiz.scoring || 'standard',
+  shuffleQuestions: quiz.shuffleQuestions || false,
+  shuffleOptions: quiz.shuffleOptions || false,
+  teamScoring: quiz.teamScoring || 'average',
+  teamAssignment: quiz.teamAssignment || 'choose',
+  questionCount: quiz.questions.length
+});
+
+export const formatLiveCursor = (quiz: CursorRow): LiveCursor => ({
+  questionIndex: quiz.current_question,
+  startedAt: quiz.question_started_at ? new Date(quiz.question_started_at).getTime() : Date.now(),
+  revealed: quiz.answers_revealed
+});
+
+type ClockRow = Pick<Tables<'quizzes'>, 'paused_at' | 'extra_seconds'>;
+
+export const formatLiveClock = (quiz: ClockRow): LiveClock => ({
+  pausedAt: quiz.paused_at ? new Date(quiz.paused_at).getTime() : null,
+  extraSeconds: quiz.extra_seconds
+});
+
+// Type-specific answer data stored alongside correct_option
+const buildAnswerKey = (question: QuizQuestion): Json | null => {
+  const fields = getQuestionTypeDefinition(question.type).answerKeyFields;
+  if (fields.length === 0) return null;
+
+  return Object.fromEntries(
+    fields.map(field => [field, question[field] ?? null])
+  ) as Json;
+};
+
+// correct_option only means something for option-based questions
+const getStoredCorrectOption = (question: QuizQuestion): number | null =>
+  usesOptions(question) ? getCorrectOptions(question)[0] ?? null : null;
+
 export const fetchQuizzes = async (userId: string) => {
   try {
     const { data, error } = await supabase
@@ -42,27 +217,53 @@ export const fetchQuizzes = async (userId: string) => {
           return null;
         }
 
-        const transformedQuestions: QuizQuestion[] = questions?.map(q => ({
-          id: q.id,
-          text: q.text,
-          options: Array.isArray(q.options) 
-            ? q.options as string[] 
-            : typeof q.options === 'string' 
-              ? JSON.parse(q.options) 
-              : [],
-          correctOption: q.correct_option
-        })) || [];
+        const transformedQuestions: QuizQuestion[] = questions
+          ?.sort((a, b) => a.order_num - b.order_num)
+          .map(formatQuestion) || [];
+
+        const { data: pools, error: poolsError } = await supabase
+          .from('quiz_question_pools')
+          .select('id, name, draw_count')
+          .eq('quiz_id', quiz.id);
+
+        if (poolsError) {
+          console.error('Error fetching question pools:', poolsError);
+          return null;
+        }
+
+        const { data: teams, error: teamsError } = await supabase
+          .from('quiz_teams')
+          .select('id, name')
+          .eq('quiz_id', quiz.id)
+          .order('order_num');
+
+        if (teamsError) {
+          console.error('Error fetching teams:', teamsError);
+          return null;
+        }
 
         return {
           id: quiz.id,
           title: quiz.title,
           description: quiz.description || "",
           timePerQuestion: quiz.time_per_question,
+          feedbackMode: quiz.feedback_mode as FeedbackMode,
+          paceMode: quiz.pace_mode as PaceMode,
+          scoring: quiz.scoring as QuizScoring,
+          shuffleQuestions: quiz.shuffle_questions,
+          shuffleOptions: quiz.shuffle_options,
           questions: transformedQuestions,
+          pools: pools?.map(formatPool) || [],
+          teams: teams?.map(formatTeam) || [],
+          teamScoring: quiz.team_scoring as TeamScoring,
+          teamAssignment: quiz.team_assignment as TeamAssignment,
           createdAt: new Date(quiz.created_at).getTime(),
           createdBy: quiz.created_by,
           roomCode: quiz.room_code,
-          isActive: quiz.is_active
+          isActive: quiz.is_active,
+          lobbyOpen: quiz.lobby_open,
+          sessionId: quiz.current_session_id ?? undefined,
+          schedule: formatSchedule(quiz)
         } as Quiz;
       })
     );
@@ -92,11 +293,15 @@ export const fetchResults = async () => {
 
     const formattedResults: QuizResult[] = await Promise.all(
       resultsData.map(async (result) => {
-        const { data: answers, error: answersError } = await supabase
+        // Only the answers from the run of the quiz this result is for
+        const answersQuery = supabase
           .from('student_answers')
           .select('*')
           .eq('quiz_id', result.quiz_id)
           .eq('student_id', result.student_id);
+        const { data: answers, error: answersError } = await (result.session_id
+          ? answersQuery.eq('session_id', result.session_id)
+          : answersQuery.is('session_id', null));
 
         if (answersError) {
           console.error('Error fetching answers:', answersError);
@@ -105,15 +310,7 @@ export const fetchResults = async () => {
 
         const studentName = result.students?.name || "Unknown Student";
         
-        const formattedAnswers: StudentAnswer[] = answers?.map(answer => ({
-          studentId: answer.student_id,
-          studentName,
-          quizId: answer.quiz_id,
-          questionId: answer.question_id,
-          selectedOption: answer.selected_option,
-          timeSpent: answer.time_spent,
-          correct: answer.is_correct
-        })) || [];
+        const formattedAnswers = answers?.map(answer => formatAnswer(answer, studentName)) || [];
 
         return {
           studentId: result.student_id,
@@ -121,6 +318,10 @@ export const fetchResults = async () => {
           quizId: result.quiz_id,
           score: result.score,
           totalQuestions: result.total_questions,
+          maxScore: result.max_score ?? undefined,
+          points: result.points ?? undefined,
+          teamId: result.team_id ?? undefined,
+          sessionId: result.session_id ?? undefined,
           answers: formattedAnswers,
         } as QuizResult;
       })
@@ -152,31 +353,36 @@ export const createQuiz = async (
       return null;
     }
     
-    // Validate each question
+    // Validate each question against its type's schema
+    const questions: QuizQuestion[] = [];
     for (let i = 0; i < quizData.questions.length; i++) {
-      const question = quizData.questions[i];
-      if (!question.text || !question.text.trim()) {
-        toast.error(`Question ${i + 1} text is required`);
+      const { question, error } = validateQuestion(quizData.questions[i]);
+      if (error) {
+        toast.error(`Question ${i + 1}: ${error}`);
         return null;
       }
-      
-      if (!question.options || question.options.length < 2) {
-        toast.error(`Question ${i + 1} must have at least 2 options`);
-        return null;
-      }
-      
-      if (question.correctOption < 0 || question.correctOption >= question.options.length) {
-        toast.error(`Question ${i + 1} has invalid correct option`);
-        return null;
-      }
-      
-      // Validate all options have text
-      for (let j = 0; j < question.options.length; j++) {
-        if (!question.options[j] || !question.options[j].trim()) {
-          toast.error(`Question ${i + 1}, option ${j + 1} cannot be empty`);
-          return null;
-        }
-      }
+      questions.push(question);
+    }
+
+    const pools = quizData.pools || [];
+    const poolError = getPoolError(pools, questions);
+    if (poolError) {
+      toast.error(poolError);
+      return null;
+    }
+
+    // The whole class answers the same question together, so everyone has to
+    // be asked every question in the same order
+    if (quizData.paceMode === 'teacher' && (pools.length > 0 || quizData.shuffleQuestions)) {
+      toast.error("Teacher-paced quizzes can't use question pools or shuffled questions");
+      return null;
+    }
+
+    const teams = quizData.teams || [];
+    const teamError = getTeamError(teams);
+    if (teamError) {
+      toast.error(teamError);
+      return null;
     }
     
     const newRoomCode = Math.random().toString(36).substring(2, 8).toUpperCase();
@@ -187,6 +393,13 @@ export const createQuiz = async (
         title: quizData.title,
         description: quizData.description,
         time_per_question: quizData.timePerQuestion,
+        feedback_mode: quizData.feedbackMode || 'end',
+        pace_mode: quizData.paceMode || 'self',
+        scoring: quizData.scoring || 'standard',
+        shuffle_questions: quizData.shuffleQuestions || false,
+        shuffle_options: quizData.shuffleOptions || false,
+        team_scoring: quizData.teamScoring || 'average',
+        team_assignment: quizData.teamAssignment || 'choose',
         created_by: userId,
         room_code: newRoomCode,
       })
@@ -199,14 +412,58 @@ export const createQuiz = async (
       return null;
     }
 
-    const questionInserts = quizData.questions.map((question, index) => {
+    // Pools are saved first so questions can point at their new ids
+    const poolIds = new Map(pools.map(pool => [pool.id, generateUUID()]));
+    if (pools.length > 0) {
+      const { error: poolsError } = await supabase
+        .from('quiz_question_pools')
+        .insert(pools.map(pool => ({
+          id: poolIds.get(pool.id),
+          quiz_id: data.id,
+          name: pool.name.trim(),
+          draw_count: pool.drawCount
+        })));
+
+      if (poolsError) {
+        toast.error("Failed to save question pools");
+        console.error(poolsError);
+        return null;
+      }
+    }
+
+    if (teams.length > 0) {
+      const { error: teamsError } = await supabase
+        .from('quiz_teams')
+        .insert(teams.map((team, index) => ({
+          quiz_id: data.id,
+          name: team.name.trim(),
+          order_num: index
+        })));
+
+      if (teamsError) {
+        toast.error("Failed to save teams");
+        console.error(teamsError);
+        return null;
+      }
+    }
+
+    const questionInserts = questions.map((question, index) => {
       console.log(`Processing question ${index + 1}:`, question);
       return {
         id: generateUUID(), // Ensure unique ID for each question
         quiz_id: data.id,
         text: question.text.trim(),
         options: JSON.stringify(question.options), // Always serialize as JSON for consistency
-        correct_option: question.correctOption,
+        correct_option: getStoredCorrectOption(question),
+        question_type: getQuestionType(question),
+        answer_key: buildAnswerKey(question),
+        time_limit: question.timeLimit ?? null,
+        points: getQuestionPoints(question),
+        penalty: question.penalty || 0,
+        explanation: question.explanation || null,
+        // Rationale only means something when students pick from the options
+        option_explanations: usesOptions(question) ? question.optionExplanations ?? null : null,
+        pool_id: (question.poolId && poolIds.get(question.poolId)) || null,
         order_num: index + 1
       };
     });
@@ -227,7 +484,9 @@ export const createQuiz = async (
       .from('quizzes')
       .select(`
         *,
-        quiz_questions(*)
+        quiz_questions(*),
+        quiz_question_pools(*),
+        quiz_teams(*)
       `)
       .eq('id', data.id)
       .single();
@@ -243,28 +502,20 @@ export const createQuiz = async (
       title: fullQuiz.title,
       description: fullQuiz.description || "",
       timePerQuestion: fullQuiz.time_per_question,
-      questions: fullQuiz.quiz_questions.map(q => {
-        let options: string[];
-        if (Array.isArray(q.options)) {
-          options = q.options as string[];
-        } else if (typeof q.options === 'string') {
-          try {
-            options = JSON.parse(q.options);
-          } catch (e) {
-            console.error('Error parsing options:', e);
-            options = [];
-          }
-        } else {
-          options = [];
-        }
-        
-        return {
-          id: q.id,
-          text: q.text,
-          options,
-          correctOption: q.correct_option
-        };
-      }),
+      feedbackMode: fullQuiz.feedback_mode as FeedbackMode,
+      paceMode: fullQuiz.pace_mode as PaceMode,
+      scoring: fullQuiz.scoring as QuizScoring,
+      shuffleQuestions: fullQuiz.shuffle_questions,
+      shuffleOptions: fullQuiz.shuffle_options,
+      questions: fullQuiz.quiz_questions
+        .sort((a, b) => a.order_num - b.order_num)
+        .map(formatQuestion),
+      pools: fullQuiz.quiz_question_pools.map(formatPool),
+      teams: fullQuiz.quiz_teams
+        .sort((a, b) => a.order_num - b.order_num)
+        .map(formatTeam),
+      teamScoring: fullQuiz.team_scoring as TeamScoring,
+      teamAssignment: fullQuiz.team_assignment as TeamAssignment,
       createdAt: new Date(fullQuiz.created_at).getTime(),
       createdBy: fullQuiz.created_by,
       roomCode: fullQuiz.room_code,
@@ -302,11 +553,108 @@ export const deleteQuiz = async (quizId: string) => {
   }
 };
 
-export const launchQuiz = async (quizId: string) => {
+// Let students join the room and wait for the quiz to start
+// Opening the lobby starts a new session of the quiz, with a room code of its own
+export const openLobby = async (quiz: Quiz): Promise<QuizSession | null> => {
   try {
+    // Every run starts with empty teams; earlier results keep their team
+    const { error: teamsError } = await supabase
+      .from('team_members')
+      .delete()
+      .eq('quiz_id', quiz.id);
+
+    if (teamsError) {
+      toast.error("Failed to reset teams");
+      console.error(teamsError);
+      return null;
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('quiz_sessions')
+      .insert({
+        quiz_id: quiz.id,
+        room_code: Math.random().toString(36).substring(2, 8).toUpperCase(),
+        settings: snapshotSettings(quiz)
+      })
+      .select('*')
+      .single();
+
+    if (sessionError) {
+      toast.error("Failed to start a new session");
+      console.error(sessionError);
+      return null;
+    }
+
     const { error } = await supabase
       .from('quizzes')
-      .update({ is_active: true })
+      .update({
+        lobby_open: true,
+        room_code: session.room_code,
+        current_session_id: session.id
+      })
+      .eq('id', quiz.id);
+
+    if (error) {
+      toast.error("Failed to open the lobby");
+      console.error(error);
+      return null;
+    }
+
+    return formatSession(session);
+  } catch (error) {
+    console.error("Error opening lobby:", error);
+    toast.error("Failed to open the lobby");
+    return null;
+  }
+};
+
+// Closing the lobby without starting drops the session it opened
+export const closeLobby = async (quizId: string, sessionId?: string) => {
+  try {
+    const { error } = await supabase
+      .from('quizzes')
+      .update({ lobby_open: false })
+      .eq('id', quizId);
+
+    if (error) {
+      toast.error("Failed to close the lobby");
+      console.error(error);
+      return false;
+    }
+
+    if (sessionId) {
+      const { error: sessionError } = await supabase
+        .from('quiz_sessions')
+        .delete()
+        .eq('id', sessionId)
+        .is('started_at', null);
+
+      if (sessionError) {
+        console.error("Error removing unused session:", sessionError);
+      }
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error closing lobby:", error);
+    toast.error("Failed to close the lobby");
+    return false;
+  }
+};
+
+export const launchQuiz = async (quizId: string, sessionId?: string) => {
+  try {
+    const { error } = await supabase
+      .from('quizzes')
+      .update({
+        is_active: true,
+        lobby_open: false,
+        current_question: 0,
+        question_started_at: new Date().toISOString(),
+        answers_revealed: false,
+        paused_at: null,
+        extra_seconds: 0
+      })
       .eq('id', quizId);
       
     if (error) {
@@ -314,6 +662,17 @@ export const launchQuiz = async (quizId: string) => {
       console.error(error);
       return false;
     }
+
+    if (sessionId) {
+      const { error: sessionError } = await supabase
+        .from('quiz_sessions')
+        .update({ started_at: new Date().toISOString() })
+        .eq('id', sessionId);
+
+      if (sessionError) {
+        console.error("Error recording session start:", sessionError);
+      }
+    }
     
     toast.success("Quiz launched successfully!");
     return true;
@@ -324,7 +683,7 @@ export const launchQuiz = async (quizId: string) => {
   }
 };
 
-export const endQuiz = async (quizId: string) => {
+export const endQuiz = async (quizId: string, sessionId?: string) => {
   try {
     const { error } = await supabase
       .from('quizzes')
@@ -336,6 +695,17 @@ export const endQuiz = async (quizId: string) => {
       console.error(error);
       return false;
     }
+
+    if (sessionId) {
+      const { error: sessionError } = await supabase
+        .from('quiz_sessions')
+        .update({ ended_at: new Date().toISOString() })
+        .eq('id', sessionId);
+
+      if (sessionError) {
+        console.error("Error recording session end:", sessionError);
+      }
+    }
     
     toast.info("Quiz ended.");
     return true;
@@ -346,62 +716,362 @@ export const endQuiz = async (quizId: string) => {
   }
 };
 
-export const submitAnswer = async (answer: Omit<StudentAnswer, "correct">) => {
+// Put a quiz on a schedule, or take it off with null. The server starts and
+// closes scheduled quizzes; a new schedule starts over as not yet run.
+export const scheduleQuiz = async (quizId: string, schedule: QuizSchedule | null) => {
+  try {
+    const scheduleError = schedule && getScheduleError(schedule);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return false;
+    }
+
+    const toTimestamp = (time?: number) => (time !== undefined ? new Date(time).toISOString() : null);
+    const { error } = await supabase
+      .from('quizzes')
+      .update({
+        scheduled_start_at: toTimestamp(schedule?.startAt),
+        scheduled_end_at: toTimestamp(schedule?.endAt),
+        auto_close_minutes: schedule?.durationMinutes ?? null,
+        schedule_launched_at: null,
+        schedule_closed_at: null
+      })
+      .eq('id', quizId);
+
+    if (error) {
+      toast.error("Failed to save the schedule");
+      console.error(error);
+      return false;
+    }
+
+    toast.success(schedule ? "Schedule saved" : "Schedule removed");
+    return true;
+  } catch (error) {
+    console.error("Error scheduling quiz:", error);
+    toast.error("Failed to save the schedule");
+    return false;
+  }
+};
+
+// Every session of the teacher's quizzes, oldest first
+export const fetchSessions = async (userId: string): Promise<QuizSession[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('quiz_sessions')
+      .select('*, session_participants(count), quizzes!inner(created_by)')
+      .eq('quizzes.created_by', userId)
+      .order('opened_at');
+
+    if (error) {
+      console.error("Error fetching sessions:", error);
+      return [];
+    }
+
+    return data.map(formatSession);
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return [];
+  }
+};
+
+// Hand a quiz out as homework: a session of its own that students take at
+// their own pace inside its window, whether or not the quiz is running live
+export const assignHomework = async (quiz: Quiz, homework: HomeworkSettings): Promise<QuizSession | null> => {
+  try {
+    const homeworkError = getHomeworkError(homework);
+    if (homeworkError) {
+      toast.error(homeworkError);
+      return null;
+    }
+
+    const { data: session, error } = await supabase
+      .from('quiz_sessions')
+      .insert({
+        quiz_id: quiz.id,
+        room_code: Math.random().toString(36).substring(2, 8).toUpperCase(),
+        mode: 'homework',
+        // Homework is always taken at each student's own pace
+        settings: { ...snapshotSettings(quiz), paceMode: 'self' },
+        available_from: new Date(homework.availableFrom).toISOString(),
+        started_at: new Date(homework.availableFrom).toISOString(),
+        due_at: new Date(homework.dueAt).toISOString(),
+        late_policy: homework.latePolicy,
+        late_penalty_percent: homework.latePolicy === 'penalty' ? homework.latePenaltyPercent : 0
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      toast.error("Failed to assign homework");
+      console.error(error);
+      return null;
+    }
+
+    toast.success("Homework assigned");
+    return formatSession(session);
+  } catch (error) {
+    console.error("Error assigning homework:", error);
+    toast.error("Failed to assign homework");
+    return null;
+  }
+};
+
+// Stop taking homework before, or after, it's due
+export const closeHomework = async (sessionId: string) => {
+  try {
+    const endedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('quiz_sessions')
+      .update({ ended_at: endedAt })
+      .eq('id', sessionId);
+
+    if (error) {
+      toast.error("Failed to close the homework");
+      console.error(error);
+      return null;
+    }
+
+    toast.info("Homework closed.");
+    return new Date(endedAt).getTime();
+  } catch (error) {
+    console.error("Error closing homework:", error);
+    toast.error("Failed to close the homework");
+    return null;
+  }
+};
+
+// Everyone who has opened a homework link, with how far they've got.
+// Matched up by name, as students are identified by name.
+export const fetchHomeworkProgress = async (sessionId: string): Promise<HomeworkProgress[]> => {
+  try {
+    const [participantsResponse, resultsResponse, answersResponse] = await Promise.all([
+      supabase.from('session_participants').select('joined_at, students(name)').eq('session_id', sessionId),
+      supabase
+        .from('quiz_results')
+        .select('score, max_score, submitted_late, completed_at, students(name)')
+        .eq('session_id', sessionId),
+      supabase.from('student_answers').select('question_id, students(name)').eq('session_id', sessionId)
+    ]);
+
+    const error = participantsResponse.error || resultsResponse.error || answersResponse.error;
+    if (error) {
+      console.error("Error fetching homework progress:", error);
+      return [];
+    }
+
+    const answered = new Map<string, Set<string>>();
+    answersResponse.data.forEach(answer => {
+      const name = answer.students?.name;
+      if (!name) return;
+      answered.set(name, (answered.get(name) ?? new Set()).add(answer.question_id));
+    });
+
+    const progress = new Map<string, HomeworkProgress>();
+    participantsResponse.data.forEach(participant => {
+      const name = participant.students?.name;
+      if (!name || progress.has(name)) return;
+      progress.set(name, {
+        studentName: name,
+        joinedAt: new Date(participant.joined_at).getTime(),
+        answered: answered.get(name)?.size ?? 0,
+        submittedLate: false
+      });
+    });
+
+    resultsResponse.data.forEach(result => {
+      const name = result.students?.name;
+      if (!name) return;
+      const completedAt = new Date(result.completed_at).getTime();
+      progress.set(name, {
+        studentName: name,
+        joinedAt: progress.get(name)?.joinedAt ?? completedAt,
+        answered: answered.get(name)?.size ?? 0,
+        completedAt,
+        submittedLate: result.submitted_late,
+        score: result.score,
+        maxScore: result.max_score ?? undefined
+      });
+    });
+
+    return Array.from(progress.values()).sort((a, b) => a.joinedAt - b.joinedAt);
+  } catch (error) {
+    console.error("Error fetching homework progress:", error);
+    return [];
+  }
+};
+
+export const fetchLiveState = async (quizId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('quizzes')
+      .select('current_question, question_started_at, answers_revealed, paused_at, extra_seconds')
+      .eq('id', quizId)
+      .single();
+
+    if (error) {
+      console.error("Error fetching live quiz state:", error);
+      return null;
+    }
+
+    return { cursor: formatLiveCursor(data), clock: formatLiveClock(data) };
+  } catch (error) {
+    console.error("Error fetching live quiz state:", error);
+    return null;
+  }
+};
+
+// Move a teacher-paced quiz's cursor and/or change its clock in one update,
+// so students never see one without the other. They pick the change up over
+// Realtime from the quizzes row. The server stamps its own times on question
+// starts and pauses, so the state it saved is returned.
+export const updateLiveState = async (
+  quizId: string,
+  { cursor, clock }: { cursor?: LiveCursor; clock?: LiveClock }
+) => {
+  try {
+    const { data, error } = await supabase
+      .from('quizzes')
+      .update({
+        ...(cursor && {
+          current_question: cursor.questionIndex,
+          question_started_at: new Date(cursor.startedAt).toISOString(),
+          answers_revealed: cursor.revealed
+        }),
+        ...(clock && {
+          paused_at: clock.pausedAt ? new Date(clock.pausedAt).toISOString() : null,
+          extra_seconds: clock.extraSeconds
+        })
+      })
+      .eq('id', quizId)
+      .select('current_question, question_started_at, answers_revealed, paused_at, extra_seconds')
+      .single();
+
+    if (error) {
+      toast.error("Failed to update the class");
+      console.error(error);
+      return null;
+    }
+
+    return { cursor: formatLiveCursor(data), clock: formatLiveClock(data) };
+  } catch (error) {
+    console.error("Error updating live quiz state:", error);
+    toast.error("Failed to update the class");
+    return null;
+  }
+};
+
+// Errors from the server carry a code; a request that never reached it doesn't
+const isConnectionError = (error: { code?: string }) => !error.code;
+
+// Students are identified by name; joining, or the first answer or result
+// under a new name, creates their record
+export const findOrCreateStudent = async (name: string) => {
+  const { data: existingStudent, error: searchError } = await supabase
+    .from('students')
+    .select('id')
+    .eq('name', name)
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (searchError) {
+    console.error("Error looking up student:", searchError);
+  }
+
+  if (existingStudent) {
+    console.log(`Using existing student ID: ${existingStudent.id} for ${name}`);
+    return existingStudent.id;
+  }
+
+  const { data: newStudent, error: createError } = await supabase
+    .from('students')
+    .insert({ name })
+    .select()
+    .single();
+
+  if (createError) {
+    console.error("Error creating student:", createError);
+    return null;
+  }
+
+  console.log(`Created new student ID: ${newStudent.id} for ${name}`);
+  return newStudent.id;
+};
+
+// Start the student's clock on a question, or pick it back up after a reload.
+// The server owns the start time and deadline; they're returned on this
+// device's clock so the countdown can't drift from what the server enforces.
+export const startQuestion = async (
+  quizId: string,
+  questionId: string,
+  studentName: string,
+  sessionId?: string
+): Promise<QuestionTiming | null> => {
+  try {
+    const studentId = await findOrCreateStudent(studentName);
+    if (!studentId) return null;
+
+    const requestedAt = Date.now();
+    const { data, error } = await supabase.rpc('start_question', {
+      p_quiz_id: quizId,
+      p_question_id: questionId,
+      p_student_id: studentId,
+      p_session_id: sessionId
+    });
+
+    if (error || !data || data.length === 0) {
+      console.error("Error starting question:", error);
+      return null;
+    }
+
+    // Assume the server answered halfway through the round trip
+    const clockOffset = new Date(data[0].server_now).getTime() - (requestedAt + Date.now()) / 2;
+    return {
+      startedAt: new Date(data[0].started_at).getTime() - clockOffset,
+      deadline: new Date(data[0].deadline).getTime() - clockOffset
+    };
+  } catch (error) {
+    console.error("Error starting question:", error);
+    return null;
+  }
+};
+
+// Send an answer under its idempotency key. Only a lost connection leaves
+// it unsent, for the caller to try again; the server turning it away is final.
+export const submitAnswer = async (
+  answer: Omit<StudentAnswer, "correct" | "credit" | "points">,
+  clientKey: string
+): Promise<AnswerDelivery> => {
   if (!answer.questionId) {
     toast.error("Question ID is required");
-    return false;
+    return { status: 'rejected' };
   }
+
+  if (!navigator.onLine) return { status: 'unsent' };
   
   try {
-    // First, check if a student with this name already exists for this quiz
-    const { data: existingStudent, error: searchError } = await supabase
-      .from('students')
-      .select('id')
-      .eq('name', answer.studentName)
-      .limit(1)
-      .maybeSingle();
-    
-    let studentId: string;
+    const studentId = await findOrCreateStudent(answer.studentName);
+    if (!studentId) return { status: 'unsent' };
     
-    if (existingStudent) {
-      // Use existing student ID
-      studentId = existingStudent.id;
-      console.log(`Using existing student ID: ${studentId} for ${answer.studentName}`);
-    } else {
-      // Create a new student record only if one doesn't exist
-      const { data: newStudent, error: createError } = await supabase
-        .from('students')
-        .insert({ name: answer.studentName })
-        .select()
-        .single();
-        
-      if (createError) {
-        console.error("Error creating student:", createError);
-        toast.error("Failed to create student");
-        return false;
-      }
-      
-      studentId = newStudent.id;
-      console.log(`Created new student ID: ${studentId} for ${answer.studentName}`);
-    }
-    
-    // Get the correct answer
+    // Get the answer key and grade against it
     const { data: question, error: questionError } = await supabase
       .from('quiz_questions')
-      .select('correct_option')
+      .select('id, text, options, correct_option, question_type, answer_key, points, penalty')
       .eq('id', answer.questionId)
       .single();
       
     if (questionError || !question) {
       console.error("Error getting correct answer:", questionError);
+      if (questionError && isConnectionError(questionError)) return { status: 'unsent' };
       toast.error("Failed to get correct answer");
-      return false;
+      return { status: 'rejected' };
     }
     
-    const isCorrect = question.correct_option === answer.selectedOption;
+    const grade = gradeAnswer(formatQuestion(question), answer);
     
-    // Create the answer record
-    const { error: answerError } = await supabase
+    // Create the answer record. The server turns away late answers and
+    // measures time_spent itself.
+    const { data: savedAnswer, error: answerError } = await supabase
       .from('student_answers')
       .insert({
         id: generateUUID(),
@@ -409,21 +1079,116 @@ export const submitAnswer = async (answer: Omit<StudentAnswer, "correct">) => {
         quiz_id: answer.quizId,
         question_id: answer.questionId,
         selected_option: answer.selectedOption,
-        is_correct: isCorrect,
-        time_spent: answer.timeSpent
-      });
+        selected_options: answer.selectedOptions,
+        numeric_value: answer.numericValue,
+        text_value: answer.textValue,
+        ordered_items: answer.orderedItems,
+        matches: answer.matches,
+        option_order: answer.optionOrder,
+        is_correct: grade.correct,
+        credit: grade.credit,
+        points: grade.points,
+        time_spent: answer.timeSpent,
+        session_id: answer.sessionId,
+        client_key: clientKey
+      })
+      .select('time_spent')
+      .single();
       
     if (answerError) {
       console.error("Error saving answer:", answerError);
-      toast.error("Failed to submit answer");
-      return false;
+      if (isConnectionError(answerError)) return { status: 'unsent' };
+
+      // Sent before, and saved even though the acknowledgement never arrived
+      if (answerError.code === '23505') {
+        const { data: earlierAnswer } = await supabase
+          .from('student_answers')
+          .select('is_correct, credit, points, time_spent')
+          .eq('client_key', clientKey)
+          .maybeSingle();
+
+        if (earlierAnswer) {
+          return {
+            status: 'saved',
+            grade: {
+              correct: earlierAnswer.is_correct,
+              credit: earlierAnswer.credit ?? 0,
+              points: earlierAnswer.points ?? 0,
+              timeSpent: earlierAnswer.time_spent
+            }
+          };
+        }
+      }
+
+      // Deadline rejections come back as raised exceptions worth showing as-is
+      toast.error(
+        answerError.code === 'P0001'
+          ? answerError.message
+          : answerError.code === '23505'
+            ? "You've already answered this question"
+            : "Failed to submit answer"
+      );
+      return { status: 'rejected' };
     }
     
-    return isCorrect;
+    return { status: 'saved', grade: { ...grade, timeSpent: savedAnswer.time_spent } };
   } catch (error) {
+    // Requests that don't get a response throw rather than return an error
     console.error("Error submitting answer:", error);
-    toast.error("Failed to submit answer");
-    return false;
+    return { status: 'unsent' };
+  }
+};
+
+// The answers a student has saved in a session and their result, if they've
+// handed it in. Looked up by name, as students are identified by name.
+export const fetchStudentProgress = async (sessionId: string, studentName: string): Promise<StudentProgress | null> => {
+  try {
+    const [answersResponse, resultResponse] = await Promise.all([
+      supabase
+        .from('student_answers')
+        .select('*, students!inner(name)')
+        .eq('session_id', sessionId)
+        .eq('students.name', studentName)
+        .order('submitted_at'),
+      supabase
+        .from('quiz_results')
+        .select('*, students!inner(name)')
+        .eq('session_id', sessionId)
+        .eq('students.name', studentName)
+        .order('completed_at')
+        .limit(1)
+        .maybeSingle()
+    ]);
+
+    const error = answersResponse.error || resultResponse.error;
+    if (error) {
+      console.error("Error fetching student progress:", error);
+      return null;
+    }
+
+    const answers = answersResponse.data.map(answer => formatAnswer(answer, studentName));
+    const result = resultResponse.data;
+    return {
+      answers,
+      result: result
+        ? {
+            studentId: result.student_id,
+            studentName,
+            quizId: result.quiz_id,
+            score: result.score,
+            totalQuestions: result.total_questions,
+            maxScore: result.max_score ?? undefined,
+            points: result.points ?? undefined,
+            teamId: result.team_id ?? undefined,
+            sessionId: result.session_id ?? undefined,
+            submittedLate: result.submitted_late,
+            answers
+          }
+        : undefined
+    };
+  } catch (error) {
+    console.error("Error fetching student progress:", error);
+    return null;
   }
 };
 
@@ -431,40 +1196,15 @@ export const submitQuizResult = async (result: QuizResult) => {
   try {
     console.log("Submitting quiz result:", result);
     
-    // Check if a student with this name already exists
-    const { data: existingStudent, error: searchError } = await supabase
-      .from('students')
-      .select('id')
-      .eq('name', result.studentName)
-      .limit(1)
-      .maybeSingle();
-    
-    let studentId: string;
-    
-    if (existingStudent) {
-      // Use existing student ID
-      studentId = existingStudent.id;
-      console.log(`Using existing student ID: ${studentId} for quiz result`);
-    } else {
-      // Create a new student record only if one doesn't exist
-      const { data: newStudent, error: createError } = await supabase
-        .from('students')
-        .insert({ name: result.studentName })
-        .select()
-        .single();
-        
-      if (createError) {
-        console.error("Error creating student:", createError);
-        toast.error("Failed to create student record");
-        throw createError;
-      }
-      
-      studentId = newStudent.id;
-      console.log(`Created new student ID: ${studentId} for quiz result`);
+    const studentId = await findOrCreateStudent(result.studentName);
+    if (!studentId) {
+      toast.error("Failed to create student record");
+      throw new Error(`Could not create a student record for ${result.studentName}`);
     }
     
-    // Create the quiz result record
-    const { error: resultError } = await supabase
+    // Create the quiz result record. Homework handed in late comes back
+    // marked, with any penalty taken off.
+    const { data: savedResult, error: resultError } = await supabase
       .from('quiz_results')
       .insert({
         id: generateUUID(),
@@ -472,39 +1212,372 @@ export const submitQuizResult = async (result: QuizResult) => {
         student_id: studentId,
         score: result.score,
         total_questions: result.totalQuestions,
+        max_score: result.maxScore ?? null,
+        points: result.points ?? null,
+        team_id: result.teamId ?? null,
+        session_id: result.sessionId,
         completed_at: new Date().toISOString()
-      });
+      })
+      .select('score, points, submitted_late')
+      .single();
 
     if (resultError) {
       console.error("Failed to submit quiz result:", resultError);
-      toast.error("Failed to submit quiz result");
+      toast.error(resultError.code === 'P0001' ? resultError.message : "Failed to submit quiz result");
       throw resultError;
     }
     
-    // Create answer records - but only if they don't already exist
-    for (const answer of result.answers) {
-      const { error: answerError } = await supabase
-        .from('student_answers')
-        .insert({
-          id: generateUUID(),
-          quiz_id: answer.quizId,
-          student_id: studentId,
-          question_id: answer.questionId,
-          selected_option: answer.selectedOption,
-          is_correct: answer.correct,
-          time_spent: answer.timeSpent
-        });
-
-      if (answerError) {
-        console.error("Failed to save student answer:", answerError);
-      }
-    }
-
+    // Answers were already saved one at a time by submitAnswer, where the
+    // server checked them against their deadlines
     toast.success("Quiz result submitted!");
-    return { ...result, studentId };
+    return {
+      ...result,
+      studentId,
+      score: savedResult.score,
+      points: savedResult.points ?? undefined,
+      submittedLate: savedResult.submitted_late
+    };
   } catch (error) {
     console.error("Error submitting quiz result:", error);
     toast.error("Failed to submit quiz result");
     throw error;
   }
 };
+
+// Put a student on a team, or on the smallest one when the quiz assigns
+// teams itself. Returns the team they ended up on.
+export const joinTeam = async (quizId: string, studentId: string, teamId?: string) => {
+  try {
+    const { data, error } = await supabase.rpc('join_team', {
+      p_quiz_id: quizId,
+      p_student_id: studentId,
+      p_team_id: teamId
+    });
+
+    if (error) {
+      toast.error(error.code === 'P0001' ? error.message : "Failed to join a team");
+      console.error(error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error joining team:", error);
+    toast.error("Failed to join a team");
+    return null;
+  }
+};
+
+// Answers given in a run of a quiz, oldest first, with who gave them. Pass
+// since to only fetch answers saved from then on. Null when they couldn't be
+// fetched, so the caller knows to try again.
+export const fetchLiveAnswers = async (quizId: string, sessionId?: string, since?: number): Promise<StudentAnswer[] | null> => {
+  try {
+    let query = supabase
+      .from('student_answers')
+      .select('*, students(name)')
+      .eq('quiz_id', quizId)
+      .order('submitted_at'); // Streaks on the leaderboard depend on answer order
+    if (sessionId) query = query.eq('session_id', sessionId);
+    if (since !== undefined) query = query.gte('submitted_at', new Date(since).toISOString());
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Error fetching live answers:", error);
+      return null;
+    }
+
+    return data.map(answer =>
+      formatAnswer(answer, answer.students?.name || `Student ${answer.student_id.substring(0, 4)}`)
+    );
+  } catch (error) {
+    console.error("Error fetching live answers:", error);
+    return null;
+  }
+};
+
+export const fetchStudentNames = async (studentIds: string[]) => {
+  try {
+    const { data, error } = await supabase
+      .from('students')
+      .select('id, name')
+      .in('id', studentIds);
+
+    if (error) {
+      console.error("Error fetching student names:", error);
+      return new Map<string, string>();
+    }
+
+    return new Map(data.map(student => [student.id, student.name]));
+  } catch (error) {
+    console.error("Error fetching student names:", error);
+    return new Map<string, string>();
+  }
+};
+
+export const fetchTeamMembers = async (quizId: string): Promise<TeamMember[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('team_id, students(name)')
+      .eq('quiz_id', quizId);
+
+    if (error) {
+      console.error("Error fetching team members:", error);
+      return [];
+    }
+
+    return data.map(member => ({
+      studentName: member.students?.name || "Unknown Student",
+      teamId: member.team_id
+    }));
+  } catch (error) {
+    console.error("Error fetching team members:", error);
+    return [];
+  }
+};
+
+export const fetchRoomBans = async (sessionId: string): Promise<RoomBan[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('room_bans')
+      .select('id, student_name, device_id')
+      .eq('session_id', sessionId);
+
+    if (error) {
+      console.error("Error fetching room bans:", error);
+      return [];
+    }
+
+    return data.map(ban => ({
+      id: ban.id,
+      studentName: ban.student_name,
+      deviceId: ban.device_id
+    }));
+  } catch (error) {
+    console.error("Error fetching room bans:", error);
+    return [];
+  }
+};
+
+// Keep a student's name, and the device they joined from, out of the session's room
+export const banParticipant = async (
+  quizId: string,
+  sessionId: string,
+  studentName: string,
+  deviceId?: string
+): Promise<RoomBan | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('room_bans')
+      .insert({ quiz_id: quizId, session_id: sessionId, student_name: studentName, device_id: deviceId || null })
+      .select('id, student_name, device_id')
+      .single();
+
+    if (error) {
+      toast.error("Failed to remove student");
+      console.error(error);
+      return null;
+    }
+
+    return {
+      id: data.id,
+      studentName: data.student_name,
+      deviceId: data.device_id
+    };
+  } catch (error) {
+    console.error("Error removing student:", error);
+    toast.error("Failed to remove student");
+    return null;
+  }
+};
+
+// Renames the student in one session only; their other sessions keep the old name
+export const renameParticipant = async (sessionId: string, oldName: string, newName: string) => {
+  try {
+    const { error } = await supabase.rpc('rename_participant', {
+      p_session_id: sessionId,
+      p_old_name: oldName,
+      p_new_name: newName
+    });
+
+    if (error) {
+      toast.error(error.code === 'P0001' ? error.message : "Failed to rename student");
+      console.error(error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error renaming student:", error);
+    toast.error("Failed to rename student");
+    return false;
+  }
+};
+
+// Everyone who has finished the quiz so far, best first. Limited to one
+// session when given, so other class periods don't show up on the board.
+export const fetchLeaderboard = async (quizId: string, sessionId?: string): Promise<LeaderboardEntry[]> => {
+  try {
+    const resultsQuery = supabase
+      .from('quiz_results')
+      .select('score, points, students(name)')
+      .eq('quiz_id', quizId);
+    const { data, error } = await (sessionId ? resultsQuery.eq('session_id', sessionId) : resultsQuery);
+
+    if (error) {
+      console.error("Error fetching leaderboard:", error);
+      return [];
+    }
+
+    return sortLeaderboard(
+      data.map(result => ({
+        studentName: result.students?.name || "Unknown Student",
+        points: result.points ?? result.score
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching leaderboard:", error);
+    return [];
+  }
+};
+
+// Accept a free-text answer after the fact and regrade the answers it now covers
+export const addAcceptedAnswer = async (questionId: string, acceptedAnswer: string) => {
+  try {
+    const { data: questionRow, error: questionError } = await supabase
+      .from('quiz_questions')
+      .select('id, text, options, correct_option, question_type, answer_key, points, penalty')
+      .eq('id', questionId)
+      .single();
+
+    if (questionError || !questionRow) {
+      console.error("Error loading question:", questionError);
+      toast.error("Failed to load question");
+      return false;
+    }
+
+    const question = formatQuestion(questionRow);
+    const updatedQuestion: QuizQuestion = {
+      ...question,
+      acceptedAnswers: [...(question.acceptedAnswers || []), acceptedAnswer.trim()]
+    };
+
+    const { error: updateError } = await supabase
+      .from('quiz_questions')
+      .update({ answer_key: buildAnswerKey(updatedQuestion) })
+      .eq('id', questionId);
+
+    if (updateError) {
+      console.error("Error updating accepted answers:", updateError);
+      toast.error("Failed to add accepted answer");
+      return false;
+    }
+
+    const { data: wrongAnswers, error: answersError } = await supabase
+      .from('student_answers')
+      .select('id, quiz_id, student_id, session_id, selected_option, text_value, credit, points')
+      .eq('question_id', questionId)
+      .eq('is_correct', false);
+
+    if (answersError) {
+      console.error("Error loading answers to regrade:", answersError);
+      toast.error("Accepted answer added, but existing answers were not regraded");
+      return true;
+    }
+
+    const regraded = (wrongAnswers || []).filter(answer =>
+      gradeAnswer(updatedQuestion, {
+        selectedOption: answer.selected_option,
+        textValue: answer.text_value
+      }).correct
+    );
+
+    // Leaderboard points depend on the rest of the student's answers, so
+    // they're worked out again with the quiz's own scoring
+    const [quizResponse, questionsResponse] = regraded.length > 0
+      ? await Promise.all([
+          supabase.from('quizzes').select('scoring, time_per_question').eq('id', regraded[0].quiz_id).single(),
+          supabase.from('quiz_questions').select('*').eq('quiz_id', regraded[0].quiz_id)
+        ])
+      : [null, null];
+    const scoredQuiz = quizResponse?.data && questionsResponse?.data
+      ? {
+          scoring: quizResponse.data.scoring as QuizScoring,
+          timePerQuestion: quizResponse.data.time_per_question,
+          questions: questionsResponse.data.map(formatQuestion)
+        }
+      : null;
+
+    for (const answer of regraded) {
+      const { error: regradeError } = await supabase
+        .from('student_answers')
+        .update({ is_correct: true, credit: 1, points: getQuestionPoints(question) })
+        .eq('id', answer.id);
+
+      if (regradeError) {
+        console.error("Failed to regrade answer:", regradeError);
+        continue;
+      }
+
+      // Keep the student's stored total for that session in step with the
+      // regraded answer
+      const resultQuery = supabase
+        .from('quiz_results')
+        .select('id, score, points')
+        .eq('quiz_id', answer.quiz_id)
+        .eq('student_id', answer.student_id);
+      const { data: result } = await (answer.session_id
+        ? resultQuery.eq('session_id', answer.session_id)
+        : resultQuery.is('session_id', null)
+      ).maybeSingle();
+
+      if (!result) continue;
+
+      const update: { score: number; points?: number } = {
+        score: Number(result.score) + getQuestionPoints(question) - getAnswerPoints({ correct: false, ...answer })
+      };
+
+      if (result.points !== null && scoredQuiz) {
+        const sessionAnswersQuery = supabase
+          .from('student_answers')
+          .select('*')
+          .eq('quiz_id', answer.quiz_id)
+          .eq('student_id', answer.student_id);
+        const { data: sessionAnswers } = await (answer.session_id
+          ? sessionAnswersQuery.eq('session_id', answer.session_id)
+          : sessionAnswersQuery.is('session_id', null)
+        ).order('submitted_at');
+
+        if (sessionAnswers) {
+          const regradedAnswers = sessionAnswers.map(row => formatAnswer(row, ""));
+          const previousAnswers = regradedAnswers.map(row =>
+            row.questionId === questionId
+              ? { ...row, correct: false, credit: answer.credit ?? undefined, points: answer.points ?? undefined }
+              : row
+          );
+          const strategy = getScoringStrategy(scoredQuiz);
+          update.points = Number(result.points)
+            + strategy.scoreAnswers(scoredQuiz, regradedAnswers)
+            - strategy.scoreAnswers(scoredQuiz, previousAnswers);
+        }
+      }
+
+      await supabase
+        .from('quiz_results')
+        .update(update)
+        .eq('id', result.id);
+    }
+
+    toast.success(
+      regraded.length > 0
+        ? `Added accepted answer and regraded ${regraded.length} response${regraded.length === 1 ? "" : "s"}`
+        : "Added accepted answer"
+    );
+    return true;
+  } catch (error) {
+    console.error("Error adding accepted answer:", error);
+    toast.error("Failed to add accepted answer");
+    return false;
+  }
+};
@@ -1,7 +1,12 @@
+import { QuestionType, SessionMode, SessionSettings } from "./quiz";
+
 export interface QuestionAnalytics {
   questionId: string;
   questionText: string;
+  questionType: QuestionType;
   correctOption: number;
+  correctOptions: number[]; // Every option in the answer key
+  answerKeyLabel?: string; // Human-readable answer for questions without options
   totalResponses: number;
   optionDistribution: {
     optionIndex: number;
@@ -10,8 +15,28 @@ export interface QuestionAnalytics {
     percentage: number;
     isCorrect: boolean;
   }[];
-  difficultyScore: number; // Percentage who got it right
-  discriminationIndex: number; // How well this question separates high and low performers
+  // Most common wrong answers, for questions answered without options
+  wrongAnswers?: {
+    answer: string;
+    count: number;
+    percentage: number;
+  }[];
+  // How often each position (ordering) or pair (matching) was gotten wrong
+  itemBreakdown?: {
+    label: string;
+    wrongCount: number;
+    percentageWrong: number;
+    commonMistake?: string; // Most frequent wrong placement
+  }[];
+  // How often each word or phrase was given, for word cloud questions
+  wordFrequencies?: {
+    word: string;
+    count: number;
+  }[];
+  averageRating?: number; // Mean scale position (1 = lowest), for Likert questions
+  graded: boolean; // Ungraded questions have no difficulty or discrimination
+  difficultyScore?: number; // Average credit earned, as a percentage
+  discriminationIndex?: number; // How well this question separates high and low performers
 }
 
 export interface QuizAnalytics {
@@ -19,9 +44,18 @@ export interface QuizAnalytics {
   quizTitle: string;
   totalStudents: number;
   totalQuestions: number;
+  maxScore: number; // Sum of question points
   averageScore: number;
   questions: QuestionAnalytics[];
   completionRate: number;
+  // Results per team, for quizzes played in teams
+  teamBreakdown?: {
+    teamId: string;
+    teamName: string;
+    students: number;
+    averageScore: number; // Members' average percentage
+    teamPoints: number; // Average or sum of members' points, as the quiz scores its teams
+  }[];
   timeAnalytics: {
     averageTimePerQuestion: number;
     questionTimeBreakdown: {
@@ -33,18 +67,38 @@ export interface QuizAnalytics {
   };
 }
 
+// How one session of a quiz went, to compare its runs with each other
+export interface SessionSummary {
+  sessionId: string;
+  roomCode: string;
+  mode: SessionMode;
+  startedAt: number; // When the quiz started, or the lobby opened if it never did
+  ended: boolean;
+  settings: SessionSettings;
+  participants: number; // Students who joined
+  completions: number;
+  averageScore: number; // Average percentage over completed results
+  averageTime: number; // Seconds per answer
+}
+
 export interface DetailedQuizReport {
   summary: QuizAnalytics;
   studentResponses: {
     studentId: string;
     studentName: string;
     score: number;
+    maxScore: number;
     percentage: number;
     completedAt: string;
     timeSpent: number;
     questionResponses: {
       questionId: string;
       selectedOption: number;
+      selectedOptions?: number[];
+      numericValue?: number | null;
+      textValue?: string | null;
+      orderedItems?: number[];
+      matches?: number[];
       isCorrect: boolean;
       timeSpent: number;
     }[];
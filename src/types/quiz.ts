@@ -1,8 +1,89 @@
+export type QuestionType =
+  | "multiple_choice"
+  | "multi_select"
+  | "numeric"
+  | "short_text"
+  | "ordering"
+  | "matching"
+  | "poll"
+  | "likert"
+  | "word_cloud";
+
+// How a multi-select answer is scored: only an exact match earns the point,
+// or each correctly classified option earns its share of it.
+export type ScoringMode = "all_or_nothing" | "partial";
+
+// Whether a numeric tolerance is a fixed amount or a percentage of the answer
+export type ToleranceMode = "absolute" | "relative";
+
+// When students see explanations: right after answering each question, or
+// all together on the results screen
+export type FeedbackMode = "immediate" | "end";
+
+// Who moves students through the questions: each student at their own pace,
+// or the teacher for the whole class at once
+export type PaceMode = "self" | "teacher";
+
+// How the leaderboard ranks students: by their score, or by points that
+// reward fast answers and streaks of correct ones
+export type QuizScoring = "standard" | "speed";
+
+// How a team's score is worked out from its members' points
+export type TeamScoring = "average" | "sum";
+
+// Whether students pick their own team when they join, or are spread evenly
+export type TeamAssignment = "choose" | "auto";
+
+// Where a teacher-paced quiz is up to, shared with every student in the room
+export type LiveCursor = {
+  questionIndex: number; // Equals the number of questions once the teacher has finished
+  startedAt: number; // When the current question was opened, ms since epoch
+  revealed: boolean; // Whether the teacher has revealed the answer
+};
+
+// Pause and extra-time state of a running quiz, in either pacing mode
+export type LiveClock = {
+  pausedAt: number | null; // When the teacher paused the quiz, null while it's running
+  extraSeconds: number; // Extra time added to the current question
+};
+
 export type QuizQuestion = {
   id: string;
   text: string;
-  options: string[];
+  options: string[]; // For "ordering" these are the items in their correct order
+  // and for "matching" the left-hand items
   correctOption: number;
+  type?: QuestionType; // Defaults to "multiple_choice"
+  timeLimit?: number; // Seconds, overrides the quiz's timePerQuestion
+  points?: number; // Defaults to 1, 0 for warm-up questions that don't count
+  penalty?: number; // Points taken off for a wrong answer (negative marking)
+  poolId?: string; // Pool the question is drawn from, asked to everyone when unset
+  explanation?: string; // Why the answer is what it is, shown after answering
+  optionExplanations?: string[]; // Rationale for each option, lines up with options
+  correctOptions?: number[]; // Answer key for "multi_select"
+  scoringMode?: ScoringMode;
+  correctValue?: number; // Answer key for "numeric"
+  tolerance?: number;
+  toleranceMode?: ToleranceMode;
+  unit?: string;
+  acceptedAnswers?: string[]; // Answer key for "short_text"
+  acceptedPatterns?: string[]; // Regular expressions, matched against the whole answer
+  caseSensitive?: boolean;
+  normalizeWhitespace?: boolean; // Defaults to true
+  typoTolerance?: number; // Maximum edit distance from an accepted answer
+  matchTargets?: string[]; // Right-hand items for "matching", matchTargets[i] pairs with options[i]
+};
+
+export type QuizTeam = {
+  id: string;
+  name: string;
+};
+
+// A group of interchangeable questions; each student is asked drawCount of them
+export type QuestionPool = {
+  id: string;
+  name: string;
+  drawCount: number;
 };
 
 export type Quiz = {
@@ -10,11 +91,88 @@ export type Quiz = {
   title: string;
   description: string;
   timePerQuestion: number;
+  feedbackMode?: FeedbackMode; // Defaults to "end"
+  paceMode?: PaceMode; // Defaults to "self"
+  scoring?: QuizScoring; // Defaults to "standard"
+  shuffleQuestions?: boolean; // Each student gets their own question order
+  shuffleOptions?: boolean; // Each student gets their own option order
   questions: QuizQuestion[];
+  pools?: QuestionPool[];
+  teams?: QuizTeam[]; // Played in teams when there are any
+  teamScoring?: TeamScoring; // Defaults to "average"
+  teamAssignment?: TeamAssignment; // Defaults to "choose"
   createdAt: number;
   createdBy: string;
-  roomCode?: string;
+  roomCode?: string; // The current session's room code
   isActive?: boolean;
+  lobbyOpen?: boolean; // Students can join and wait for the quiz to start
+  sessionId?: string; // The session that is open or ran last
+  schedule?: QuizSchedule;
+  homework?: HomeworkSettings; // Set when a student is taking the quiz as homework
+};
+
+// When a quiz starts and closes by itself. It goes live at startAt, and
+// closes at endAt or durationMinutes after it starts, whichever comes first.
+export type QuizSchedule = {
+  startAt?: number;
+  endAt?: number;
+  durationMinutes?: number;
+  launchedAt?: number; // When the schedule last started the quiz
+  closedAt?: number; // When the schedule last closed it
+};
+
+export type ScheduleStatus = "upcoming" | "closed" | "missed";
+
+// The settings a quiz ran with, as they were when its session opened
+export type SessionSettings = Pick<
+  Quiz,
+  "timePerQuestion" | "feedbackMode" | "paceMode" | "scoring" | "shuffleQuestions" | "shuffleOptions" | "teamScoring" | "teamAssignment"
+> & {
+  questionCount: number;
+};
+
+// Whether a session is run live by the teacher, or taken as homework by
+// each student in their own time
+export type SessionMode = "live" | "homework";
+
+// What happens to homework handed in after it's due: turned away, accepted
+// and marked late, or marked late and docked latePenaltyPercent of its score
+export type LatePolicy = "reject" | "accept" | "penalty";
+
+export type HomeworkSettings = {
+  availableFrom: number; // Students can start it from then
+  dueAt: number;
+  latePolicy: LatePolicy;
+  latePenaltyPercent: number; // 0 to 100, used with the "penalty" policy
+};
+
+// Where homework stands for students opening its link
+export type HomeworkAvailability = "upcoming" | "open" | "late" | "closed";
+
+// One run of a quiz, e.g. for one class period, with its own room code.
+// Answers and results are kept per session.
+export type QuizSession = {
+  id: string;
+  quizId: string;
+  roomCode: string;
+  mode: SessionMode;
+  settings: SessionSettings;
+  homework?: HomeworkSettings; // Set for homework sessions
+  openedAt: number;
+  startedAt?: number; // Missing while students are still in the lobby
+  endedAt?: number; // When homework was closed early, or the live quiz ended
+  participantCount: number; // Students who joined
+};
+
+// How far one student who opened a homework link has got with it
+export type HomeworkProgress = {
+  studentName: string;
+  joinedAt: number;
+  answered: number; // Questions answered so far
+  completedAt?: number; // Missing until they hand it in
+  submittedLate: boolean;
+  score?: number;
+  maxScore?: number;
 };
 
 export type StudentAnswer = {
@@ -23,31 +181,172 @@ export type StudentAnswer = {
   quizId: string;
   questionId: string;
   selectedOption: number;
+  selectedOptions?: number[]; // Set for "multi_select" questions
+  numericValue?: number | null; // Set for "numeric" questions
+  textValue?: string | null; // Set for "short_text" questions
+  orderedItems?: number[]; // Item indices in the order the student placed them
+  matches?: number[]; // matches[i] is the target picked for options[i], or -1
+  optionOrder?: number[]; // Canonical option index shown at each position, when shuffled
   timeSpent: number;
   correct: boolean;
+  credit?: number; // Fraction of the question earned, 0 to 1
+  points?: number; // Points earned, negative when a penalty applied
+  sessionId?: string; // Filed under the quiz's current session when missing
+  submittedAt?: number; // When the server saved it
+};
+
+// A graded answer shown back to the student, against the question as authored
+export type AnswerFeedback = {
+  question: QuizQuestion;
+  answer?: StudentAnswer; // Missing when the teacher revealed a question the student didn't answer
+};
+
+export type AnswerGrade = {
+  correct: boolean;
+  credit: number;
+  points: number;
+  timeSpent?: number; // Seconds, as measured by the server when it saved the answer
+};
+
+// What became of an answer sent to the server: saved and graded, turned away
+// (too late, or the student was removed), or not sent for want of a connection
+export type AnswerDelivery =
+  | { status: "saved"; grade: AnswerGrade }
+  | { status: "rejected" }
+  | { status: "unsent" };
+
+// An answer kept on the device until the server acknowledges it, graded
+// locally in the meantime
+export type QueuedAnswer = {
+  key: string; // Idempotency key, one per participant and question
+  answer: Omit<StudentAnswer, "correct" | "credit" | "points">;
+  grade: AnswerGrade;
+  attempts: number; // Failed tries so far
+  queuedAt: number;
+};
+
+// The answers this device still has to send
+export type AnswerSync = {
+  pending: number;
+  offline: boolean; // The last try couldn't reach the server
+};
+
+// A student's clock on a question as issued by the server, converted to this
+// device's clock (ms since epoch)
+export type QuestionTiming = {
+  startedAt: number;
+  deadline: number;
 };
 
 export type QuizResult = {
   studentId: string;
   studentName: string;
   quizId: string;
-  score: number;
-  totalQuestions: number;
+  score: number; // Sum of the points earned
+  maxScore?: number; // Points available, missing on results saved before point values
+  totalQuestions: number; // Questions this student was asked, fewer than the quiz has when drawing from pools
+  points?: number; // Leaderboard points, missing on results saved before leaderboards
+  teamId?: string; // Team the student played for, in team mode
+  sessionId?: string; // Missing on results saved before sessions
+  submittedLate?: boolean; // Homework handed in after it was due
   answers: StudentAnswer[];
 };
 
+// What a student has already done in a session, to pick the quiz back up
+// after a reload or a dropped connection
+export type StudentProgress = {
+  answers: StudentAnswer[]; // In the order they were given
+  result?: QuizResult; // Set once they've handed the quiz in
+};
+
+export type LeaderboardEntry = {
+  studentName: string;
+  points: number;
+};
+
+// A student in the room, as seen through Realtime presence. Students who
+// leave stay listed as disconnected so the teacher can tell who dropped out.
+export type Participant = {
+  name: string;
+  joinedAt: number;
+  connected: boolean;
+  deviceId?: string; // The device the student joined from
+};
+
+// A name or device the teacher has kept out of a quiz's room
+export type RoomBan = {
+  id: string;
+  studentName: string | null;
+  deviceId: string | null;
+};
+
+// A student on a team in the current run of a quiz
+export type TeamMember = {
+  studentName: string;
+  teamId: string;
+};
+
+export type TeamStanding = {
+  teamId: string;
+  teamName: string;
+  points: number;
+  memberCount: number; // Members with points so far
+};
+
 export type QuizContextType = {
   quizzes: Quiz[];
   createQuiz: (quiz: Omit<Quiz, "id" | "createdAt" | "createdBy">) => void;
   deleteQuiz: (quizId: string) => void;
-  activeQuiz: Quiz | null;
+  activeQuiz: Quiz | null; // The quiz the student is taking
+  liveQuizzes: Quiz[]; // The teacher's quizzes with a lobby open or running, one room each
   launchQuiz: (quizId: string) => void;
-  endQuiz: () => void;
+  openLobby: (quizId: string) => Promise<void>;
+  closeLobby: (quizId: string) => Promise<void>;
+  participants: Participant[]; // Students in the student's room right now, or earlier in this session
+  removedFromRoom: boolean; // Set for a student the teacher has removed
+  endQuiz: (quizId: string) => void;
+  // Pass null to take the quiz off its schedule
+  scheduleQuiz: (quizId: string, schedule: QuizSchedule | null) => Promise<boolean>;
   currentQuestion: number;
   setCurrentQuestion: React.Dispatch<React.SetStateAction<number>>;
-  submitAnswer: (answer: Omit<StudentAnswer, "correct">) => Promise<boolean>;
-  studentAnswers: StudentAnswer[];
+  liveCursor: LiveCursor | null; // Set while a teacher-paced quiz is running
+  liveClock: LiveClock | null; // Set while any quiz is running
+  // Starts the student's server-side clock on a question; null when it isn't open
+  startQuestion: (quizId: string, questionId: string, studentName: string, sessionId?: string) => Promise<QuestionTiming | null>;
+  // Queues the answer and sends it; an answer that can't be sent yet is
+  // graded on the device and sent again until the server has it
+  submitAnswer: (answer: Omit<StudentAnswer, "correct" | "credit" | "points">) => Promise<AnswerGrade>;
+  answerSync: AnswerSync;
+  waitForAnswerSync: () => Promise<void>; // Resolves once every queued answer has been sent
+  fetchStudentProgress: (sessionId: string, studentName: string) => Promise<StudentProgress | null>;
   results: QuizResult[];
-  submitQuizResult: (result: QuizResult) => Promise<void>;
+  sessions: QuizSession[]; // Every run of the teacher's quizzes
+  assignHomework: (quizId: string, homework: HomeworkSettings) => Promise<boolean>;
+  closeHomework: (sessionId: string) => Promise<void>;
+  fetchHomeworkProgress: (sessionId: string) => Promise<HomeworkProgress[]>;
+  // Resolves to the result as saved, after any late penalty
+  submitQuizResult: (result: QuizResult) => Promise<QuizResult>;
+  fetchLeaderboard: (quizId: string, sessionId?: string) => Promise<LeaderboardEntry[]>;
+  addAcceptedAnswer: (questionId: string, answer: string) => Promise<void>;
   loading: boolean;
 };
+
+// One of the teacher's rooms, with its lobby open or its quiz running. Each
+// room follows its own students, answers and live state.
+export type LiveRoomContextType = {
+  quiz: Quiz;
+  participants: Participant[]; // Students in the room right now, or earlier in this session
+  roomBans: RoomBan[];
+  removeParticipant: (name: string) => Promise<void>;
+  renameParticipant: (name: string, newName: string) => Promise<boolean>;
+  currentQuestion: number; // The question the teacher is looking at
+  liveCursor: LiveCursor | null; // Set while a teacher-paced quiz is running
+  goToQuestion: (questionIndex: number) => Promise<void>;
+  revealAnswers: () => Promise<void>;
+  liveClock: LiveClock | null; // Set while the quiz is running
+  pauseQuiz: () => Promise<void>;
+  resumeQuiz: () => Promise<void>;
+  extendTime: (seconds: number) => Promise<void>;
+  studentAnswers: StudentAnswer[];
+  teamMembers: TeamMember[]; // Loaded in team mode
+};
@@ -1,40 +1,78 @@
-import { QuizResult, Quiz } from "@/types/quiz";
-import { QuestionAnalytics, QuizAnalytics, DetailedQuizReport } from "@/types/analytics";
+import { QuizResult, Quiz, QuizSession } from "@/types/quiz";
+import { QuestionAnalytics, QuizAnalytics, DetailedQuizReport, SessionSummary } from "@/types/analytics";
+import {
+  getQuestionType,
+  getCorrectOptions,
+  getAnswerCredit,
+  getAnswerKeyLabel,
+  getMaxScore
+} from "@/utils/questionGrading";
+import { getQuestionTypeDefinition } from "@/questionTypes";
+import { toOptionLetters } from "@/questionTypes/analytics";
+import { buildTeamStandings } from "@/utils/teamStandings";
+
+// Highest score the result could have reached; results saved before point
+// weights existed were out of one point per question
+const getResultMaxScore = (result: QuizResult) =>
+  typeof result.maxScore === "number" ? result.maxScore : result.totalQuestions;
+
+// A result's score as a percentage of its max score. Negative marking can push
+// raw scores below zero, which reads as 0%.
+export const getResultPercentage = (result: QuizResult) => {
+  const maxScore = getResultMaxScore(result);
+  return maxScore > 0 ? Math.max(0, (result.score / maxScore) * 100) : 0;
+};
 
 export const processQuestionAnalytics = (
   quiz: Quiz,
   results: QuizResult[]
 ): QuestionAnalytics[] => {
   return quiz.questions.map((question) => {
-    // Get all answers for this question
-    const questionAnswers = results.flatMap(result => 
+    // Only students who were asked this question count towards it; with
+    // question pools, others never saw it
+    const askedResults = results.filter(result =>
+      result.answers.some(answer => answer.questionId === question.id)
+    );
+
+    // Get all answers for this question. Answers are stored against canonical
+    // option indices even when a student saw the options shuffled.
+    const questionAnswers = askedResults.flatMap(result => 
       result.answers.filter(answer => answer.questionId === question.id)
     );
 
     const totalResponses = questionAnswers.length;
-    
-    // Calculate option distribution
-    const optionCounts = question.options.map((_, index) => 
-      questionAnswers.filter(answer => answer.selectedOption === index).length
-    );
+    const questionType = getQuestionType(question);
+    const definition = getQuestionTypeDefinition(questionType);
+    // Option charts, wrong-answer buckets and so on depend on the question type
+    const typeAnalytics = definition.analyze(question, questionAnswers);
 
-    const optionDistribution = question.options.map((optionText, index) => ({
-      optionIndex: index,
-      optionText,
-      count: optionCounts[index] || 0,
-      percentage: totalResponses > 0 ? Math.round((optionCounts[index] || 0) / totalResponses * 100) : 0,
-      isCorrect: index === question.correctOption
-    }));
+    const baseAnalytics = {
+      questionId: question.id,
+      questionText: question.text,
+      questionType,
+      graded: definition.graded,
+      correctOption: question.correctOption,
+      correctOptions: getCorrectOptions(question),
+      answerKeyLabel: getAnswerKeyLabel(question),
+      totalResponses,
+      ...typeAnalytics
+    };
 
-    // Calculate difficulty (percentage who got it right)
-    const correctAnswers = questionAnswers.filter(answer => answer.correct).length;
-    const difficultyScore = totalResponses > 0 ? Math.round((correctAnswers / totalResponses) * 100) : 0;
+    // Ungraded questions only get their response distribution
+    if (!definition.graded) {
+      return baseAnalytics;
+    }
+
+    // Calculate difficulty (average credit, which is the share who got it right
+    // unless partial credit is in play)
+    const earnedCredit = questionAnswers.reduce((sum, answer) => sum + getAnswerCredit(answer), 0);
+    const difficultyScore = totalResponses > 0 ? Math.round((earnedCredit / totalResponses) * 100) : 0;
 
     // Calculate discrimination index (simplified version)
     // This measures how well the question separates high and low performers
-    const studentScores = results.map(result => ({
+    const studentScores = askedResults.map(result => ({
       studentId: result.studentId,
-      totalScore: (result.score / result.totalQuestions) * 100,
+      totalScore: getResultPercentage(result),
       gotThisCorrect: result.answers.find(a => a.questionId === question.id)?.correct || false
     }));
 
@@ -50,24 +88,44 @@ export const processQuestionAnalytics = (
       : 0;
 
     return {
-      questionId: question.id,
-      questionText: question.text,
-      correctOption: question.correctOption,
-      totalResponses,
-      optionDistribution,
+      ...baseAnalytics,
       difficultyScore,
       discriminationIndex
     };
   });
 };
 
+// How each team did, best first. Results carry the team they were earned
+// for, so this works across every session the results come from.
+const processTeamAnalytics = (quiz: Quiz, results: QuizResult[]): QuizAnalytics["teamBreakdown"] => {
+  if (!quiz.teams?.length) return undefined;
+
+  const standings = buildTeamStandings(
+    quiz,
+    results.map(result => ({ teamId: result.teamId, points: result.points ?? result.score }))
+  );
+
+  return standings.map(standing => {
+    const teamResults = results.filter(result => result.teamId === standing.teamId);
+    return {
+      teamId: standing.teamId,
+      teamName: standing.teamName,
+      students: teamResults.length,
+      averageScore: teamResults.length > 0
+        ? Math.round(teamResults.reduce((sum, result) => sum + getResultPercentage(result), 0) / teamResults.length)
+        : 0,
+      teamPoints: standing.points
+    };
+  });
+};
+
 export const processQuizAnalytics = (
   quiz: Quiz,
   results: QuizResult[]
 ): QuizAnalytics => {
   const totalStudents = results.length;
   const averageScore = totalStudents > 0 
-    ? Math.round(results.reduce((sum, result) => sum + (result.score / result.totalQuestions) * 100, 0) / totalStudents)
+    ? Math.round(results.reduce((sum, result) => sum + getResultPercentage(result), 0) / totalStudents)
     : 0;
 
   const questions = processQuestionAnalytics(quiz, results);
@@ -94,7 +152,9 @@ export const processQuizAnalytics = (
     quizId: quiz.id,
     quizTitle: quiz.title,
     totalStudents,
+    teamBreakdown: processTeamAnalytics(quiz, results),
     totalQuestions: quiz.questions.length,
+    maxScore: getMaxScore(quiz.questions),
     averageScore,
     questions,
     completionRate: 100, // Assuming all results are completed quizzes
@@ -115,12 +175,18 @@ export const generateDetailedReport = (
     studentId: result.studentId,
     studentName: result.studentName,
     score: result.score,
-    percentage: Math.round((result.score / result.totalQuestions) * 100),
+    maxScore: getResultMaxScore(result),
+    percentage: Math.round(getResultPercentage(result)),
     completedAt: new Date().toISOString(), // Using current date as fallback
     timeSpent: result.answers.reduce((sum, answer) => sum + answer.timeSpent, 0),
     questionResponses: result.answers.map(answer => ({
       questionId: answer.questionId,
       selectedOption: answer.selectedOption,
+      selectedOptions: answer.selectedOptions,
+      numericValue: answer.numericValue,
+      textValue: answer.textValue,
+      orderedItems: answer.orderedItems,
+      matches: answer.matches,
       isCorrect: answer.correct,
       timeSpent: answer.timeSpent
     }))
@@ -132,6 +198,39 @@ export const generateDetailedReport = (
   };
 };
 
+// Each session of a quiz next to the others, oldest first. Results saved
+// before sessions belong to none of them and are left out.
+export const processSessionComparison = (
+  quiz: Quiz,
+  sessions: QuizSession[],
+  results: QuizResult[]
+): SessionSummary[] =>
+  sessions
+    .filter(session => session.quizId === quiz.id)
+    .map(session => {
+      const sessionResults = results.filter(result => result.sessionId === session.id);
+      const answers = sessionResults.flatMap(result => result.answers);
+      const completions = sessionResults.length;
+
+      return {
+        sessionId: session.id,
+        roomCode: session.roomCode,
+        mode: session.mode,
+        startedAt: session.startedAt ?? session.openedAt,
+        ended: !!session.endedAt,
+        settings: session.settings,
+        participants: Math.max(session.participantCount, completions),
+        completions,
+        averageScore: completions > 0
+          ? Math.round(sessionResults.reduce((sum, result) => sum + getResultPercentage(result), 0) / completions)
+          : 0,
+        averageTime: answers.length > 0
+          ? Math.round(answers.reduce((sum, answer) => sum + answer.timeSpent, 0) / answers.length)
+          : 0
+      };
+    })
+    .sort((a, b) => a.startedAt - b.startedAt);
+
 // Function to generate analytics for multiple quizzes
 export const processMultiQuizAnalytics = (
   quizzes: Quiz[],
@@ -162,14 +261,14 @@ export const processMultiQuizAnalytics = (
   const totalStudents = new Set(results.map(r => r.studentId)).size;
   const totalCompletions = results.length;
   const overallAverage = results.length > 0 
-    ? Math.round(results.reduce((sum, r) => sum + (r.score / r.totalQuestions) * 100, 0) / results.length)
+    ? Math.round(results.reduce((sum, r) => sum + getResultPercentage(r), 0) / results.length)
     : 0;
 
   const quizBreakdown = quizzes.map(quiz => {
     const quizResults = results.filter(r => r.quizId === quiz.id);
     const completions = quizResults.length;
     const averageScore = completions > 0 
-      ? Math.round(quizResults.reduce((sum, r) => sum + (r.score / r.totalQuestions) * 100, 0) / completions)
+      ? Math.round(quizResults.reduce((sum, r) => sum + getResultPercentage(r), 0) / completions)
       : 0;
     const averageTime = completions > 0
       ? Math.round(quizResults.reduce((sum, r) => sum + r.answers.reduce((timeSum, a) => timeSum + a.timeSpent, 0), 0) / completions)
@@ -186,7 +285,7 @@ export const processMultiQuizAnalytics = (
 
   const studentMap = new Map<string, { scores: number[], name: string }>();
   results.forEach(result => {
-    const score = (result.score / result.totalQuestions) * 100;
+    const score = getResultPercentage(result);
     if (!studentMap.has(result.studentId)) {
       studentMap.set(result.studentId, { scores: [score], name: result.studentName });
     } else {
@@ -250,13 +349,13 @@ export const generateMultiQuizCSV = (
 
   // Detailed Results
   csv += "DETAILED QUIZ RESULTS\n";
-  csv += "Student Name,Quiz Title,Score,Percentage (%),Total Questions,Completion Date\n";
+  csv += "Student Name,Quiz Title,Score,Max Score,Percentage (%),Total Questions,Completion Date\n";
   results
-    .sort((a, b) => b.score / b.totalQuestions - a.score / a.totalQuestions)
+    .sort((a, b) => getResultPercentage(b) - getResultPercentage(a))
     .forEach(result => {
       const quiz = quizzes.find(q => q.id === result.quizId);
-      const percentage = Math.round((result.score / result.totalQuestions) * 100);
-      csv += `"${result.studentName}","${quiz?.title || 'Unknown Quiz'}",${result.score},${percentage},${result.totalQuestions},"${new Date().toLocaleDateString()}"\n`;
+      const percentage = Math.round(getResultPercentage(result));
+      csv += `"${result.studentName}","${quiz?.title || 'Unknown Quiz'}",${result.score},${getResultMaxScore(result)},${percentage},${result.totalQuestions},"${new Date().toLocaleDateString()}"\n`;
     });
 
   return csv;
@@ -270,7 +369,17 @@ export const generateDetailedCSV = (report: DetailedQuizReport): string => {
   csv += `Quiz: ${report.summary.quizTitle}\n`;
   csv += `Total Students: ${report.summary.totalStudents}\n`;
   csv += `Average Score: ${report.summary.averageScore}%\n`;
-  csv += `Total Questions: ${report.summary.totalQuestions}\n\n`;
+  csv += `Total Questions: ${report.summary.totalQuestions}\n`;
+  csv += `Max Score: ${report.summary.maxScore}\n\n`;
+
+  if (report.summary.teamBreakdown) {
+    csv += "TEAM BREAKDOWN\n";
+    csv += "Team,Students,Average Score,Team Points\n";
+    report.summary.teamBreakdown.forEach(team => {
+      csv += `"${team.teamName}",${team.students},${team.averageScore}%,${team.teamPoints}\n`;
+    });
+    csv += "\n";
+  }
 
   // Enhanced Question-wise Analysis with Option Selection Details
   csv += "QUESTION-WISE ANALYSIS WITH OPTION SELECTION\n";
@@ -278,9 +387,50 @@ export const generateDetailedCSV = (report: DetailedQuizReport): string => {
   
   report.summary.questions.forEach((question, index) => {
     csv += `QUESTION ${index + 1}: "${question.questionText}"\n`;
-    csv += `Difficulty Score: ${question.difficultyScore}%\n`;
+    if (question.graded) {
+      csv += `Difficulty Score: ${question.difficultyScore}%\n`;
+    }
     csv += `Total Responses: ${question.totalResponses}\n`;
-    csv += `Correct Answer: Option ${String.fromCharCode(65 + question.correctOption)}\n\n`;
+
+    if (question.wordFrequencies) {
+      csv += "Not scored\n\n";
+
+      csv += "Word Cloud Responses:\n";
+      csv += "Response,Students\n";
+      question.wordFrequencies.forEach(entry => {
+        csv += `"${entry.word}",${entry.count}\n`;
+      });
+      csv += "\n";
+      return;
+    }
+
+    if (question.itemBreakdown) {
+      csv += `Correct Answer: ${question.answerKeyLabel}\n\n`;
+
+      csv += "Item Breakdown:\n";
+      csv += "Item,Students Wrong,Percentage Wrong,Most Common Mistake\n";
+      question.itemBreakdown.forEach(item => {
+        csv += `"${item.label}",${item.wrongCount},${item.percentageWrong}%,"${item.commonMistake || ''}"\n`;
+      });
+      csv += "\n";
+      return;
+    }
+
+    if (question.wrongAnswers) {
+      csv += `Correct Answer: ${question.answerKeyLabel}\n\n`;
+
+      csv += "Most Common Wrong Answers:\n";
+      csv += "Answer,Students,Percentage\n";
+      question.wrongAnswers.forEach(wrong => {
+        csv += `"${wrong.answer}",${wrong.count},${wrong.percentage}%\n`;
+      });
+      csv += "\n";
+      return;
+    }
+
+    csv += question.graded
+      ? `Correct Answer: Option ${toOptionLetters(question.correctOptions)}\n\n`
+      : "Not scored\n\n";
     
     csv += "Option Selection Breakdown:\n";
     csv += "Option,Option Text,Students Selected,Percentage,Is Correct\n";
@@ -307,14 +457,15 @@ export const generateDetailedCSV = (report: DetailedQuizReport): string => {
     const completionDate = new Date(student.completedAt).toLocaleDateString();
     const timeSpentMinutes = (student.timeSpent / 60).toFixed(2);
     
-    csv += `"${student.studentName}",${student.score}/${report.summary.totalQuestions},${student.percentage}%,${completionDate},${timeSpentMinutes}`;
+    csv += `"${student.studentName}",${student.score}/${student.maxScore},${student.percentage}%,${completionDate},${timeSpentMinutes}`;
     
     // Add question responses showing which option they selected
     report.summary.questions.forEach(question => {
       const response = student.questionResponses.find(r => r.questionId === question.questionId);
       if (response) {
-        const selectedOptionLetter = String.fromCharCode(65 + response.selectedOption);
-        csv += `,${selectedOptionLetter},${response.isCorrect ? 'Correct' : 'Incorrect'}`;
+        const selectedOptionLetter = getQuestionTypeDefinition(question.questionType).formatResponse(response);
+        const result = !question.graded ? 'Not scored' : response.isCorrect ? 'Correct' : 'Incorrect';
+        csv += `,${selectedOptionLetter},${result}`;
       } else {
         csv += ",No Answer,No Response";
       }
@@ -330,13 +481,15 @@ export const generateDetailedCSV = (report: DetailedQuizReport): string => {
   csv += "Question,Option A Count,Option B Count,Option C Count,Option D Count,Correct Option,Most Selected Option\n";
   
   report.summary.questions.forEach((question, index) => {
+    if (question.optionDistribution.length === 0) return;
+
     const optionCounts = ['A', 'B', 'C', 'D'].map(letter => {
       const optionIndex = letter.charCodeAt(0) - 65;
       const option = question.optionDistribution.find(opt => opt.optionIndex === optionIndex);
       return option ? option.count : 0;
     });
     
-    const correctOption = String.fromCharCode(65 + question.correctOption);
+    const correctOption = question.graded ? toOptionLetters(question.correctOptions) : 'Not scored';
     const maxCount = Math.max(...optionCounts);
     const mostSelectedIndex = optionCounts.indexOf(maxCount);
     const mostSelected = String.fromCharCode(65 + mostSelectedIndex);
@@ -0,0 +1,54 @@
+import { QueuedAnswer, StudentAnswer } from "@/types/quiz";
+
+// Answers waiting for the server are kept in IndexedDB, so a reload or a
+// closed tab on a flaky connection doesn't lose them
+const DB_NAME = "classnode-quiz";
+const STORE_NAME = "answerQueue";
+
+const MIN_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Oldest first, the order they have to reach the server in
+export const loadQueuedAnswers = async () => {
+  const entries = await runRequest<QueuedAnswer[]>("readonly", store => store.getAll());
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const saveQueuedAnswer = (entry: QueuedAnswer) => runRequest("readwrite", store => store.put(entry));
+
+export const removeQueuedAnswer = (key: string) => runRequest("readwrite", store => store.delete(key));
+
+// One key per participant and question in a session, so sending the same
+// answer again can't save it twice
+export const getAnswerKey = (
+  participantId: string,
+  answer: Pick<StudentAnswer, "quizId" | "questionId" | "sessionId">
+) => `${participantId}:${answer.sessionId ?? answer.quizId}:${answer.questionId}`;
+
+// How long to wait before trying again, doubling from a second up to half a
+// minute
+export const getRetryDelay = (attempts: number) =>
+  Math.min(MIN_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
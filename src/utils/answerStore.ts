@@ -0,0 +1,34 @@
+import { StudentAnswer } from "@/types/quiz";
+
+// Live answers, one per student and question however many times they
+// arrive (from Realtime and again from catching up after a reconnect)
+export type AnswerStore = Map<string, StudentAnswer>;
+
+export const getAnswerStoreKey = (answer: Pick<StudentAnswer, "studentId" | "questionId">) =>
+  `${answer.studentId}:${answer.questionId}`;
+
+// The store with the answers added, or the same store when they were all in
+// it already, so nothing re-renders for answers already shown
+export const addToAnswerStore = (store: AnswerStore, answers: StudentAnswer[]): AnswerStore => {
+  const added = answers.filter(answer => !store.has(getAnswerStoreKey(answer)));
+  if (added.length === 0) return store;
+
+  const next = new Map(store);
+  added.forEach(answer => next.set(getAnswerStoreKey(answer), answer));
+  return next;
+};
+
+export const renameInAnswerStore = (store: AnswerStore, oldName: string, newName: string): AnswerStore => {
+  if (!Array.from(store.values()).some(answer => answer.studentName === oldName)) return store;
+
+  return new Map(
+    Array.from(store, ([key, answer]) => [
+      key,
+      answer.studentName === oldName ? { ...answer, studentName: newName } : answer
+    ])
+  );
+};
+
+// In the order the server saved them, which streaks depend on
+export const getStoredAnswers = (store: AnswerStore) =>
+  Array.from(store.values()).sort((a, b) => (a.submittedAt ?? 0) - (b.submittedAt ?? 0));
@@ -0,0 +1,44 @@
+import { HomeworkAvailability, HomeworkSettings } from "@/types/quiz";
+
+// Why homework can't be assigned with these settings, or null when it's fine
+export const getHomeworkError = (homework: HomeworkSettings, now = Date.now()) => {
+  if (Number.isNaN(homework.availableFrom) || Number.isNaN(homework.dueAt)) {
+    return "Set when the homework opens and when it's due";
+  }
+  if (homework.dueAt <= now) return "The due date has to be in the future";
+  if (homework.dueAt <= homework.availableFrom) return "The due date has to be after it opens";
+  if (
+    homework.latePolicy === "penalty" &&
+    (!Number.isInteger(homework.latePenaltyPercent) || homework.latePenaltyPercent < 1 || homework.latePenaltyPercent > 100)
+  ) {
+    return "The late penalty has to be a whole percentage from 1 to 100";
+  }
+  return null;
+};
+
+// Whether students can take the homework right now. Late work is only taken
+// when the policy accepts it, and nothing is once the teacher closes it.
+export const getHomeworkAvailability = (
+  homework: HomeworkSettings,
+  endedAt?: number,
+  now = Date.now()
+): HomeworkAvailability => {
+  if (endedAt !== undefined) return "closed";
+  if (now < homework.availableFrom) return "upcoming";
+  if (now <= homework.dueAt) return "open";
+  return homework.latePolicy === "reject" ? "closed" : "late";
+};
+
+export const describeLatePolicy = (homework: HomeworkSettings) => {
+  switch (homework.latePolicy) {
+    case "accept":
+      return "Late work accepted";
+    case "penalty":
+      return `Late work loses ${homework.latePenaltyPercent}%`;
+    default:
+      return "No late work";
+  }
+};
+
+// The link students open to take the homework
+export const getHomeworkLink = (roomCode: string) => `${window.location.origin}/join/${roomCode}`;
@@ -0,0 +1,68 @@
+import { QuizQuestion, StudentAnswer, AnswerGrade } from "@/types/quiz";
+import { getQuestionTypeDefinition, QuestionResponse } from "@/questionTypes";
+
+export const getQuestionType = (question: Pick<QuizQuestion, "type">) =>
+  question.type || "multiple_choice";
+
+// Whether the question is answered by picking from its options
+export const usesOptions = (question: Pick<QuizQuestion, "type">) =>
+  getQuestionTypeDefinition(question.type).usesOptions;
+
+// Polls, rating scales and word clouds have no right answer and are never scored
+export const isGraded = (question: Pick<QuizQuestion, "type">) =>
+  getQuestionTypeDefinition(question.type).graded;
+
+// The set of option indices that make up the answer key, regardless of type
+export const getCorrectOptions = (question: QuizQuestion): number[] =>
+  getQuestionTypeDefinition(question.type).getCorrectOptions?.(question) || [];
+
+export const isCorrectOption = (question: QuizQuestion, optionIndex: number) =>
+  getCorrectOptions(question).includes(optionIndex);
+
+// Human-readable answer key for questions that aren't answered from options
+export const getAnswerKeyLabel = (question: QuizQuestion) =>
+  getQuestionTypeDefinition(question.type).getAnswerKeyLabel?.(question);
+
+// How many points a question is worth; warm-up questions can be worth 0
+export const getQuestionPoints = (question: Pick<QuizQuestion, "type" | "points">) => {
+  if (!isGraded(question)) return 0;
+  return typeof question.points === "number" ? question.points : 1;
+};
+
+// Highest score a student can reach on the given questions
+export const getMaxScore = (questions: Pick<QuizQuestion, "type" | "points">[]) =>
+  questions.reduce((total, question) => total + getQuestionPoints(question), 0);
+
+// Short label such as "2 points, -0.5 if wrong" for question lists
+export const describeScoring = (question: Pick<QuizQuestion, "type" | "points" | "penalty">) => {
+  if (!isGraded(question)) return "Not scored";
+  const points = getQuestionPoints(question);
+  const label = points === 1 ? "1 point" : `${points} points`;
+  return question.penalty ? `${label}, -${question.penalty} if wrong` : label;
+};
+
+export const gradeAnswer = (question: QuizQuestion, answer: QuestionResponse): AnswerGrade => {
+  const definition = getQuestionTypeDefinition(question.type);
+  if (!definition.graded) return { correct: false, credit: 0, points: 0 };
+
+  const credit = definition.grade(question, answer);
+
+  // Negative marking only applies to answers that earned nothing; leaving a
+  // question blank never costs points
+  let points = credit * getQuestionPoints(question);
+  if (credit === 0 && question.penalty && definition.isAnswered(answer)) {
+    points = -question.penalty;
+  }
+
+  return { correct: credit === 1, credit, points };
+};
+
+// Credit earned by an answer, falling back to the correct flag for answers
+// recorded before partial credit existed
+export const getAnswerCredit = (answer: Pick<StudentAnswer, "correct" | "credit">) =>
+  typeof answer.credit === "number" ? answer.credit : answer.correct ? 1 : 0;
+
+// Points earned by an answer, falling back to its credit for answers recorded
+// before questions had point values
+export const getAnswerPoints = (answer: Pick<StudentAnswer, "correct" | "credit" | "points">) =>
+  typeof answer.points === "number" ? answer.points : getAnswerCredit(answer);
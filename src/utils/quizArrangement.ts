@@ -0,0 +1,131 @@
+import { Quiz, QuizQuestion, QuestionPool } from "@/types/quiz";
+import { QuestionResponse, getQuestionTypeDefinition } from "@/questionTypes";
+import { usesOptions } from "@/utils/questionGrading";
+
+// A quiz as one student sees it. optionOrders[questionId][position] is the
+// canonical index of the option shown at that position.
+export type QuizArrangement = {
+  quiz: Quiz;
+  optionOrders: Record<string, number[]>;
+};
+
+// Small deterministic PRNG (mulberry32) seeded from a string hash, so the same
+// student gets the same order every time they load the quiz
+export const createSeededRandom = (seed: string) => {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates shuffle of 0..count-1
+export const seededPermutation = (count: number, random: () => number) => {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices;
+};
+
+// Reorder a question's options, moving its answer key along with them so the
+// displayed question is consistent on its own
+const applyOptionOrder = (question: QuizQuestion, order: number[]): QuizQuestion => {
+  const toPosition = (index: number) => order.indexOf(index);
+  return {
+    ...question,
+    options: order.map(index => question.options[index]),
+    correctOption: question.correctOption >= 0 ? toPosition(question.correctOption) : question.correctOption,
+    correctOptions: question.correctOptions?.map(toPosition),
+    optionExplanations: question.optionExplanations && order.map(index => question.optionExplanations[index])
+  };
+};
+
+export const arrangeQuizForStudent = (quiz: Quiz, participantId: string): QuizArrangement => {
+  const random = createSeededRandom(`${quiz.id}:${participantId}`);
+
+  // In teacher-paced quizzes the whole class follows the teacher's order
+  const questions = quiz.shuffleQuestions && quiz.paceMode !== "teacher"
+    ? seededPermutation(quiz.questions.length, random).map(index => quiz.questions[index])
+    : quiz.questions;
+
+  const optionOrders: Record<string, number[]> = {};
+  const arranged = questions.map(question => {
+    // Ordering and matching already scramble their own items, and rating
+    // scales only make sense in order
+    if (!quiz.shuffleOptions || !usesOptions(question)) return question;
+    if (getQuestionTypeDefinition(question.type).fixedOptionOrder) return question;
+
+    const order = seededPermutation(question.options.length, random);
+    optionOrders[question.id] = order;
+    return applyOptionOrder(question, order);
+  });
+
+  return { quiz: { ...quiz, questions: arranged }, optionOrders };
+};
+
+// Translate a response given against shuffled options back to canonical
+// option indices, which is what grading, storage and analytics all use
+export const toCanonicalResponse = (response: QuestionResponse, optionOrder?: number[]): QuestionResponse => {
+  if (!optionOrder) return response;
+
+  const toCanonical = (position: number) => (position >= 0 ? optionOrder[position] ?? -1 : position);
+  return {
+    ...response,
+    selectedOption: typeof response.selectedOption === "number" ? toCanonical(response.selectedOption) : response.selectedOption,
+    selectedOptions: response.selectedOptions?.map(toCanonical)
+  };
+};
+
+// How many questions each student is asked once pools are drawn from
+export const getQuestionsPerStudent = (quiz: Pick<Quiz, "questions" | "pools">) => {
+  const pools = quiz.pools || [];
+  const unpooled = quiz.questions.filter(question => !pools.some(pool => pool.id === question.poolId)).length;
+
+  return pools.reduce((total, pool) => {
+    const poolSize = quiz.questions.filter(question => question.poolId === pool.id).length;
+    return total + Math.min(pool.drawCount, poolSize);
+  }, unpooled);
+};
+
+// Why a quiz's pools can't be drawn from, or null when they're fine
+export const getPoolError = (pools: QuestionPool[], questions: QuizQuestion[]) => {
+  for (const pool of pools) {
+    const poolSize = questions.filter(question => question.poolId === pool.id).length;
+    if (!pool.name.trim()) return "Every question pool needs a name";
+    if (poolSize === 0) return `Pool "${pool.name}" has no questions`;
+    if (!Number.isInteger(pool.drawCount) || pool.drawCount < 1 || pool.drawCount > poolSize) {
+      return `Pool "${pool.name}" must draw between 1 and ${poolSize} questions`;
+    }
+  }
+  return null;
+};
+
+// Pick the questions this student is asked from each pool. Seeded by student
+// so reloading gives the same draw; questions keep their authored order.
+export const drawQuestionsForStudent = (quiz: Quiz, participantId: string): Quiz => {
+  if (!quiz.pools || quiz.pools.length === 0 || quiz.paceMode === "teacher") return quiz;
+
+  const random = createSeededRandom(`${quiz.id}:${participantId}:pools`);
+  const drawn = new Set<string>();
+
+  quiz.pools.forEach(pool => {
+    const poolQuestions = quiz.questions.filter(question => question.poolId === pool.id);
+    seededPermutation(poolQuestions.length, random)
+      .slice(0, pool.drawCount)
+      .forEach(index => drawn.add(poolQuestions[index].id));
+  });
+
+  const poolIds = new Set(quiz.pools.map(pool => pool.id));
+  return {
+    ...quiz,
+    questions: quiz.questions.filter(question => !poolIds.has(question.poolId) || drawn.has(question.id))
+  };
+};
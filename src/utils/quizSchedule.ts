@@ -0,0 +1,50 @@
+import { Quiz, QuizSchedule, ScheduleStatus } from "@/types/quiz";
+
+// How often the server checks schedules, so how late a quiz may start or close
+export const SCHEDULE_JOB_INTERVAL_MS = 60 * 1000;
+
+// Why a schedule can't be saved, or null when it's fine
+export const getScheduleError = (schedule: QuizSchedule, now = Date.now()) => {
+  const { startAt, endAt, durationMinutes } = schedule;
+  if (startAt === undefined && endAt === undefined && durationMinutes === undefined) {
+    return "Set a start time or when the quiz should close";
+  }
+  if (startAt !== undefined && startAt <= now) return "The start time has to be in the future";
+  if (endAt !== undefined && endAt <= now) return "The deadline has to be in the future";
+  if (startAt !== undefined && endAt !== undefined && endAt <= startAt) {
+    return "The deadline has to be after the start time";
+  }
+  if (durationMinutes !== undefined && (!Number.isInteger(durationMinutes) || durationMinutes < 1)) {
+    return "The duration has to be a whole number of minutes";
+  }
+  return null;
+};
+
+// Where a quiz's scheduled start stands; null when it has none, or while the
+// quiz is running
+export const getScheduleStatus = (quiz: Quiz, now = Date.now()): ScheduleStatus | null => {
+  const schedule = quiz.schedule;
+  if (!schedule?.startAt || quiz.isActive) return null;
+  if (schedule.launchedAt) return "closed";
+  if (schedule.endAt !== undefined && schedule.endAt <= now) return "missed";
+  return "upcoming";
+};
+
+// The soonest scheduled start among the quizzes, including ones that are due
+// but the server hasn't started yet
+export const getNextScheduledStart = (quizzes: Quiz[]) => {
+  const starts = quizzes
+    .filter(quiz => getScheduleStatus(quiz) === "upcoming")
+    .map(quiz => quiz.schedule?.startAt as number);
+  return starts.length > 0 ? Math.min(...starts) : null;
+};
+
+export const formatScheduleTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// A time as a datetime-local input's value, in the browser's time zone
+export const toDateTimeInput = (time: number) => {
+  const date = new Date(time);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
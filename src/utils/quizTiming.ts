@@ -0,0 +1,25 @@
+import { Quiz, QuizQuestion, LiveClock } from "@/types/quiz";
+
+// Seconds a student gets for a question: its own limit if it has one,
+// otherwise the quiz-wide default
+export const getQuestionTimeLimit = (
+  quiz: Pick<Quiz, "timePerQuestion">,
+  question?: Pick<QuizQuestion, "timeLimit">
+) => question?.timeLimit || quiz.timePerQuestion;
+
+// Seconds left on a question that started at startedAt. The clock stands
+// still while the quiz is paused, and extra time pushes the end back.
+export const getTimeLeft = (
+  timeLimit: number,
+  startedAt: number,
+  clock: Pick<LiveClock, "pausedAt"> | null,
+  extraSeconds = 0,
+  now = Date.now()
+) => {
+  const elapsedSeconds = Math.max(0, Math.floor(((clock?.pausedAt ?? now) - startedAt) / 1000));
+  return Math.max(0, timeLimit + extraSeconds - elapsedSeconds);
+};
+
+// Whole seconds left until a deadline, as counted down on screen
+export const getSecondsUntil = (deadline: number, now = Date.now()) =>
+  Math.max(0, Math.ceil((deadline - now) / 1000));
@@ -0,0 +1,22 @@
+import { RoomBan } from "@/types/quiz";
+
+const DEVICE_ID_KEY = "quizDeviceId";
+
+// Identifies this browser across joins, so a removed student can be kept out
+// under any name. Kept when the student logs out.
+export const getDeviceId = () => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = Date.now().toString(36) + Math.random().toString(36).substring(2, 10);
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+// Whether a student joining under this name, from this device, is kept out
+export const isBanned = (bans: RoomBan[], name: string, deviceId?: string) => {
+  const lowerName = name.trim().toLowerCase();
+  return bans.some(ban =>
+    ban.studentName?.toLowerCase() === lowerName || (!!deviceId && ban.deviceId === deviceId)
+  );
+};
@@ -0,0 +1,77 @@
+import { Quiz, QuizScoring, StudentAnswer, LeaderboardEntry } from "@/types/quiz";
+import { getAnswerCredit, getAnswerPoints, getQuestionPoints } from "@/utils/questionGrading";
+import { getQuestionTimeLimit } from "@/utils/quizTiming";
+
+// Speed points per question point: all of them for an instant answer, half
+// for one given as time runs out
+export const SPEED_POINTS = 1000;
+// Each fully correct answer in a row after the first earns a bonus, up to a cap
+export const STREAK_BONUS = 100;
+export const MAX_STREAK_BONUS = 500;
+
+type ScoredQuiz = Pick<Quiz, "questions" | "timePerQuestion">;
+
+export type ScoringStrategy = {
+  label: string; // Shown in the quiz settings
+  // Leaderboard points for one student's answers, in the order they gave them
+  scoreAnswers: (quiz: ScoredQuiz, answers: StudentAnswer[]) => number;
+};
+
+const standardScoring: ScoringStrategy = {
+  label: "Rank students by their score",
+  scoreAnswers: (_, answers) =>
+    Math.round(answers.reduce((total, answer) => total + getAnswerPoints(answer), 0) * 100) / 100
+};
+
+const speedScoring: ScoringStrategy = {
+  label: "Reward fast answers and streaks",
+  scoreAnswers: (quiz, answers) => {
+    let streak = 0;
+
+    return answers.reduce((total, answer) => {
+      // Polls and warm-up questions neither earn points nor break a streak
+      const question = quiz.questions.find(q => q.id === answer.questionId);
+      if (!question || getQuestionPoints(question) === 0) return total;
+
+      const credit = getAnswerCredit(answer);
+      streak = credit === 1 ? streak + 1 : 0;
+      if (credit === 0) return total;
+
+      const timeLimit = getQuestionTimeLimit(quiz, question);
+      const speed = 1 - Math.min(1, answer.timeSpent / timeLimit) / 2;
+      const bonus = Math.min(Math.max(0, streak - 1) * STREAK_BONUS, MAX_STREAK_BONUS);
+      return total + Math.round(SPEED_POINTS * getQuestionPoints(question) * credit * speed) + bonus;
+    }, 0);
+  }
+};
+
+export const SCORING_STRATEGIES: Record<QuizScoring, ScoringStrategy> = {
+  standard: standardScoring,
+  speed: speedScoring
+};
+
+export const getScoringStrategy = (quiz: Pick<Quiz, "scoring">) =>
+  SCORING_STRATEGIES[quiz.scoring || "standard"];
+
+// Highest points first; ties are listed by name so the order stays put
+export const sortLeaderboard = (entries: LeaderboardEntry[]) =>
+  [...entries].sort((a, b) => b.points - a.points || a.studentName.localeCompare(b.studentName));
+
+// Rank the class on the answers given so far, for the live leaderboard
+export const buildLeaderboard = (
+  quiz: ScoredQuiz & Pick<Quiz, "scoring">,
+  answers: StudentAnswer[]
+): LeaderboardEntry[] => {
+  const answersByStudent = new Map<string, StudentAnswer[]>();
+  answers.forEach(answer => {
+    answersByStudent.set(answer.studentName, [...(answersByStudent.get(answer.studentName) || []), answer]);
+  });
+
+  const strategy = getScoringStrategy(quiz);
+  return sortLeaderboard(
+    Array.from(answersByStudent, ([studentName, studentAnswers]) => ({
+      studentName,
+      points: strategy.scoreAnswers(quiz, studentAnswers)
+    }))
+  );
+};
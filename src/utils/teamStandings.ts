@@ -0,0 +1,34 @@
+import { Quiz, QuizTeam, TeamStanding } from "@/types/quiz";
+
+// Why a quiz's teams can't be played, or null when they're fine
+export const getTeamError = (teams: QuizTeam[]) => {
+  if (teams.length === 0) return null;
+  if (teams.length < 2) return "Team mode needs at least 2 teams";
+  if (teams.some(team => !team.name.trim())) return "Every team needs a name";
+
+  const names = new Set(teams.map(team => team.name.trim().toLowerCase()));
+  if (names.size !== teams.length) return "Team names must be unique";
+  return null;
+};
+
+// Rank the teams on their members' points. Every team is listed, including
+// ones nobody has scored for yet; points on no known team are left out.
+export const buildTeamStandings = (
+  quiz: Pick<Quiz, "teams" | "teamScoring">,
+  memberPoints: { teamId?: string; points: number }[]
+): TeamStanding[] => {
+  const standings = (quiz.teams || []).map(team => {
+    const points = memberPoints.filter(member => member.teamId === team.id).map(member => member.points);
+    const total = points.reduce((sum, value) => sum + value, 0);
+    const teamPoints = quiz.teamScoring === "sum" || points.length === 0 ? total : total / points.length;
+
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      points: Math.round(teamPoints * 100) / 100,
+      memberCount: points.length
+    };
+  });
+
+  return standings.sort((a, b) => b.points - a.points || a.teamName.localeCompare(b.teamName));
+};
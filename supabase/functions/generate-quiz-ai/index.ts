@@ -15,6 +15,7 @@ interface QuizParams {
   numQuestions: number;
   complexity: "Easy" | "Medium" | "Hard";
   timePerQuestion: number;
+  feedbackMode?: "immediate" | "end";
   title?: string;
   description?: string;
 }
@@ -23,8 +24,18 @@ interface GeneratedQuestion {
   text: string;
   options: string[];
   correctOption: number;
+  explanation?: string;
+  optionExplanations?: string[];
 }
 
+// The model doesn't always stick to the format, so only keep rationale that
+// lines up with the options
+const cleanOptionExplanations = (q: GeneratedQuestion): string[] | null => {
+  if (!Array.isArray(q.optionExplanations)) return null;
+  if (q.optionExplanations.length !== q.options.length) return null;
+  return q.optionExplanations.map((text) => String(text ?? "").trim());
+};
+
 serve(async (req) => {
   console.log("=== Edge function started ===");
 
@@ -79,7 +90,9 @@ Return ONLY a JSON array in this exact format (no markdown):
   {
     "text": "Question?",
     "options": ["A", "B", "C", "D"],
-    "correctOption": 0
+    "correctOption": 0,
+    "explanation": "Why the correct option is right, in one or two sentences.",
+    "optionExplanations": ["Why A is right or wrong", "Why B ...", "Why C ...", "Why D ..."]
   }
 ]
 `;
@@ -155,6 +168,7 @@ Return ONLY a JSON array in this exact format (no markdown):
         title: quizTitle,
         description: quizDescription,
         time_per_question: params.timePerQuestion,
+        feedback_mode: params.feedbackMode === "immediate" ? "immediate" : "end",
         room_code: roomCode,
         created_by: user.id,
         quiz_type: "classnode",
@@ -175,6 +189,8 @@ Return ONLY a JSON array in this exact format (no markdown):
       text: q.text,
       options: q.options,
       correct_option: q.correctOption,
+      explanation: typeof q.explanation === "string" && q.explanation.trim() ? q.explanation.trim() : null,
+      option_explanations: cleanOptionExplanations(q),
       order_num: i + 1,
     }));
 
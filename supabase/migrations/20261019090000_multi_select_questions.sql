@@ -0,0 +1,13 @@
+-- Multi-select questions: a set of correct options with configurable scoring
+
+alter table public.quiz_questions
+  add column if not exists question_type text not null default 'multiple_choice',
+  add column if not exists answer_key jsonb;
+
+alter table public.student_answers
+  add column if not exists selected_options integer[],
+  add column if not exists credit numeric;
+
+-- Partial credit makes fractional scores possible
+alter table public.quiz_results
+  alter column score type numeric using score::numeric;
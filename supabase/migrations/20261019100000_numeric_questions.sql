@@ -0,0 +1,8 @@
+-- Numeric questions: graded against a value and tolerance stored in answer_key
+
+-- Only option-based questions have a correct option
+alter table public.quiz_questions
+  alter column correct_option drop not null;
+
+alter table public.student_answers
+  add column if not exists numeric_value numeric;
@@ -0,0 +1,4 @@
+-- Short free-text questions: accepted answers and patterns live in answer_key
+
+alter table public.student_answers
+  add column if not exists text_value text;
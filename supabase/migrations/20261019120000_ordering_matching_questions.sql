@@ -0,0 +1,6 @@
+-- Ordering and matching questions. Ordering items are stored in their correct
+-- order in options; matching targets live in answer_key.
+
+alter table public.student_answers
+  add column if not exists ordered_items integer[],
+  add column if not exists matches integer[];
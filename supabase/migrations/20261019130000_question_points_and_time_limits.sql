@@ -0,0 +1,20 @@
+-- Per-question time limits and point values. time_limit falls back to the
+-- quiz's time_per_question when null; penalty is taken off for a wrong answer.
+
+alter table public.quiz_questions
+  add column if not exists time_limit integer,
+  add column if not exists points numeric not null default 1,
+  add column if not exists penalty numeric not null default 0;
+
+alter table public.quiz_questions
+  add constraint quiz_questions_time_limit_positive check (time_limit is null or time_limit > 0),
+  add constraint quiz_questions_points_non_negative check (points >= 0),
+  add constraint quiz_questions_penalty_non_negative check (penalty >= 0);
+
+-- Points earned by each answer, negative when a penalty applied
+alter table public.student_answers
+  add column if not exists points numeric;
+
+-- Points available in the quiz; older results were out of total_questions
+alter table public.quiz_results
+  add column if not exists max_score numeric;
@@ -0,0 +1,14 @@
+-- Explanations shown to students once they've answered. option_explanations
+-- lines up with options and holds the rationale for picking each one.
+
+alter table public.quiz_questions
+  add column if not exists explanation text,
+  add column if not exists option_explanations text[];
+
+-- When students see feedback: right after each answer, or all together once
+-- the quiz is finished
+alter table public.quizzes
+  add column if not exists feedback_mode text not null default 'end';
+
+alter table public.quizzes
+  add constraint quizzes_feedback_mode_check check (feedback_mode in ('immediate', 'end'));
@@ -0,0 +1,11 @@
+-- Per-student shuffling. Each student gets their own question and option order,
+-- seeded by quiz and student so reloading the page keeps it the same.
+
+alter table public.quizzes
+  add column if not exists shuffle_questions boolean not null default false,
+  add column if not exists shuffle_options boolean not null default false;
+
+-- The option order the student was shown; option_order[position] is the
+-- canonical option index. Answers themselves are always stored canonically.
+alter table public.student_answers
+  add column if not exists option_order integer[];
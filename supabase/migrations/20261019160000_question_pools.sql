@@ -0,0 +1,32 @@
+-- Question pools: each student is asked draw_count questions picked at random
+-- from the pool. Questions without a pool are asked to everyone.
+
+create table if not exists public.quiz_question_pools (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id uuid not null references public.quizzes(id) on delete cascade,
+  name text not null,
+  draw_count integer not null check (draw_count > 0)
+);
+
+create index if not exists quiz_question_pools_quiz_id_idx
+  on public.quiz_question_pools (quiz_id);
+
+alter table public.quiz_question_pools enable row level security;
+
+create policy "Question pools are readable by everyone"
+  on public.quiz_question_pools for select
+  using (true);
+
+create policy "Quiz creators manage their question pools"
+  on public.quiz_question_pools for all
+  using (exists (
+    select 1 from public.quizzes
+    where quizzes.id = quiz_question_pools.quiz_id and quizzes.created_by = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.quizzes
+    where quizzes.id = quiz_question_pools.quiz_id and quizzes.created_by = auth.uid()
+  ));
+
+alter table public.quiz_questions
+  add column if not exists pool_id uuid references public.quiz_question_pools(id) on delete set null;
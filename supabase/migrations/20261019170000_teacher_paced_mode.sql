@@ -0,0 +1,15 @@
+-- Teacher-paced quizzes. In 'teacher' mode the teacher moves the whole class
+-- through the questions; 'self' keeps every student on their own clock.
+
+alter table public.quizzes
+  add column if not exists pace_mode text not null default 'self';
+
+alter table public.quizzes
+  add constraint quizzes_pace_mode_check check (pace_mode in ('self', 'teacher'));
+
+-- The live cursor students follow. current_question equals the number of
+-- questions once the teacher has finished the quiz.
+alter table public.quizzes
+  add column if not exists current_question integer not null default 0,
+  add column if not exists question_started_at timestamptz,
+  add column if not exists answers_revealed boolean not null default false;
@@ -0,0 +1,10 @@
+-- Pause and extra-time controls for running quizzes, kept on the quiz so a
+-- student who reloads still sees the quiz paused.
+
+-- paused_at is set while the teacher has the quiz paused. extra_seconds is
+-- time added to the current question; teacher-paced quizzes reset it on each
+-- question, self-paced students add whatever it grows by to the question
+-- they're on.
+alter table public.quizzes
+  add column if not exists paused_at timestamptz,
+  add column if not exists extra_seconds integer not null default 0;
@@ -0,0 +1,196 @@
+-- Server-issued question timing. The server records when each student's
+-- clock on a question started, works out their deadline from it and rejects
+-- answers that arrive too late, so changing the device clock or throttling
+-- the tab doesn't buy extra time. time_spent is measured here as well.
+
+-- Total seconds the quiz has spent paused, so self-paced deadlines can be
+-- pushed back by the pauses that happened while a student was on a question
+alter table public.quizzes
+  add column if not exists paused_seconds integer not null default 0;
+
+-- When each student started each question of a self-paced quiz. Teacher-paced
+-- quizzes time everyone from quizzes.question_started_at instead.
+create table if not exists public.question_attempts (
+  quiz_id uuid not null references public.quizzes(id) on delete cascade,
+  question_id uuid not null references public.quiz_questions(id) on delete cascade,
+  student_id uuid not null references public.students(id) on delete cascade,
+  started_at timestamptz not null default now(),
+  -- The quiz's extra_seconds and paused_seconds at that moment; only time
+  -- added or paused after the student started counts towards their deadline
+  extra_seconds_at_start integer not null default 0,
+  paused_seconds_at_start integer not null default 0,
+  primary key (quiz_id, question_id, student_id)
+);
+
+alter table public.question_attempts enable row level security;
+
+-- Attempts are only written by start_question
+create policy "Question attempts are readable by everyone"
+  on public.question_attempts for select
+  using (true);
+
+-- Stamp the live quiz state with the server's clock, whatever the teacher's
+-- device sent: questions open and pauses start and end at now()
+create or replace function public.stamp_live_quiz_state()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.is_active and not old.is_active then
+    new.question_started_at := now();
+    new.paused_at := null;
+    new.paused_seconds := 0;
+    return new;
+  end if;
+
+  if new.current_question is distinct from old.current_question then
+    new.question_started_at := now();
+  else
+    new.question_started_at := old.question_started_at;
+  end if;
+
+  if new.paused_at is not null and old.paused_at is null then
+    new.paused_at := now();
+  elsif new.paused_at is null and old.paused_at is not null then
+    new.paused_seconds := old.paused_seconds + ceil(extract(epoch from now() - old.paused_at))::integer;
+    -- A teacher-paced question carries on with the time it had left
+    if new.pace_mode = 'teacher' and new.current_question = old.current_question then
+      new.question_started_at := old.question_started_at + (now() - old.paused_at);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists quizzes_stamp_live_state on public.quizzes;
+create trigger quizzes_stamp_live_state
+  before update on public.quizzes
+  for each row execute function public.stamp_live_quiz_state();
+
+-- When a student's clock on a question started, how long they're allowed
+-- (time limit plus extra time) and how long the quiz has been paused since.
+-- Returns no row when the question isn't open to them.
+create or replace function public.question_timing(p_quiz_id uuid, p_question_id uuid, p_student_id uuid)
+returns table (started_at timestamptz, allowed_seconds integer, paused_seconds integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_quiz public.quizzes;
+  v_time_limit integer;
+  v_attempt public.question_attempts;
+begin
+  select * into v_quiz from public.quizzes where id = p_quiz_id and is_active;
+  if not found then
+    return;
+  end if;
+
+  select coalesce(time_limit, v_quiz.time_per_question) into v_time_limit
+  from public.quiz_questions
+  where id = p_question_id and quiz_id = p_quiz_id;
+  if v_time_limit is null then
+    return;
+  end if;
+
+  if v_quiz.pace_mode = 'teacher' then
+    -- Only the question the teacher has the class on is open
+    if p_question_id is distinct from (
+      select id from public.quiz_questions
+      where quiz_id = p_quiz_id
+      order by order_num
+      offset v_quiz.current_question
+      limit 1
+    ) then
+      return;
+    end if;
+
+    started_at := v_quiz.question_started_at;
+    allowed_seconds := v_time_limit + v_quiz.extra_seconds;
+    paused_seconds := 0;
+  else
+    select * into v_attempt
+    from public.question_attempts
+    where quiz_id = p_quiz_id and question_id = p_question_id and student_id = p_student_id;
+    if not found then
+      return;
+    end if;
+
+    started_at := v_attempt.started_at;
+    allowed_seconds := v_time_limit + v_quiz.extra_seconds - v_attempt.extra_seconds_at_start;
+    paused_seconds := v_quiz.paused_seconds - v_attempt.paused_seconds_at_start;
+  end if;
+
+  -- A pause that's still going on holds the clock too
+  if v_quiz.paused_at is not null then
+    paused_seconds := paused_seconds
+      + ceil(extract(epoch from now() - greatest(v_quiz.paused_at, started_at)))::integer;
+  end if;
+
+  return next;
+end;
+$$;
+
+-- Start (or pick back up) a student's clock on a question and return it with
+-- their deadline. Calling it again after a reload returns the same start.
+create or replace function public.start_question(p_quiz_id uuid, p_question_id uuid, p_student_id uuid)
+returns table (started_at timestamptz, deadline timestamptz, server_now timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  insert into public.question_attempts (quiz_id, question_id, student_id, extra_seconds_at_start, paused_seconds_at_start)
+  select p_quiz_id, p_question_id, p_student_id, q.extra_seconds, q.paused_seconds
+  from public.quizzes q
+  where q.id = p_quiz_id and q.is_active and q.pace_mode = 'self'
+  on conflict (quiz_id, question_id, student_id) do nothing;
+
+  return query
+  select t.started_at,
+         t.started_at + make_interval(secs => t.allowed_seconds + t.paused_seconds),
+         now()
+  from public.question_timing(p_quiz_id, p_question_id, p_student_id) t;
+end;
+$$;
+
+grant execute on function public.start_question(uuid, uuid, uuid) to anon, authenticated;
+
+-- Answers are timed by the server: late ones are turned away (after a few
+-- seconds' grace for the network) and time_spent is measured here
+create or replace function public.enforce_question_deadline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_timing record;
+  v_elapsed numeric;
+  v_grace_seconds constant integer := 5;
+begin
+  select * into v_timing
+  from public.question_timing(new.quiz_id, new.question_id, new.student_id);
+
+  if v_timing.started_at is null then
+    raise exception 'This question is not open for answers';
+  end if;
+
+  v_elapsed := extract(epoch from now() - v_timing.started_at) - v_timing.paused_seconds;
+  if v_elapsed > v_timing.allowed_seconds + v_grace_seconds then
+    raise exception 'Time is up for this question';
+  end if;
+
+  new.time_spent := least(v_timing.allowed_seconds, greatest(0, floor(v_elapsed)))::integer;
+  return new;
+end;
+$$;
+
+drop trigger if exists student_answers_enforce_deadline on public.student_answers;
+create trigger student_answers_enforce_deadline
+  before insert on public.student_answers
+  for each row execute function public.enforce_question_deadline();
@@ -0,0 +1,14 @@
+-- Competitive scoring. 'speed' quizzes award leaderboard points for how fast
+-- each question was answered, with a bonus for answer streaks; 'standard'
+-- quizzes rank students by their score.
+
+alter table public.quizzes
+  add column if not exists scoring text not null default 'standard';
+
+alter table public.quizzes
+  add constraint quizzes_scoring_check check (scoring in ('standard', 'speed'));
+
+-- Leaderboard points a student finished with. Null on results saved before
+-- leaderboards existed.
+alter table public.quiz_results
+  add column if not exists points numeric;
@@ -0,0 +1,119 @@
+-- Team mode. A quiz with teams puts every student on one of them when they
+-- join; a team scores the average or the sum of its members' results.
+
+alter table public.quizzes
+  add column if not exists team_scoring text not null default 'average',
+  add column if not exists team_assignment text not null default 'choose';
+
+alter table public.quizzes
+  add constraint quizzes_team_scoring_check check (team_scoring in ('average', 'sum')),
+  add constraint quizzes_team_assignment_check check (team_assignment in ('choose', 'auto'));
+
+create table if not exists public.quiz_teams (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id uuid not null references public.quizzes(id) on delete cascade,
+  name text not null,
+  order_num integer not null default 0,
+  unique (quiz_id, name)
+);
+
+create index if not exists quiz_teams_quiz_id_idx
+  on public.quiz_teams (quiz_id);
+
+alter table public.quiz_teams enable row level security;
+
+create policy "Teams are readable by everyone"
+  on public.quiz_teams for select
+  using (true);
+
+create policy "Quiz creators manage their teams"
+  on public.quiz_teams for all
+  using (exists (
+    select 1 from public.quizzes
+    where quizzes.id = quiz_teams.quiz_id and quizzes.created_by = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.quizzes
+    where quizzes.id = quiz_teams.quiz_id and quizzes.created_by = auth.uid()
+  ));
+
+-- Who is on which team for the current run of the quiz. Cleared when the
+-- quiz is launched again; results keep the team they were earned for.
+create table if not exists public.team_members (
+  quiz_id uuid not null references public.quizzes(id) on delete cascade,
+  student_id uuid not null references public.students(id) on delete cascade,
+  team_id uuid not null references public.quiz_teams(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (quiz_id, student_id)
+);
+
+alter table public.team_members enable row level security;
+
+-- Members are only added by join_team
+create policy "Team members are readable by everyone"
+  on public.team_members for select
+  using (true);
+
+create policy "Quiz creators clear their team members"
+  on public.team_members for delete
+  using (exists (
+    select 1 from public.quizzes
+    where quizzes.id = team_members.quiz_id and quizzes.created_by = auth.uid()
+  ));
+
+alter table public.quiz_results
+  add column if not exists team_id uuid references public.quiz_teams(id) on delete set null;
+
+-- Put a student on a team and return it. Students pick their team unless the
+-- quiz assigns them, in which case they go to the smallest team and stay there.
+create or replace function public.join_team(p_quiz_id uuid, p_student_id uuid, p_team_id uuid default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_assignment text;
+  v_team_id uuid;
+begin
+  select team_assignment into v_assignment from public.quizzes where id = p_quiz_id and is_active;
+  if not found then
+    raise exception 'This quiz is not currently active';
+  end if;
+
+  if v_assignment = 'choose' and p_team_id is not null then
+    if not exists (select 1 from public.quiz_teams where id = p_team_id and quiz_id = p_quiz_id) then
+      raise exception 'That team is not part of this quiz';
+    end if;
+
+    insert into public.team_members (quiz_id, student_id, team_id)
+    values (p_quiz_id, p_student_id, p_team_id)
+    on conflict (quiz_id, student_id) do update set team_id = excluded.team_id;
+    return p_team_id;
+  end if;
+
+  select team_id into v_team_id
+  from public.team_members
+  where quiz_id = p_quiz_id and student_id = p_student_id;
+  if found then
+    return v_team_id;
+  end if;
+
+  select t.id into v_team_id
+  from public.quiz_teams t
+  left join public.team_members m on m.team_id = t.id
+  where t.quiz_id = p_quiz_id
+  group by t.id, t.order_num
+  order by count(m.student_id), t.order_num
+  limit 1;
+  if v_team_id is null then
+    raise exception 'This quiz has no teams';
+  end if;
+
+  insert into public.team_members (quiz_id, student_id, team_id)
+  values (p_quiz_id, p_student_id, v_team_id);
+  return v_team_id;
+end;
+$$;
+
+grant execute on function public.join_team(uuid, uuid, uuid) to anon, authenticated;
@@ -0,0 +1,58 @@
+-- Lobby before a quiz starts. While the lobby is open students can join with
+-- the room code and wait; launching the quiz closes it.
+
+alter table public.quizzes
+  add column if not exists lobby_open boolean not null default false;
+
+-- Students pick or are given their team in the lobby, before the quiz starts
+create or replace function public.join_team(p_quiz_id uuid, p_student_id uuid, p_team_id uuid default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_assignment text;
+  v_team_id uuid;
+begin
+  select team_assignment into v_assignment
+  from public.quizzes
+  where id = p_quiz_id and (is_active or lobby_open);
+  if not found then
+    raise exception 'This quiz is not currently open';
+  end if;
+
+  if v_assignment = 'choose' and p_team_id is not null then
+    if not exists (select 1 from public.quiz_teams where id = p_team_id and quiz_id = p_quiz_id) then
+      raise exception 'That team is not part of this quiz';
+    end if;
+
+    insert into public.team_members (quiz_id, student_id, team_id)
+    values (p_quiz_id, p_student_id, p_team_id)
+    on conflict (quiz_id, student_id) do update set team_id = excluded.team_id;
+    return p_team_id;
+  end if;
+
+  select team_id into v_team_id
+  from public.team_members
+  where quiz_id = p_quiz_id and student_id = p_student_id;
+  if found then
+    return v_team_id;
+  end if;
+
+  select t.id into v_team_id
+  from public.quiz_teams t
+  left join public.team_members m on m.team_id = t.id
+  where t.quiz_id = p_quiz_id
+  group by t.id, t.order_num
+  order by count(m.student_id), t.order_num
+  limit 1;
+  if v_team_id is null then
+    raise exception 'This quiz has no teams';
+  end if;
+
+  insert into public.team_members (quiz_id, student_id, team_id)
+  values (p_quiz_id, p_student_id, v_team_id);
+  return v_team_id;
+end;
+$$;
@@ -0,0 +1,92 @@
+-- Teachers can remove students from a quiz's room and keep them out, by name
+-- or by the device they joined from, and can rename students in the room.
+
+create table if not exists public.room_bans (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id uuid not null references public.quizzes(id) on delete cascade,
+  student_name text,
+  device_id text,
+  created_at timestamptz not null default now(),
+  constraint room_bans_target_check check (student_name is not null or device_id is not null)
+);
+
+create index if not exists room_bans_quiz_id_idx
+  on public.room_bans (quiz_id);
+
+alter table public.room_bans enable row level security;
+
+-- Students check the list when they join
+create policy "Room bans are readable by everyone"
+  on public.room_bans for select
+  using (true);
+
+create policy "Quiz creators manage their room bans"
+  on public.room_bans for all
+  using (exists (
+    select 1 from public.quizzes
+    where quizzes.id = room_bans.quiz_id and quizzes.created_by = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.quizzes
+    where quizzes.id = room_bans.quiz_id and quizzes.created_by = auth.uid()
+  ));
+
+-- A banned name can't keep answering, even from a page that was already open
+create or replace function public.reject_banned_answers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1
+    from public.room_bans b
+    join public.students s on lower(s.name) = lower(b.student_name)
+    where b.quiz_id = new.quiz_id and s.id = new.student_id
+  ) then
+    raise exception 'You have been removed from this quiz';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists reject_banned_answers on public.student_answers;
+create trigger reject_banned_answers
+  before insert on public.student_answers
+  for each row execute function public.reject_banned_answers();
+
+-- Rename a student everywhere they show up in the quiz. Students are told
+-- apart by name, so the rows behind the old name take the new one.
+create or replace function public.rename_participant(p_quiz_id uuid, p_old_name text, p_new_name text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.quizzes where id = p_quiz_id and created_by = auth.uid()) then
+    raise exception 'Only the quiz''s teacher can rename students';
+  end if;
+
+  if coalesce(trim(p_new_name), '') = '' then
+    raise exception 'A student needs a name';
+  end if;
+
+  update public.students
+  set name = trim(p_new_name)
+  where name = p_old_name
+    and id in (
+      select student_id from public.student_answers where quiz_id = p_quiz_id
+      union
+      select student_id from public.question_attempts where quiz_id = p_quiz_id
+      union
+      select student_id from public.quiz_results where quiz_id = p_quiz_id
+      union
+      select student_id from public.team_members where quiz_id = p_quiz_id
+    );
+end;
+$$;
+
+grant execute on function public.rename_participant(uuid, text, text) to authenticated;
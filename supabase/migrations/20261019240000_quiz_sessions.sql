@@ -0,0 +1,129 @@
+-- Quiz sessions. Every time a teacher opens a quiz's lobby starts a new run
+-- of it (say, one per class period) with its own room code, the settings it
+-- was run with and who joined. Answers and results belong to their session,
+-- so runs of the same quiz no longer mix.
+
+create table if not exists public.quiz_sessions (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id uuid not null references public.quizzes(id) on delete cascade,
+  room_code text not null,
+  -- The quiz's settings when the session opened, in case they change later
+  settings jsonb not null default '{}'::jsonb,
+  opened_at timestamptz not null default now(),
+  started_at timestamptz,
+  ended_at timestamptz
+);
+
+create index if not exists quiz_sessions_quiz_id_idx
+  on public.quiz_sessions (quiz_id);
+
+-- Two sessions that are still open can't share a room code
+create unique index if not exists quiz_sessions_open_room_code_idx
+  on public.quiz_sessions (room_code)
+  where ended_at is null;
+
+alter table public.quiz_sessions enable row level security;
+
+-- Students look up the session they're joining by its room code
+create policy "Quiz sessions are readable by everyone"
+  on public.quiz_sessions for select
+  using (true);
+
+create policy "Quiz creators manage their sessions"
+  on public.quiz_sessions for all
+  using (exists (
+    select 1 from public.quizzes
+    where quizzes.id = quiz_sessions.quiz_id and quizzes.created_by = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.quizzes
+    where quizzes.id = quiz_sessions.quiz_id and quizzes.created_by = auth.uid()
+  ));
+
+-- The session that is open or ran last. The quiz's room_code and live state
+-- follow it, so students and Realtime still find the live quiz by its code.
+alter table public.quizzes
+  add column if not exists current_session_id uuid references public.quiz_sessions(id) on delete set null;
+
+create table if not exists public.session_participants (
+  session_id uuid not null references public.quiz_sessions(id) on delete cascade,
+  student_id uuid not null references public.students(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (session_id, student_id)
+);
+
+alter table public.session_participants enable row level security;
+
+create policy "Session participants are readable by everyone"
+  on public.session_participants for select
+  using (true);
+
+create policy "Students join sessions that are still open"
+  on public.session_participants for insert
+  with check (exists (
+    select 1 from public.quiz_sessions
+    where quiz_sessions.id = session_participants.session_id and quiz_sessions.ended_at is null
+  ));
+
+alter table public.student_answers
+  add column if not exists session_id uuid references public.quiz_sessions(id) on delete set null;
+
+alter table public.quiz_results
+  add column if not exists session_id uuid references public.quiz_sessions(id) on delete set null;
+
+create index if not exists student_answers_session_id_idx
+  on public.student_answers (session_id);
+
+create index if not exists quiz_results_session_id_idx
+  on public.quiz_results (session_id);
+
+-- Bans keep a student out of one session's room, not every run of the quiz
+alter table public.room_bans
+  add column if not exists session_id uuid references public.quiz_sessions(id) on delete cascade;
+
+-- Answers and results are filed under the quiz's current session. Results
+-- handed in just after the teacher ends the quiz still land in it.
+create or replace function public.stamp_quiz_session()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.session_id is null then
+    select current_session_id into new.session_id
+    from public.quizzes
+    where id = new.quiz_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_quiz_session on public.student_answers;
+create trigger stamp_quiz_session
+  before insert on public.student_answers
+  for each row execute function public.stamp_quiz_session();
+
+drop trigger if exists stamp_quiz_session on public.quiz_results;
+create trigger stamp_quiz_session
+  before insert on public.quiz_results
+  for each row execute function public.stamp_quiz_session();
+
+-- Every session starts each student's question clocks afresh
+create or replace function public.reset_question_attempts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.question_attempts where quiz_id = new.quiz_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists reset_question_attempts on public.quiz_sessions;
+create trigger reset_question_attempts
+  after insert on public.quiz_sessions
+  for each row execute function public.reset_question_attempts();
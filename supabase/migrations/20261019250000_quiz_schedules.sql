@@ -0,0 +1,108 @@
+-- Scheduled quizzes. A quiz can go live at a set time and close at a
+-- deadline or a number of minutes after it starts, with nobody at a browser:
+-- a pg_cron job checks the schedules every minute.
+
+alter table public.quizzes
+  add column if not exists scheduled_start_at timestamptz,
+  add column if not exists scheduled_end_at timestamptz,
+  add column if not exists auto_close_minutes integer,
+  -- When the schedule last started and closed the quiz, to show on the dashboard
+  add column if not exists schedule_launched_at timestamptz,
+  add column if not exists schedule_closed_at timestamptz;
+
+alter table public.quizzes
+  add constraint quizzes_schedule_order_check
+    check (scheduled_start_at is null or scheduled_end_at is null or scheduled_end_at > scheduled_start_at),
+  add constraint quizzes_auto_close_minutes_check
+    check (auto_close_minutes is null or auto_close_minutes > 0);
+
+create or replace function public.run_quiz_schedules()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quiz record;
+  v_session_id uuid;
+  v_room_code text;
+begin
+  -- Close first, so a teacher's next scheduled quiz can start in the same run.
+  -- A deadline only closes sessions that started before it.
+  for v_quiz in
+    select q.id, q.current_session_id
+    from public.quizzes q
+    join public.quiz_sessions s on s.id = q.current_session_id
+    where q.is_active
+      and (
+        (q.scheduled_end_at <= now() and s.started_at < q.scheduled_end_at)
+        or s.started_at + make_interval(mins => q.auto_close_minutes) <= now()
+      )
+  loop
+    update public.quizzes
+    set is_active = false, schedule_closed_at = now()
+    where id = v_quiz.id;
+
+    update public.quiz_sessions
+    set ended_at = now()
+    where id = v_quiz.current_session_id and ended_at is null;
+  end loop;
+
+  -- Start what's due, as a new session straight past the lobby. A quiz waits
+  -- while its teacher has another one open, and is skipped once its deadline
+  -- has gone by.
+  for v_quiz in
+    select q.*
+    from public.quizzes q
+    where q.scheduled_start_at <= now()
+      and q.schedule_launched_at is null
+      and not q.is_active
+      and not q.lobby_open
+      and (q.scheduled_end_at is null or q.scheduled_end_at > now())
+      and not exists (
+        select 1 from public.quizzes other
+        where other.created_by = q.created_by and other.id <> q.id and (other.is_active or other.lobby_open)
+      )
+  loop
+    delete from public.team_members where quiz_id = v_quiz.id;
+
+    insert into public.quiz_sessions (quiz_id, room_code, settings, started_at)
+    values (
+      v_quiz.id,
+      upper(substr(md5(random()::text), 1, 6)),
+      jsonb_build_object(
+        'timePerQuestion', v_quiz.time_per_question,
+        'feedbackMode', v_quiz.feedback_mode,
+        'paceMode', v_quiz.pace_mode,
+        'scoring', v_quiz.scoring,
+        'shuffleQuestions', v_quiz.shuffle_questions,
+        'shuffleOptions', v_quiz.shuffle_options,
+        'teamScoring', v_quiz.team_scoring,
+        'teamAssignment', v_quiz.team_assignment,
+        'questionCount', (select count(*) from public.quiz_questions where quiz_id = v_quiz.id)
+      ),
+      now()
+    )
+    returning id, room_code into v_session_id, v_room_code;
+
+    update public.quizzes
+    set is_active = true,
+        lobby_open = false,
+        room_code = v_room_code,
+        current_session_id = v_session_id,
+        current_question = 0,
+        answers_revealed = false,
+        paused_at = null,
+        extra_seconds = 0,
+        schedule_launched_at = now(),
+        schedule_closed_at = null
+    where id = v_quiz.id;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.run_quiz_schedules() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('run-quiz-schedules', '* * * * *', $$select public.run_quiz_schedules()$$);
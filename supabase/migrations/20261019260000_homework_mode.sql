@@ -0,0 +1,246 @@
+-- Homework. A quiz can be assigned as a homework session that students take
+-- at their own pace, any time in its availability window, without the quiz
+-- being live. Work handed in after the due date is turned away, accepted as
+-- late, or accepted with a penalty, as the teacher chose.
+
+alter table public.quiz_sessions
+  add column if not exists mode text not null default 'live',
+  add column if not exists available_from timestamptz,
+  add column if not exists due_at timestamptz,
+  add column if not exists late_policy text not null default 'reject',
+  add column if not exists late_penalty_percent integer not null default 0;
+
+alter table public.quiz_sessions
+  add constraint quiz_sessions_mode_check check (mode in ('live', 'homework')),
+  add constraint quiz_sessions_late_policy_check check (late_policy in ('reject', 'accept', 'penalty')),
+  add constraint quiz_sessions_late_penalty_check check (late_penalty_percent between 0 and 100),
+  add constraint quiz_sessions_homework_due_check check (mode <> 'homework' or due_at is not null);
+
+alter table public.quiz_results
+  add column if not exists submitted_late boolean not null default false;
+
+-- Question clocks belong to a session now that a quiz's homework and live
+-- sessions can run side by side. The clocks in flight are dropped.
+delete from public.question_attempts;
+
+alter table public.question_attempts
+  add column session_id uuid not null references public.quiz_sessions(id) on delete cascade;
+
+alter table public.question_attempts drop constraint question_attempts_pkey;
+alter table public.question_attempts add primary key (session_id, question_id, student_id);
+
+-- A new session no longer has to clear the last one's clocks
+drop trigger if exists reset_question_attempts on public.quiz_sessions;
+drop function if exists public.reset_question_attempts();
+
+-- Whether a session takes answers right now: a live one while its quiz is
+-- running, homework inside its window (or after it, when late work counts)
+create or replace function public.session_is_open(p_session public.quiz_sessions)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p_session.mode = 'homework' then
+      p_session.ended_at is null
+      and coalesce(p_session.available_from, p_session.opened_at) <= now()
+      and (p_session.due_at > now() or p_session.late_policy <> 'reject')
+    else exists (
+      select 1 from public.quizzes
+      where id = p_session.quiz_id and is_active and current_session_id = p_session.id
+    )
+  end;
+$$;
+
+drop function if exists public.start_question(uuid, uuid, uuid);
+drop function if exists public.question_timing(uuid, uuid, uuid);
+
+-- As before, but per session. Homework is always self-paced and has no
+-- pauses or extra time.
+create or replace function public.question_timing(p_session_id uuid, p_question_id uuid, p_student_id uuid)
+returns table (started_at timestamptz, allowed_seconds integer, paused_seconds integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_session public.quiz_sessions;
+  v_quiz public.quizzes;
+  v_homework boolean;
+  v_time_limit integer;
+  v_attempt public.question_attempts;
+begin
+  select * into v_session from public.quiz_sessions where id = p_session_id;
+  if not found or not public.session_is_open(v_session) then
+    return;
+  end if;
+
+  select * into v_quiz from public.quizzes where id = v_session.quiz_id;
+  v_homework := v_session.mode = 'homework';
+
+  select coalesce(time_limit, v_quiz.time_per_question) into v_time_limit
+  from public.quiz_questions
+  where id = p_question_id and quiz_id = v_quiz.id;
+  if v_time_limit is null then
+    return;
+  end if;
+
+  if v_quiz.pace_mode = 'teacher' and not v_homework then
+    -- Only the question the teacher has the class on is open
+    if p_question_id is distinct from (
+      select id from public.quiz_questions
+      where quiz_id = v_quiz.id
+      order by order_num
+      offset v_quiz.current_question
+      limit 1
+    ) then
+      return;
+    end if;
+
+    started_at := v_quiz.question_started_at;
+    allowed_seconds := v_time_limit + v_quiz.extra_seconds;
+    paused_seconds := 0;
+  else
+    select * into v_attempt
+    from public.question_attempts
+    where session_id = p_session_id and question_id = p_question_id and student_id = p_student_id;
+    if not found then
+      return;
+    end if;
+
+    started_at := v_attempt.started_at;
+    if v_homework then
+      allowed_seconds := v_time_limit;
+      paused_seconds := 0;
+      return next;
+      return;
+    end if;
+
+    allowed_seconds := v_time_limit + v_quiz.extra_seconds - v_attempt.extra_seconds_at_start;
+    paused_seconds := v_quiz.paused_seconds - v_attempt.paused_seconds_at_start;
+  end if;
+
+  -- A pause that's still going on holds the clock too
+  if v_quiz.paused_at is not null then
+    paused_seconds := paused_seconds
+      + ceil(extract(epoch from now() - greatest(v_quiz.paused_at, started_at)))::integer;
+  end if;
+
+  return next;
+end;
+$$;
+
+-- Start (or pick back up) a student's clock on a question in a session. The
+-- session defaults to the quiz's live one.
+create or replace function public.start_question(
+  p_quiz_id uuid,
+  p_question_id uuid,
+  p_student_id uuid,
+  p_session_id uuid default null
+)
+returns table (started_at timestamptz, deadline timestamptz, server_now timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_session public.quiz_sessions;
+  v_quiz public.quizzes;
+begin
+  select * into v_quiz from public.quizzes where id = p_quiz_id;
+  select * into v_session
+  from public.quiz_sessions
+  where id = coalesce(p_session_id, v_quiz.current_session_id) and quiz_id = p_quiz_id;
+
+  if found and public.session_is_open(v_session)
+    and (v_session.mode = 'homework' or v_quiz.pace_mode = 'self') then
+    insert into public.question_attempts (
+      session_id, quiz_id, question_id, student_id, extra_seconds_at_start, paused_seconds_at_start
+    )
+    values (
+      v_session.id, p_quiz_id, p_question_id, p_student_id,
+      case when v_session.mode = 'homework' then 0 else v_quiz.extra_seconds end,
+      case when v_session.mode = 'homework' then 0 else v_quiz.paused_seconds end
+    )
+    on conflict (session_id, question_id, student_id) do nothing;
+  end if;
+
+  return query
+  select t.started_at,
+         t.started_at + make_interval(secs => t.allowed_seconds + t.paused_seconds),
+         now()
+  from public.question_timing(v_session.id, p_question_id, p_student_id) t;
+end;
+$$;
+
+grant execute on function public.start_question(uuid, uuid, uuid, uuid) to anon, authenticated;
+
+-- Answers are checked against their session's clock. session_id is filled in
+-- by stamp_quiz_session, which runs first.
+create or replace function public.enforce_question_deadline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_timing record;
+  v_elapsed numeric;
+  v_grace_seconds constant integer := 5;
+begin
+  select * into v_timing
+  from public.question_timing(new.session_id, new.question_id, new.student_id);
+
+  if v_timing.started_at is null then
+    raise exception 'This question is not open for answers';
+  end if;
+
+  v_elapsed := extract(epoch from now() - v_timing.started_at) - v_timing.paused_seconds;
+  if v_elapsed > v_timing.allowed_seconds + v_grace_seconds then
+    raise exception 'Time is up for this question';
+  end if;
+
+  new.time_spent := least(v_timing.allowed_seconds, greatest(0, floor(v_elapsed)))::integer;
+  return new;
+end;
+$$;
+
+-- Homework handed in after its due date: turned away, or marked late and
+-- docked the session's penalty. Runs after stamp_quiz_session.
+create or replace function public.stamp_submitted_late()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session public.quiz_sessions;
+begin
+  select * into v_session from public.quiz_sessions where id = new.session_id;
+  if not found or v_session.mode <> 'homework' or now() <= v_session.due_at then
+    return new;
+  end if;
+
+  if v_session.late_policy = 'reject' or v_session.ended_at is not null then
+    raise exception 'This homework is closed for submissions';
+  end if;
+
+  new.submitted_late := true;
+  if v_session.late_policy = 'penalty' then
+    new.score := new.score * (100 - v_session.late_penalty_percent) / 100.0;
+    new.points := new.points * (100 - v_session.late_penalty_percent) / 100.0;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_submitted_late on public.quiz_results;
+create trigger stamp_submitted_late
+  before insert on public.quiz_results
+  for each row execute function public.stamp_submitted_late();
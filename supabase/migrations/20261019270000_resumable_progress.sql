@@ -0,0 +1,14 @@
+-- Resumable progress. A student who reloads the page or drops off picks the
+-- quiz back up from the answers they already saved in this session, so each
+-- question can only be answered once per session. Answers already sent twice
+-- (a double tap, or again after a reload) keep the first.
+
+delete from public.student_answers later
+using public.student_answers earlier
+where later.session_id = earlier.session_id
+  and later.student_id = earlier.student_id
+  and later.question_id = earlier.question_id
+  and (later.submitted_at, later.id) > (earlier.submitted_at, earlier.id);
+
+create unique index if not exists student_answers_once_per_session_idx
+  on public.student_answers (session_id, student_id, question_id);
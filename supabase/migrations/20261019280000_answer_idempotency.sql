@@ -0,0 +1,10 @@
+-- Idempotent answers. Students' devices queue answers while the connection
+-- is down and send them again until the server acknowledges them. Each
+-- answer carries a key made on the device for the participant and question,
+-- so an answer that arrives twice is only saved once.
+
+alter table public.student_answers
+  add column if not exists client_key text;
+
+create unique index if not exists student_answers_client_key_idx
+  on public.student_answers (client_key);
@@ -0,0 +1,83 @@
+-- Concurrent live quizzes. A teacher can have several rooms open at once,
+-- for a station rotation or two classes they co-teach, so a scheduled quiz no
+-- longer waits for the teacher's other quizzes to close.
+
+create or replace function public.run_quiz_schedules()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quiz record;
+  v_session_id uuid;
+  v_room_code text;
+begin
+  -- Close what's over. A deadline only closes sessions that started before it.
+  for v_quiz in
+    select q.id, q.current_session_id
+    from public.quizzes q
+    join public.quiz_sessions s on s.id = q.current_session_id
+    where q.is_active
+      and (
+        (q.scheduled_end_at <= now() and s.started_at < q.scheduled_end_at)
+        or s.started_at + make_interval(mins => q.auto_close_minutes) <= now()
+      )
+  loop
+    update public.quizzes
+    set is_active = false, schedule_closed_at = now()
+    where id = v_quiz.id;
+
+    update public.quiz_sessions
+    set ended_at = now()
+    where id = v_quiz.current_session_id and ended_at is null;
+  end loop;
+
+  -- Start what's due, as a new session straight past the lobby, whatever
+  -- else its teacher has running. A quiz is skipped once its deadline has
+  -- gone by.
+  for v_quiz in
+    select q.*
+    from public.quizzes q
+    where q.scheduled_start_at <= now()
+      and q.schedule_launched_at is null
+      and not q.is_active
+      and not q.lobby_open
+      and (q.scheduled_end_at is null or q.scheduled_end_at > now())
+  loop
+    delete from public.team_members where quiz_id = v_quiz.id;
+
+    insert into public.quiz_sessions (quiz_id, room_code, settings, started_at)
+    values (
+      v_quiz.id,
+      upper(substr(md5(random()::text), 1, 6)),
+      jsonb_build_object(
+        'timePerQuestion', v_quiz.time_per_question,
+        'feedbackMode', v_quiz.feedback_mode,
+        'paceMode', v_quiz.pace_mode,
+        'scoring', v_quiz.scoring,
+        'shuffleQuestions', v_quiz.shuffle_questions,
+        'shuffleOptions', v_quiz.shuffle_options,
+        'teamScoring', v_quiz.team_scoring,
+        'teamAssignment', v_quiz.team_assignment,
+        'questionCount', (select count(*) from public.quiz_questions where quiz_id = v_quiz.id)
+      ),
+      now()
+    )
+    returning id, room_code into v_session_id, v_room_code;
+
+    update public.quizzes
+    set is_active = true,
+        lobby_open = false,
+        room_code = v_room_code,
+        current_session_id = v_session_id,
+        current_question = 0,
+        answers_revealed = false,
+        paused_at = null,
+        extra_seconds = 0,
+        schedule_launched_at = now(),
+        schedule_closed_at = null
+    where id = v_quiz.id;
+  end loop;
+end;
+$$;
@@ -0,0 +1,28 @@
+-- Bans keep a student out of one session, so only that session rejects their
+-- answers. This trigger runs before stamp_quiz_session, so an answer sent
+-- without its session is checked against the quiz's current one.
+
+create or replace function public.reject_banned_answers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1
+    from public.room_bans b
+    join public.students s on lower(s.name) = lower(b.student_name)
+    where b.quiz_id = new.quiz_id
+      and b.session_id = coalesce(
+        new.session_id,
+        (select current_session_id from public.quizzes where id = new.quiz_id)
+      )
+      and s.id = new.student_id
+  ) then
+    raise exception 'You have been removed from this quiz';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,110 @@
+-- A rename only applies to the session it was made in. The student's rows
+-- there move to a student record under the new name; the old records, and
+-- everything else filed under them, keep the old name. Joining used to make a
+-- new record every time, so a student can have several in one session; every
+-- one under the old name moves.
+
+drop function if exists public.rename_participant(uuid, text, text);
+
+create or replace function public.rename_participant(p_session_id uuid, p_old_name text, p_new_name text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quiz_id uuid;
+  v_old_ids uuid[];
+  v_new_id uuid;
+begin
+  select s.quiz_id into v_quiz_id
+  from public.quiz_sessions s
+  join public.quizzes q on q.id = s.quiz_id
+  where s.id = p_session_id and q.created_by = auth.uid();
+
+  if v_quiz_id is null then
+    raise exception 'Only the quiz''s teacher can rename students';
+  end if;
+
+  if coalesce(trim(p_new_name), '') = '' then
+    raise exception 'A student needs a name';
+  end if;
+
+  if trim(p_new_name) = p_old_name then
+    return;
+  end if;
+
+  select array_agg(id) into v_old_ids
+  from public.students
+  where name = p_old_name
+    and id in (
+      select student_id from public.session_participants where session_id = p_session_id
+      union
+      select student_id from public.student_answers where session_id = p_session_id
+      union
+      select student_id from public.question_attempts where session_id = p_session_id
+      union
+      select student_id from public.quiz_results where session_id = p_session_id
+    );
+
+  if v_old_ids is null then
+    return;
+  end if;
+
+  -- Students are looked up by name, so answers sent under the new name later
+  -- in the session find the same record these rows move to
+  select id into v_new_id
+  from public.students
+  where name = trim(p_new_name)
+  order by created_at
+  limit 1;
+
+  if v_new_id is null then
+    insert into public.students (name)
+    values (trim(p_new_name))
+    returning id into v_new_id;
+  elsif exists (select 1 from public.session_participants where session_id = p_session_id and student_id = v_new_id)
+     or exists (select 1 from public.student_answers where session_id = p_session_id and student_id = v_new_id)
+     or exists (select 1 from public.quiz_results where session_id = p_session_id and student_id = v_new_id) then
+    raise exception 'Someone in the room already has that name';
+  end if;
+
+  update public.student_answers
+  set student_id = v_new_id
+  where session_id = p_session_id and student_id = any(v_old_ids);
+
+  update public.question_attempts
+  set student_id = v_new_id
+  where session_id = p_session_id and student_id = any(v_old_ids);
+
+  update public.quiz_results
+  set student_id = v_new_id
+  where session_id = p_session_id and student_id = any(v_old_ids);
+
+  -- Several old records become one, so these are merged rather than moved
+  insert into public.session_participants (session_id, student_id, joined_at)
+  select p_session_id, v_new_id, min(joined_at)
+  from public.session_participants
+  where session_id = p_session_id and student_id = any(v_old_ids)
+  having count(*) > 0;
+
+  delete from public.session_participants
+  where session_id = p_session_id and student_id = any(v_old_ids);
+
+  -- Team members are kept for the quiz's current run only; the latest team
+  -- the student joined wins
+  if exists (select 1 from public.quizzes where id = v_quiz_id and current_session_id = p_session_id) then
+    insert into public.team_members (quiz_id, student_id, team_id, joined_at)
+    select quiz_id, v_new_id, team_id, joined_at
+    from public.team_members
+    where quiz_id = v_quiz_id and student_id = any(v_old_ids)
+    order by joined_at desc
+    limit 1;
+
+    delete from public.team_members
+    where quiz_id = v_quiz_id and student_id = any(v_old_ids);
+  end if;
+end;
+$$;
+
+grant execute on function public.rename_participant(uuid, text, text) to authenticated;
@@ -0,0 +1,84 @@
+-- Answers queued on a device that lost its connection reach the server late.
+-- Nothing the device says about when they were given is trusted: an answer to
+-- a question the server saw start is timed from when it arrives, as before.
+-- A question the student started while offline never had its clock started
+-- here, so its answer is taken at the question's full time, scored as the
+-- slowest answer would be, as long as it arrives no later than the whole
+-- quiz's running time after the server last heard from the student.
+
+create or replace function public.enforce_question_deadline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_timing record;
+  v_elapsed numeric;
+  v_grace_seconds constant integer := 5;
+  v_session public.quiz_sessions;
+  v_quiz public.quizzes;
+  v_time_limit integer;
+  v_quiz_seconds integer;
+  v_last_seen timestamptz;
+begin
+  select * into v_timing
+  from public.question_timing(new.session_id, new.question_id, new.student_id);
+
+  if v_timing.started_at is not null then
+    v_elapsed := extract(epoch from now() - v_timing.started_at) - v_timing.paused_seconds;
+    if v_elapsed > v_timing.allowed_seconds + v_grace_seconds then
+      raise exception 'Time is up for this question';
+    end if;
+
+    new.time_spent := least(v_timing.allowed_seconds, greatest(0, floor(v_elapsed)))::integer;
+    return new;
+  end if;
+
+  -- Only a self-paced question with no clock for this student can have been
+  -- started offline; a teacher-paced one runs on the quiz's clock
+  select * into v_session from public.quiz_sessions where id = new.session_id;
+  if not found or not public.session_is_open(v_session) then
+    raise exception 'This question is not open for answers';
+  end if;
+
+  select * into v_quiz from public.quizzes where id = v_session.quiz_id;
+  if v_quiz.pace_mode = 'teacher' and v_session.mode <> 'homework' then
+    raise exception 'This question is not open for answers';
+  end if;
+
+  select coalesce(time_limit, v_quiz.time_per_question) into v_time_limit
+  from public.quiz_questions
+  where id = new.question_id and quiz_id = v_quiz.id;
+  if v_time_limit is null or exists (
+    select 1 from public.question_attempts
+    where session_id = new.session_id and question_id = new.question_id and student_id = new.student_id
+  ) then
+    raise exception 'This question is not open for answers';
+  end if;
+
+  select sum(coalesce(time_limit, v_quiz.time_per_question)) into v_quiz_seconds
+  from public.quiz_questions
+  where quiz_id = v_quiz.id;
+
+  select max(seen_at) into v_last_seen
+  from (
+    select started_at as seen_at from public.question_attempts
+    where session_id = new.session_id and student_id = new.student_id
+    union all
+    select submitted_at from public.student_answers
+    where session_id = new.session_id and student_id = new.student_id
+    union all
+    select joined_at from public.session_participants
+    where session_id = new.session_id and student_id = new.student_id
+  ) seen;
+
+  if v_last_seen is null
+     or now() > v_last_seen + make_interval(secs => v_quiz_seconds + v_quiz.extra_seconds + v_grace_seconds) then
+    raise exception 'Time is up for this question';
+  end if;
+
+  new.time_spent := v_time_limit;
+  return new;
+end;
+$$;